@@ -0,0 +1,107 @@
+// Delivers queued player notifications (see player_notifications) through a delivery adapter
+// and records the outcome on each row.
+//
+//   SUPABASE_URL=http://127.0.0.1:54321 SUPABASE_SERVICE_ROLE_KEY=... npm run notifications
+//   npm run notifications -- --once          run a single pass and exit
+//   npm run notifications -- --interval 30   seconds between passes (default 60)
+//
+// NOTIFICATION_ADAPTER picks the channel: inbox (default), console, webhook, or the path of a
+// module exporting a custom adapter (see notification-adapters.mjs). With console, nothing
+// leaves the machine, which is the easiest way to test the flow locally. Failed deliveries are
+// retried on later passes, up to NOTIFICATION_MAX_ATTEMPTS (default 5).
+//
+// Each pass claims its rows first (claim_player_notifications), so several workers can run
+// side by side without sending anything twice. The next pass starts --interval seconds after
+// the previous one finished.
+import { createClient } from '@supabase/supabase-js';
+import { loadAdapter } from './notification-adapters.mjs';
+
+const url = process.env.SUPABASE_URL;
+const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+if (!url || !serviceKey) {
+  console.error('Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.');
+  process.exit(1);
+}
+
+const args = process.argv.slice(2);
+const once = args.includes('--once');
+const intervalArg = args.indexOf('--interval');
+const intervalSeconds = intervalArg >= 0 ? Number(args[intervalArg + 1]) : 60;
+if (!Number.isFinite(intervalSeconds) || intervalSeconds <= 0) {
+  console.error('--interval must be a positive number of seconds.');
+  process.exit(1);
+}
+
+const maxAttempts = Number(process.env.NOTIFICATION_MAX_ATTEMPTS || 5);
+if (!Number.isFinite(maxAttempts) || maxAttempts <= 0) {
+  console.error('NOTIFICATION_MAX_ATTEMPTS must be a positive number.');
+  process.exit(1);
+}
+
+let adapter;
+try {
+  adapter = await loadAdapter(process.env.NOTIFICATION_ADAPTER || 'inbox');
+} catch (error) {
+  console.error(`Could not load the notification adapter: ${error.message}`);
+  process.exit(1);
+}
+
+const supabase = createClient(url, serviceKey, { auth: { persistSession: false } });
+
+async function runOnce() {
+  const stamp = new Date().toISOString();
+  const { data, error } = await supabase.rpc('claim_player_notifications', { p_limit: 100 });
+  if (error) {
+    console.error(`[${stamp}] Claiming notifications failed: ${error.message}`);
+    return false;
+  }
+  if (!data || data.length === 0) {
+    console.log(`[${stamp}] Nothing to send.`);
+    return true;
+  }
+
+  let ok = true;
+  for (const notification of data) {
+    const attempts = notification.attempts + 1;
+    let update;
+    try {
+      await adapter.deliver(notification);
+      update = { status: 'sent', channel: adapter.name, attempts, last_error: null, sent_at: new Date().toISOString(), claimed_at: null };
+      console.log(`[${stamp}] Sent ${notification.kind} #${notification.id} via ${adapter.name}`);
+    } catch (deliveryError) {
+      // Stays pending for the next pass until it runs out of attempts
+      update = {
+        status: attempts >= maxAttempts ? 'failed' : 'pending',
+        channel: adapter.name,
+        attempts,
+        last_error: deliveryError.message,
+        claimed_at: null,
+      };
+      console.error(`[${stamp}] Sending #${notification.id} failed (attempt ${attempts}): ${deliveryError.message}`);
+    }
+    // Still 'sending' if this fails; it is claimed again once the claim goes stale
+    const { error: updateError } = await supabase.from('player_notifications').update(update).eq('id', notification.id);
+    if (updateError) {
+      console.error(`[${stamp}] Recording #${notification.id} failed: ${updateError.message}`);
+      ok = false;
+    }
+  }
+  return ok;
+}
+
+if (once) {
+  process.exit((await runOnce()) ? 0 : 1);
+}
+
+console.log(`Delivering notifications via ${adapter.name} every ${intervalSeconds}s. Press Ctrl+C to stop.`);
+// Chained rather than setInterval, so a slow pass never overlaps the next one
+let timer;
+async function loop() {
+  await runOnce();
+  timer = setTimeout(loop, intervalSeconds * 1000);
+}
+process.on('SIGINT', () => {
+  clearTimeout(timer);
+  process.exit(0);
+});
+await loop();
@@ -0,0 +1,49 @@
+// Delivery adapters for player notifications. An adapter is an object with a `name` and an async
+// `deliver(notification)` that throws when delivery fails; the notification is the
+// player_notifications row (id, player_id, report_id, kind, title, body, created_at).
+//
+// To plug in another channel (push, email, ...), put an adapter in its own module as the default
+// export and point NOTIFICATION_ADAPTER at the file.
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+// The row itself is the player's in-app inbox entry, so there is nothing more to send
+export const inbox = {
+  name: 'inbox',
+  async deliver() {},
+};
+
+// Prints each message instead of sending it, for trying the flow against a local stack
+export const consoleAdapter = {
+  name: 'console',
+  async deliver(notification) {
+    console.log(`  -> player ${notification.player_id}: ${notification.title}\n     ${notification.body}`);
+  },
+};
+
+// POSTs the notification as JSON to NOTIFICATION_WEBHOOK_URL, e.g. a push or email service
+export const webhook = {
+  name: 'webhook',
+  async deliver(notification) {
+    const url = process.env.NOTIFICATION_WEBHOOK_URL;
+    if (!url) throw new Error('Set NOTIFICATION_WEBHOOK_URL to use the webhook adapter.');
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(notification),
+    });
+    if (!response.ok) throw new Error(`Webhook responded ${response.status} ${response.statusText}`);
+  },
+};
+
+const builtIn = { inbox, console: consoleAdapter, webhook };
+
+export async function loadAdapter(nameOrPath) {
+  if (builtIn[nameOrPath]) return builtIn[nameOrPath];
+  const module = await import(pathToFileURL(resolve(nameOrPath)).href);
+  const adapter = module.default;
+  if (!adapter || typeof adapter.deliver !== 'function') {
+    throw new Error(`${nameOrPath} does not default-export an adapter with a deliver() function.`);
+  }
+  return { ...adapter, name: adapter.name || nameOrPath };
+}
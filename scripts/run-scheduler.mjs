@@ -0,0 +1,77 @@
+// Applies scheduled go-live/expiry times by calling run_scheduled_publishing(), and purges
+// recycle-bin items older than RECYCLE_BIN_RETENTION_DAYS (default 30).
+//
+//   SUPABASE_URL=http://127.0.0.1:54321 SUPABASE_SERVICE_ROLE_KEY=... npm run scheduler
+//   npm run scheduler -- --once          run a single pass and exit
+//   npm run scheduler -- --interval 30   seconds between passes (default 60)
+//
+// The function is only executable with the service role key, so this must not run in the
+// browser. `supabase status` prints both values for a local stack. The next pass starts
+// --interval seconds after the previous one finished.
+import { createClient } from '@supabase/supabase-js';
+
+const url = process.env.SUPABASE_URL;
+const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+if (!url || !serviceKey) {
+  console.error('Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.');
+  process.exit(1);
+}
+
+const args = process.argv.slice(2);
+const once = args.includes('--once');
+const intervalArg = args.indexOf('--interval');
+const intervalSeconds = intervalArg >= 0 ? Number(args[intervalArg + 1]) : 60;
+if (!Number.isFinite(intervalSeconds) || intervalSeconds <= 0) {
+  console.error('--interval must be a positive number of seconds.');
+  process.exit(1);
+}
+
+const retentionDays = Number(process.env.RECYCLE_BIN_RETENTION_DAYS || 30);
+if (!Number.isFinite(retentionDays) || retentionDays <= 0) {
+  console.error('RECYCLE_BIN_RETENTION_DAYS must be a positive number of days.');
+  process.exit(1);
+}
+
+const supabase = createClient(url, serviceKey, { auth: { persistSession: false } });
+
+async function runOnce() {
+  const { data, error } = await supabase.rpc('run_scheduled_publishing');
+  const stamp = new Date().toISOString();
+  if (error) {
+    console.error(`[${stamp}] Scheduled publishing failed: ${error.message}`);
+    return false;
+  }
+  if (!data || data.length === 0) {
+    console.log(`[${stamp}] Nothing due.`);
+  }
+  for (const row of data || []) {
+    console.log(`[${stamp}] ${row.action} ${row.kind} ${row.key}`);
+  }
+
+  const { data: purged, error: purgeError } = await supabase.rpc('purge_expired_recycle_bin', {
+    p_retention: `${retentionDays} days`,
+  });
+  if (purgeError) {
+    console.error(`[${stamp}] Recycle bin purge failed: ${purgeError.message}`);
+    return false;
+  }
+  if (purged) console.log(`[${stamp}] Purged ${purged} recycle bin row(s).`);
+  return true;
+}
+
+if (once) {
+  process.exit((await runOnce()) ? 0 : 1);
+}
+
+console.log(`Scheduled publishing every ${intervalSeconds}s. Press Ctrl+C to stop.`);
+// Chained rather than setInterval, so a slow pass never overlaps the next one
+let timer;
+async function loop() {
+  await runOnce();
+  timer = setTimeout(loop, intervalSeconds * 1000);
+}
+process.on('SIGINT', () => {
+  clearTimeout(timer);
+  process.exit(0);
+});
+await loop();
@@ -11,12 +11,22 @@ import QuizCategoriesPage from './QuizCategoriesPage'
 import QuizzesPage from './QuizzesPage'
 import QuestionsPage from './QuestionsPage'
 import QuestionReportsPage from './QuestionReportsPage'
+import QuestionSearchPage from './QuestionSearchPage'
+import DuplicateQuestionsPage from './DuplicateQuestionsPage'
+import MissingTranslationsPage from './MissingTranslationsPage'
+import TranslationReviewPage from './TranslationReviewPage'
+import AuditLogPage from './AuditLogPage'
+import SchedulePage from './SchedulePage'
+import RecycleBinPage from './RecycleBinPage'
+import MediaLibraryPage from './MediaLibraryPage'
 import UsersPage from './UsersPage'
+import UserDetailPage from './UserDetailPage'
 import GKSubjectsPage from './GKSubjectsPage'
 import GKTopicsPage from './GKTopicsPage'
 import GKOneLinerQuestionsPage from './GKOneLinerQuestionsPage'
 import { AuthProvider } from './contexts/AuthContext'
 import { useAuth } from './hooks/useAuth'
+import type { Permission } from './lib/permissions'
 import { useParams } from 'react-router-dom'
 
 // Wrapper components for GK pages
@@ -38,7 +48,17 @@ function NotFoundPage() {
   );
 }
 
-function RequireAuth({ children }: { children: React.ReactNode }) {
+// Shown when a signed-in admin opens a page their role does not allow
+function ForbiddenPage() {
+  return (
+    <div className="flex flex-col items-center justify-center py-24 text-center">
+      <h1 className="text-3xl font-bold mb-2">Access denied</h1>
+      <p className="text-gray-600">Your role does not have permission to view this page.</p>
+    </div>
+  );
+}
+
+function RequireAuth({ children, permission }: { children: React.ReactNode; permission?: Permission }) {
   const auth = useAuth()
   const location = useLocation()
 
@@ -50,6 +70,10 @@ function RequireAuth({ children }: { children: React.ReactNode }) {
     return <Navigate to="/login" state={{ from: location }} replace />
   }
 
+  if (permission && !auth.can(permission)) {
+    return <ForbiddenPage />
+  }
+
   return <>{children}</>
 }
 
@@ -74,8 +98,17 @@ export default function App() {
             <Route path="categories/:moduleCode" element={<QuizCategoriesPage />} />
             <Route path="quizzes/:segmentCode" element={<QuizzesPage />} />
             <Route path="questions/:internalQuizKey" element={<QuestionsPage />} />
+            <Route path="search" element={<QuestionSearchPage />} />
+            <Route path="duplicates" element={<RequireAuth permission="content.edit"><DuplicateQuestionsPage /></RequireAuth>} />
+            <Route path="translations" element={<MissingTranslationsPage />} />
+            <Route path="translation-review" element={<TranslationReviewPage />} />
+            <Route path="schedule" element={<SchedulePage />} />
             <Route path="question-reports" element={<QuestionReportsPage />} />
-            <Route path="users" element={<UsersPage />} />
+            <Route path="audit-log" element={<RequireAuth permission="audit.view"><AuditLogPage /></RequireAuth>} />
+            <Route path="media" element={<RequireAuth permission="content.view"><MediaLibraryPage /></RequireAuth>} />
+            <Route path="recycle-bin" element={<RequireAuth permission="content.delete"><RecycleBinPage /></RequireAuth>} />
+            <Route path="users" element={<RequireAuth permission="users.view"><UsersPage /></RequireAuth>} />
+            <Route path="users/:userId" element={<RequireAuth permission="users.view"><UserDetailPage /></RequireAuth>} />
             {/* GK Routes */}
             <Route path="gk-subjects" element={<GKSubjectsPage languageCode="en" />} />
             <Route path="gk-topics/:subjectId" element={<GKTopicsPageWrapper />} />
@@ -0,0 +1,191 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import toast, { Toaster } from 'react-hot-toast';
+import { ChevronDown, ChevronRight, Loader2 } from 'lucide-react';
+import { Input } from './components/ui/input';
+import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from './components/ui/table';
+import SortableTableHead from './atoms/SortableTableHead';
+import TablePagination from './atoms/TablePagination';
+import { usePaginatedQuery, useFilterInput } from './hooks/usePaginatedQuery';
+import { AUDITED_TABLES, auditTableLabel, formatAuditValue, type AuditEntry } from './lib/audit';
+
+const ROWS_PER_PAGE = 25;
+const SORTABLE_COLUMNS = ['created_at'] as const;
+const AUDIT_FILTERS = [
+  { param: 'user', column: 'actor_email', op: 'ilike' },
+  { param: 'table', column: 'table_name', op: 'eq' },
+  { param: 'action', column: 'action', op: 'eq' },
+  { param: 'from', column: 'created_at', op: 'gte' },
+  { param: 'to', column: 'created_at', op: 'lte' },
+] as const;
+
+const actionStyles: Record<string, string> = {
+  insert: 'bg-green-100 text-green-700',
+  update: 'bg-blue-100 text-blue-700',
+  delete: 'bg-red-100 text-red-700',
+};
+
+const AuditLogPage: React.FC = () => {
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const {
+    rows: entries,
+    count,
+    loading,
+    error: fetchError,
+    page,
+    pageCount,
+    setPage,
+    sort,
+    toggleSort,
+    filterValues,
+    setFilter,
+  } = usePaginatedQuery<AuditEntry>({
+    table: 'audit_log',
+    pageSize: ROWS_PER_PAGE,
+    defaultSort: { column: 'created_at', ascending: false },
+    sortableColumns: SORTABLE_COLUMNS,
+    filters: AUDIT_FILTERS,
+  });
+  const commitUser = useCallback((value: string) => setFilter('user', value), [setFilter]);
+  const [userInput, setUserInput] = useFilterInput(filterValues.user, commitUser);
+
+  useEffect(() => {
+    if (fetchError) toast.error('Failed to fetch audit log: ' + fetchError);
+  }, [fetchError]);
+
+  return (
+    <div className="relative w-full">
+      <Toaster />
+      <h2 className="text-2xl font-bold mb-4 flex items-center gap-2">
+        Audit Log
+        <span className="inline-flex items-center justify-center min-w-[28px] h-7 px-2 rounded-full bg-blue-500 text-white text-sm font-semibold">{count}</span>
+      </h2>
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <Input
+          placeholder="Filter by user email..."
+          value={userInput}
+          onChange={e => setUserInput(e.target.value)}
+          className="w-64 bg-white"
+        />
+        <select
+          className="border rounded-md px-3 py-1 h-9 bg-white"
+          value={filterValues.table}
+          onChange={e => setFilter('table', e.target.value)}
+        >
+          <option value="">All tables</option>
+          {AUDITED_TABLES.map(t => (
+            <option key={t.value} value={t.value}>{t.label}</option>
+          ))}
+        </select>
+        <select
+          className="border rounded-md px-3 py-1 h-9 bg-white"
+          value={filterValues.action}
+          onChange={e => setFilter('action', e.target.value)}
+        >
+          <option value="">All actions</option>
+          <option value="insert">Insert</option>
+          <option value="update">Update</option>
+          <option value="delete">Delete</option>
+        </select>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          From
+          <input
+            type="date"
+            className="border rounded-md px-2 h-9 bg-white"
+            value={filterValues.from.slice(0, 10)}
+            onChange={e => setFilter('from', e.target.value)}
+          />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          To
+          <input
+            type="date"
+            className="border rounded-md px-2 h-9 bg-white"
+            value={filterValues.to.slice(0, 10)}
+            onChange={e => setFilter('to', e.target.value ? `${e.target.value}T23:59:59` : '')}
+          />
+        </label>
+      </div>
+      <div className="overflow-x-auto rounded shadow border bg-white">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead style={{ width: 32 }}></TableHead>
+              <SortableTableHead column="created_at" sort={sort} onSort={toggleSort}>When</SortableTableHead>
+              <TableHead>User</TableHead>
+              <TableHead>Action</TableHead>
+              <TableHead>Table</TableHead>
+              <TableHead>Row</TableHead>
+              <TableHead>Changed Fields</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8 text-gray-400">
+                  <Loader2 className="mx-auto animate-spin w-6 h-6" />
+                </TableCell>
+              </TableRow>
+            ) : entries.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8 text-gray-400">No changes recorded.</TableCell>
+              </TableRow>
+            ) : (
+              entries.map(entry => {
+                const fields = Object.keys(entry.changes || {});
+                const expanded = expandedId === entry.id;
+                return (
+                  <React.Fragment key={entry.id}>
+                    <TableRow className="cursor-pointer hover:bg-gray-50" onClick={() => setExpandedId(expanded ? null : entry.id)}>
+                      <TableCell>
+                        {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{new Date(entry.created_at).toLocaleString()}</TableCell>
+                      <TableCell>{entry.actor_email || <span className="text-gray-400">system</span>}</TableCell>
+                      <TableCell>
+                        <span className={`inline-block px-2 py-1 rounded text-xs font-semibold ${actionStyles[entry.action] || ''}`}>{entry.action}</span>
+                      </TableCell>
+                      <TableCell>{auditTableLabel(entry.table_name)}</TableCell>
+                      <TableCell className="font-mono text-xs">{entry.row_key}</TableCell>
+                      <TableCell className="max-w-xs truncate text-gray-600">{fields.join(', ')}</TableCell>
+                    </TableRow>
+                    {expanded && (
+                      <TableRow className="bg-gray-50">
+                        <TableCell colSpan={7} className="p-4">
+                          <table className="w-full text-sm">
+                            <thead>
+                              <tr className="text-left text-gray-500">
+                                <th className="py-1 pr-4 w-48">Field</th>
+                                <th className="py-1 pr-4">Before</th>
+                                <th className="py-1">After</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {fields.map(field => (
+                                <tr key={field} className="align-top border-t">
+                                  <td className="py-1 pr-4 font-medium">{field}</td>
+                                  <td className="py-1 pr-4 whitespace-pre-wrap break-words text-red-700">{formatAuditValue(entry.changes[field].old)}</td>
+                                  <td className="py-1 whitespace-pre-wrap break-words text-green-700">{formatAuditValue(entry.changes[field].new)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </React.Fragment>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+      {count > ROWS_PER_PAGE && (
+        <TablePagination page={page} pageCount={pageCount} onPageChange={setPage} disabled={loading} />
+      )}
+    </div>
+  );
+};
+
+export default AuditLogPage;
@@ -1,6 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from './supabaseClient';
+import { ACTIVE_REPORT_STATUSES } from './lib/reportTriage';
 import { 
   BookOpen, 
   FolderOpen, 
@@ -96,7 +97,7 @@ const DashboardHomePage: React.FC = () => {
           supabase.from('quizzes').select('*', { count: 'exact', head: true }),
           supabase.from('questions').select('*', { count: 'exact', head: true }),
           supabase.from('profiles').select('*', { count: 'exact', head: true }),
-          supabase.from('question_reports').select('*', { count: 'exact', head: true }),
+          supabase.from('question_reports').select('*', { count: 'exact', head: true }).in('status', ACTIVE_REPORT_STATUSES),
           supabase.from('user_progress').select('*', { count: 'exact', head: true })
         ]);
 
@@ -175,7 +176,7 @@ const DashboardHomePage: React.FC = () => {
     },
     {
       icon: <Flag className="w-6 h-6 text-white" />,
-      title: "Total Reports",
+      title: "Open Reports",
       value: formatNumber(stats.reports),
       description: "View Question Reports",
       onClick: () => navigate('/question-reports'),
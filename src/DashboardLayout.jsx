@@ -8,18 +8,35 @@ import {
   Settings,
   Menu as MenuIcon,
   LogOut as LogoutIcon,
-  BookText
+  BookText,
+  Search,
+  Copy,
+  History,
+  CalendarDays,
+  Languages,
+  Sparkles,
+  Trash2,
+  Images
 } from 'lucide-react'
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet'
 import { Button } from '@/components/ui/button'
 import { useAuth } from './hooks/useAuth'
+import { ROLE_LABELS } from './lib/permissions'
 
 const navLinks = [
   { to: '/dashboard', label: 'Dashboard', icon: <LayoutDashboard size={20} /> },
   { to: '/exam-books', label: 'Exam Books', icon: <BookOpen size={20} />, match: ['/exam-books', '/sections', '/categories', '/quizzes', '/questions'] },
   { to: '/gk-subjects', label: 'GK Subjects', icon: <BookText size={20} />, match: ['/gk-subjects', '/gk-topics', '/gk-questions'] },
+  { to: '/search', label: 'Search', icon: <Search size={20} /> },
+  { to: '/duplicates', label: 'Duplicates', icon: <Copy size={20} />, permission: 'content.edit' },
+  { to: '/translations', label: 'Translations', icon: <Languages size={20} /> },
+  { to: '/translation-review', label: 'Translation Review', icon: <Sparkles size={20} /> },
+  { to: '/schedule', label: 'Schedule', icon: <CalendarDays size={20} /> },
+  { to: '/media', label: 'Media Library', icon: <Images size={20} />, permission: 'content.view' },
   { to: '/question-reports', label: 'Question Reports', icon: <HelpCircle size={20} /> },
-  { to: '/users', label: 'Users', icon: <Users size={20} /> },
+  { to: '/audit-log', label: 'Audit Log', icon: <History size={20} />, permission: 'audit.view' },
+  { to: '/recycle-bin', label: 'Recycle Bin', icon: <Trash2 size={20} />, permission: 'content.delete' },
+  { to: '/users', label: 'Users', icon: <Users size={20} />, permission: 'users.view' },
   { to: '/settings', label: 'Settings', icon: <Settings size={20} /> },
 ]
 
@@ -51,7 +68,7 @@ export default function DashboardLayout() {
       </div>
       {/* Nav Links */}
       <div className="flex-1 space-y-1">
-        {navLinks.map(link => {
+        {navLinks.filter(link => !link.permission || auth.can(link.permission)).map(link => {
           // Custom active logic for sections with sub-routes
           let isActive = false;
           if (link.label === 'Exam Books' || link.label === 'GK Subjects') {
@@ -86,7 +103,7 @@ export default function DashboardLayout() {
             {auth.user?.email?.charAt(0).toUpperCase() || 'A'}
           </div>
           <div className="flex flex-col">
-            <span className="text-sm font-semibold text-blue-900">Admin</span>
+            <span className="text-sm font-semibold text-blue-900">{ROLE_LABELS[auth.role] || 'Admin'}</span>
             <span className="text-xs text-gray-500">{auth.user?.email || 'admin@gkapp.com'}</span>
           </div>
         </div>
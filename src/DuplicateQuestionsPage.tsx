@@ -0,0 +1,234 @@
+import { useEffect, useState } from 'react';
+import { supabase } from './supabaseClient';
+import toast, { Toaster } from 'react-hot-toast';
+import { useSearchParams } from 'react-router-dom';
+import { Loader2, Merge, ScanSearch, Trash2 } from 'lucide-react';
+import { Button } from './components/ui/button';
+import Breadcrumb from './atoms/Breadcrumb';
+import DeleteConfirmDialog from './atoms/DeleteConfirmDialog';
+import MathMarkdown from './atoms/MathMarkdown';
+import MathText from './atoms/MathText';
+import { useAuth } from './hooks/useAuth';
+import { fetchQuizBreadcrumbs, type BreadcrumbPart } from './lib/breadcrumbs';
+import { fetchBookQuestions, mergeDuplicateQuestions } from './lib/duplicates';
+import { clusterDuplicates, DUPLICATE_THRESHOLD, type DuplicateCluster } from './lib/questionSimilarity';
+import { softDelete } from './lib/recycleBin';
+import type { Question } from './QuestionsPage';
+
+type BookOption = { book_id: string; title: string };
+
+type PendingAction =
+  | { type: 'merge'; cluster: number }
+  | { type: 'delete'; questionId: string };
+
+const optionKeys = [
+  ['a', 'optionA'],
+  ['b', 'optionB'],
+  ['c', 'optionC'],
+  ['d', 'optionD'],
+] as const;
+
+export default function DuplicateQuestionsPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { can } = useAuth();
+  const bookRef = searchParams.get('book') || '';
+  const [books, setBooks] = useState<BookOption[]>([]);
+  const [threshold, setThreshold] = useState(DUPLICATE_THRESHOLD);
+  const [scanning, setScanning] = useState(false);
+  const [scanned, setScanned] = useState(0);
+  const [clusters, setClusters] = useState<DuplicateCluster<Question>[] | null>(null);
+  const [keepIds, setKeepIds] = useState<Record<number, string>>({});
+  const [breadcrumbs, setBreadcrumbs] = useState<Record<string, BreadcrumbPart[]>>({});
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+
+  // --- Fetch books ---
+  useEffect(() => {
+    supabase
+      .from('exam_book')
+      .select('book_id, title')
+      .order('order')
+      .then(({ data, error }) => {
+        if (error) toast.error('Failed to load books: ' + error.message);
+        else setBooks((data as BookOption[]) || []);
+      });
+  }, []);
+
+  // A new book invalidates the previous scan
+  useEffect(() => {
+    setClusters(null);
+    setKeepIds({});
+  }, [bookRef]);
+
+  // --- Scan ---
+  const handleScan = async () => {
+    if (!bookRef) return;
+    setScanning(true);
+    try {
+      const questions = await fetchBookQuestions(bookRef);
+      const found = clusterDuplicates(questions, threshold);
+      setScanned(questions.length);
+      setClusters(found);
+      // Default to keeping the oldest question of each cluster
+      setKeepIds(Object.fromEntries(found.map((c, i) => [i, c.questions[0].questionId])));
+      setBreadcrumbs(await fetchQuizBreadcrumbs(found.flatMap(c => c.questions.map(q => q.quizId))));
+    } catch (error) {
+      toast.error('Scan failed: ' + (error as Error).message);
+    }
+    setScanning(false);
+  };
+
+  // Drop removed questions from the on-screen clusters without rescanning the book
+  const removeFromClusters = (questionIds: string[]) => {
+    setClusters(prev => (prev || [])
+      .map(c => ({ ...c, questions: c.questions.filter(q => !questionIds.includes(q.questionId)) }))
+      .filter(c => c.questions.length > 1));
+    setKeepIds({});
+  };
+
+  // --- Merge / Delete ---
+  const handleConfirm = async () => {
+    if (!pending || !clusters) return;
+    setActionLoading(true);
+    try {
+      if (pending.type === 'merge') {
+        const cluster = clusters[pending.cluster];
+        const keepId = keepIds[pending.cluster] || cluster.questions[0].questionId;
+        const removeIds = cluster.questions.map(q => q.questionId).filter(id => id !== keepId);
+        await mergeDuplicateQuestions(keepId, removeIds);
+        toast.success(`Merged ${removeIds.length} duplicate${removeIds.length === 1 ? '' : 's'}`);
+        removeFromClusters(removeIds);
+      } else {
+        await softDelete('questions', [pending.questionId]);
+        toast.success('Question moved to the Recycle Bin');
+        removeFromClusters([pending.questionId]);
+      }
+    } catch (error) {
+      toast.error((pending.type === 'merge' ? 'Merge failed: ' : 'Delete failed: ') + (error as Error).message);
+    }
+    setActionLoading(false);
+    setPending(null);
+  };
+
+  const keepIdFor = (index: number) => keepIds[index] || clusters?.[index]?.questions[0].questionId;
+
+  return (
+    <div className="relative w-full">
+      <Toaster />
+      <h2 className="text-2xl font-bold mb-4">Duplicate Questions</h2>
+      <div className="flex flex-wrap items-center gap-3 mb-6">
+        <select
+          className="border rounded-md px-3 py-1 h-9 bg-white"
+          value={bookRef}
+          onChange={e => setSearchParams(e.target.value ? { book: e.target.value } : {}, { replace: true })}
+          disabled={scanning}
+        >
+          <option value="">Select a book…</option>
+          {books.map(b => (
+            <option key={b.book_id} value={b.book_id}>{b.title}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          Similarity
+          <input
+            type="range"
+            min={0.6}
+            max={1}
+            step={0.05}
+            value={threshold}
+            onChange={e => setThreshold(parseFloat(e.target.value))}
+            disabled={scanning}
+          />
+          <span className="font-mono w-10">{Math.round(threshold * 100)}%</span>
+        </label>
+        <Button onClick={handleScan} disabled={!bookRef || scanning}>
+          {scanning ? <Loader2 className="w-4 h-4 animate-spin" /> : <ScanSearch className="w-4 h-4" />}
+          Scan
+        </Button>
+      </div>
+
+      {scanning ? (
+        <div className="flex items-center justify-center py-12 text-gray-400">
+          <Loader2 className="w-6 h-6 animate-spin" />
+        </div>
+      ) : clusters === null ? (
+        <div className="text-center py-12 text-gray-400">Pick a book and scan it to find questions that were added more than once.</div>
+      ) : clusters.length === 0 ? (
+        <div className="text-center py-12 text-gray-400">No duplicates found among {scanned} questions.</div>
+      ) : (
+        <div className="space-y-4">
+          <div className="text-sm text-gray-500">
+            {clusters.length} group{clusters.length === 1 ? '' : 's'} of likely duplicates among {scanned} questions.
+            Choose the question to keep in each group, then merge to delete the rest and move their reports to it.
+          </div>
+          {clusters.map((cluster, index) => (
+            <div key={cluster.questions[0].questionId} className="rounded-lg border bg-white shadow-sm">
+              <div className="flex items-center justify-between px-4 py-2 border-b bg-gray-50 rounded-t-lg">
+                <span className="text-sm font-semibold text-gray-700">
+                  {cluster.questions.length} questions · {Math.round(cluster.score * 100)}% similar
+                </span>
+                {can('content.delete') && (
+                  <Button size="sm" onClick={() => setPending({ type: 'merge', cluster: index })}>
+                    <Merge className="w-4 h-4" /> Merge
+                  </Button>
+                )}
+              </div>
+              <div className="divide-y">
+                {cluster.questions.map(q => (
+                  <div key={q.questionId} className="flex items-start gap-3 p-4">
+                    <input
+                      type="radio"
+                      name={`keep-${index}`}
+                      className="mt-1 w-4 h-4 cursor-pointer"
+                      checked={keepIdFor(index) === q.questionId}
+                      onChange={() => setKeepIds(prev => ({ ...prev, [index]: q.questionId }))}
+                      title="Keep this question"
+                    />
+                    <div className="flex-1 min-w-0 space-y-2">
+                      {breadcrumbs[q.quizId] && <Breadcrumb parts={breadcrumbs[q.quizId]} />}
+                      <div className="prose max-w-none"><MathMarkdown>{q.questionText || ''}</MathMarkdown></div>
+                      <div className="flex flex-wrap gap-2 text-sm">
+                        {optionKeys.filter(([, key]) => q[key]).map(([letter, key]) => (
+                          <span
+                            key={letter}
+                            className={`px-2 py-1 rounded ${q.correctAnswer === letter ? 'bg-green-100 text-green-700 font-semibold' : 'bg-gray-100 text-gray-700'}`}
+                          >
+                            ({letter}) <MathText text={q[key] || ''} />
+                          </span>
+                        ))}
+                      </div>
+                      <div className="text-xs text-gray-400">
+                        Added {new Date(q.created_at).toLocaleDateString()} · Language: {q.languageCode}
+                      </div>
+                    </div>
+                    {can('content.delete') && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-red-500 hover:text-red-700"
+                        onClick={() => setPending({ type: 'delete', questionId: q.questionId })}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <DeleteConfirmDialog
+        open={!!pending}
+        onOpenChange={open => { if (!open) setPending(null); }}
+        onConfirm={handleConfirm}
+        loading={actionLoading}
+        title={pending?.type === 'merge' ? 'Merge Duplicates' : 'Delete Question'}
+        description={pending?.type === 'merge'
+          ? 'All other questions in this group will be deleted and their player reports moved to the question you chose to keep. The removed questions can be restored from the Recycle Bin.'
+          : 'Are you sure you want to delete this question? It can be restored from the Recycle Bin for 30 days.'}
+      />
+    </div>
+  );
+}
@@ -5,7 +5,13 @@ import { zodResolver } from '@hookform/resolvers/zod'
 import { supabase } from './supabaseClient'
 import toast, { Toaster } from 'react-hot-toast'
 import { useNavigate } from 'react-router-dom'
-import CategoryAlertDialog from './atoms/CategoryAlertDialog'
+import CascadeDeleteDialog from './molecules/CascadeDeleteDialog'
+import CloneDialog from './molecules/CloneDialog'
+import RecalculateCountersDialog from './molecules/RecalculateCountersDialog'
+import MediaUploader from './molecules/MediaUploader'
+import { useAuth } from './hooks/useAuth'
+import type { CloneSource } from './lib/cloneTree'
+import type { CascadeSource } from './lib/cascadeDelete'
 
 // Type for a row in the exam_book table
 export type ExamBook = {
@@ -15,6 +21,7 @@ export type ExamBook = {
   subtitle: string
   icon: string // URL to image
   order: number
+  // Maintained by the database from the book's categories; not editable
   total_category_hi: number
   total_category_en: number
   status: boolean // true=public, false=draft
@@ -26,8 +33,6 @@ const examBookSchema = z.object({
   subtitle: z.string().min(1, 'Subtitle is required'),
   icon: z.string().url('Icon must be a valid URL'),
   order: z.coerce.number().int().min(0),
-  total_category_hi: z.coerce.number().int().min(0),
-  total_category_en: z.coerce.number().int().min(0),
   status: z.boolean(),
 })
 type ExamBookForm = z.infer<typeof examBookSchema>
@@ -35,21 +40,23 @@ type ExamBookForm = z.infer<typeof examBookSchema>
 const ROWS_PER_PAGE = 5
 
 export default function ExamBooksPage() {
+  const { can } = useAuth()
   const [books, setBooks] = useState<ExamBook[]>([])
   const [loading, setLoading] = useState(false)
   const [open, setOpen] = useState(false)
   const [editId, setEditId] = useState<number | null>(null)
-  const [deleteId, setDeleteId] = useState<number | null>(null)
-  const [deleteLoading, setDeleteLoading] = useState(false)
+  const [deleteSource, setDeleteSource] = useState<CascadeSource | null>(null)
   const [page, setPage] = useState(1)
-  const [showCategoryAlert, setShowCategoryAlert] = useState(false)
-  const [categoryAlertData, setCategoryAlertData] = useState<{ hi: number; en: number; title: string } | null>(null)
+  const [cloneSource, setCloneSource] = useState<CloneSource | null>(null)
+  const [countersOpen, setCountersOpen] = useState(false)
   const navigate = useNavigate();
 
   const {
     register,
     handleSubmit,
     reset,
+    setValue,
+    watch,
     formState: { errors },
   } = useForm<ExamBookForm>({
     resolver: zodResolver(examBookSchema),
@@ -101,63 +108,6 @@ export default function ExamBooksPage() {
     setOpen(true)
   }
 
-  // Delete handler
-  const handleDelete = async () => {
-    if (deleteId == null) return
-    
-    // Find the book to get its data
-    const bookToDelete = books.find(book => book.id === deleteId)
-    if (!bookToDelete) {
-      toast.error('Book not found')
-      setDeleteId(null)
-      return
-    }
-
-    // Check if the book has any categories
-    console.log('Book to delete:', bookToDelete)
-    console.log('Total category HI:', bookToDelete.total_category_hi)
-    console.log('Total category EN:', bookToDelete.total_category_en)
-    
-    if (bookToDelete.total_category_hi > 0 || bookToDelete.total_category_en > 0) {
-      console.log('Preventing deletion - categories exist')
-      // Show custom alert dialog
-      setCategoryAlertData({
-        hi: bookToDelete.total_category_hi,
-        en: bookToDelete.total_category_en,
-        title: bookToDelete.title
-      })
-      setShowCategoryAlert(true)
-      setDeleteId(null)
-      return
-    }
-    
-    console.log('Proceeding with deletion - no categories found')
-
-    setDeleteLoading(true)
-    
-    try {
-      // Proceed with deletion since no categories exist
-      const { error } = await supabase.from('exam_book').delete().eq('id', deleteId)
-      if (error) {
-        console.error('Delete error details:', error)
-        console.error('Error code:', error.code)
-        console.error('Error message:', error.message)
-        console.error('Error details:', error.details)
-        console.error('Error hint:', error.hint)
-        toast.error(`Delete failed: ${error.message}`)
-      } else {
-        toast.success('Book deleted')
-        fetchBooks()
-      }
-    } catch (error) {
-      console.error('Unexpected error during deletion:', error)
-      toast.error('An unexpected error occurred')
-    }
-    
-    setDeleteLoading(false)
-    setDeleteId(null)
-  }
-
   // Modal close handler
   const handleClose = () => {
     setOpen(false)
@@ -174,24 +124,32 @@ export default function ExamBooksPage() {
       <Toaster />
       <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-8">
         <h1 className="text-2xl md:text-3xl font-bold text-blue-900 tracking-tight">Exam Books</h1>
-        <button
-          className="px-6 py-2 bg-gradient-to-r from-blue-500 to-blue-600 text-white rounded-xl shadow-lg font-semibold hover:from-blue-600 hover:to-blue-700 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2"
-          onClick={() => {
-            setEditId(null);
-            reset({
-              title: '',
-              subtitle: '',
-              icon: '',
-              order: 0,
-              total_category_hi: 0,
-              total_category_en: 0,
-              status: true, // default to public
-            });
-            setOpen(true);
-          }}
-        >
-          + Add Book
-        </button>
+        {can('content.edit') && (
+          <div className="flex gap-2">
+            <button
+              className="px-4 py-2 bg-white text-blue-700 border border-blue-300 rounded-xl shadow font-semibold hover:bg-blue-50 transition"
+              onClick={() => setCountersOpen(true)}
+            >
+              Recalculate Counters
+            </button>
+            <button
+              className="px-6 py-2 bg-gradient-to-r from-blue-500 to-blue-600 text-white rounded-xl shadow-lg font-semibold hover:from-blue-600 hover:to-blue-700 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2"
+              onClick={() => {
+                setEditId(null);
+                reset({
+                  title: '',
+                  subtitle: '',
+                  icon: '',
+                  order: 0,
+                  status: true, // default to public
+                });
+                setOpen(true);
+              }}
+            >
+              + Add Book
+            </button>
+          </div>
+        )}
       </div>
       {/* Modal */}
       {open && (
@@ -218,26 +176,19 @@ export default function ExamBooksPage() {
                 {errors.subtitle && <p className="text-red-500 text-xs mt-1">{errors.subtitle.message}</p>}
               </div>
               <div>
-                <label className="block mb-1 font-medium text-gray-700">Icon URL</label>
-                <input className="w-full border-2 rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-400 transition" {...register('icon')} />
+                <label className="block mb-1 font-medium text-gray-700">Icon</label>
+                <MediaUploader
+                  value={watch('icon') || ''}
+                  onChange={url => setValue('icon', url, { shouldValidate: true })}
+                  folder="books"
+                  disabled={loading}
+                />
                 {errors.icon && <p className="text-red-500 text-xs mt-1">{errors.icon.message}</p>}
               </div>
-              <div className="flex gap-4">
-                <div className="flex-1">
-                  <label className="block mb-1 font-medium text-gray-700">Order</label>
-                  <input type="number" className="w-full border-2 rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-400 transition" {...register('order')} />
-                  {errors.order && <p className="text-red-500 text-xs mt-1">{errors.order.message}</p>}
-                </div>
-                <div className="flex-1">
-                  <label className="block mb-1 font-medium text-gray-700">Total Cat (HI)</label>
-                  <input type="number" className="w-full border-2 rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-400 transition" {...register('total_category_hi')} />
-                  {errors.total_category_hi && <p className="text-red-500 text-xs mt-1">{errors.total_category_hi.message}</p>}
-                </div>
-                <div className="flex-1">
-                  <label className="block mb-1 font-medium text-gray-700">Total Cat (EN)</label>
-                  <input type="number" className="w-full border-2 rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-400 transition" {...register('total_category_en')} />
-                  {errors.total_category_en && <p className="text-red-500 text-xs mt-1">{errors.total_category_en.message}</p>}
-                </div>
+              <div>
+                <label className="block mb-1 font-medium text-gray-700">Order</label>
+                <input type="number" className="w-full border-2 rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-400 transition" {...register('order')} />
+                {errors.order && <p className="text-red-500 text-xs mt-1">{errors.order.message}</p>}
               </div>
               <div>
                 <label className="block mb-1 font-medium text-gray-700">Status</label>
@@ -276,42 +227,6 @@ export default function ExamBooksPage() {
           `}</style>
         </div>
       )}
-      {/* Delete Confirmation Dialog */}
-      {deleteId !== null && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
-          <div className="bg-white rounded-2xl shadow-2xl p-8 w-full max-w-sm relative animate-fade-in">
-            <h2 className="text-xl font-bold mb-4 text-red-600">Confirm Delete</h2>
-            <p className="mb-6 text-gray-700">Are you sure you want to delete this book? This action cannot be undone.</p>
-            <div className="flex gap-2 justify-end">
-              <button
-                className="px-4 py-2 bg-gray-200 rounded-lg hover:bg-gray-300 font-semibold"
-                onClick={() => setDeleteId(null)}
-                disabled={deleteLoading}
-              >
-                Cancel
-              </button>
-              <button
-                className="px-6 py-2 bg-gradient-to-r from-red-500 to-pink-500 text-white rounded-lg font-semibold shadow hover:from-red-600 hover:to-pink-600 transition-all duration-200"
-                onClick={handleDelete}
-                disabled={deleteLoading}
-              >
-                {deleteLoading ? 'Deleting...' : 'Delete'}
-              </button>
-            </div>
-          </div>
-          <style>{`
-            .animate-fade-in { animation: fadeIn 0.5s cubic-bezier(.4,0,.2,1) both; }
-            @keyframes fadeIn { from { opacity: 0; transform: translateY(30px); } to { opacity: 1; transform: none; } }
-          `}</style>
-        </div>
-      )}
-
-      {/* Category Alert Dialog */}
-      <CategoryAlertDialog
-        isOpen={showCategoryAlert}
-        onClose={() => setShowCategoryAlert(false)}
-        data={categoryAlertData}
-      />
       {/* Responsive Table with Pagination */}
       <div className="overflow-x-auto rounded-2xl shadow-lg bg-white">
         <table className="min-w-full text-sm text-left text-gray-800">
@@ -354,18 +269,30 @@ export default function ExamBooksPage() {
                   )}
                 </td>
                 <td className="px-4 py-3 flex gap-2">
-                  <button
-                    className="px-3 py-1 bg-yellow-400 text-white rounded-lg font-semibold shadow hover:bg-yellow-500 transition"
-                    onClick={e => { e.stopPropagation(); handleEdit(book); }}
-                  >
-                    Edit
-                  </button>
-                  <button
-                    className="px-3 py-1 bg-red-600 text-white rounded-lg font-semibold shadow hover:bg-red-700 transition"
-                    onClick={e => { e.stopPropagation(); setDeleteId(book.id); }}
-                  >
-                    Delete
-                  </button>
+                  {can('content.edit') && (
+                    <button
+                      className="px-3 py-1 bg-yellow-400 text-white rounded-lg font-semibold shadow hover:bg-yellow-500 transition"
+                      onClick={e => { e.stopPropagation(); handleEdit(book); }}
+                    >
+                      Edit
+                    </button>
+                  )}
+                  {can('content.edit') && (
+                    <button
+                      className="px-3 py-1 bg-blue-600 text-white rounded-lg font-semibold shadow hover:bg-blue-700 transition"
+                      onClick={e => { e.stopPropagation(); setCloneSource({ level: 'book', key: book.book_id, title: book.title }); }}
+                    >
+                      Clone
+                    </button>
+                  )}
+                  {can('content.delete') && (
+                    <button
+                      className="px-3 py-1 bg-red-600 text-white rounded-lg font-semibold shadow hover:bg-red-700 transition"
+                      onClick={e => { e.stopPropagation(); setDeleteSource({ level: 'book', key: book.book_id, title: book.title }); }}
+                    >
+                      Delete
+                    </button>
+                  )}
                 </td>
               </tr>
             ))}
@@ -399,6 +326,24 @@ export default function ExamBooksPage() {
           </button>
         </div>
       )}
+
+      <RecalculateCountersDialog
+        open={countersOpen}
+        onOpenChange={setCountersOpen}
+        onFixed={fetchBooks}
+      />
+
+      <CloneDialog
+        source={cloneSource}
+        onOpenChange={open => { if (!open) setCloneSource(null) }}
+        onCloned={fetchBooks}
+      />
+
+      <CascadeDeleteDialog
+        source={deleteSource}
+        onOpenChange={open => { if (!open) setDeleteSource(null) }}
+        onDeleted={fetchBooks}
+      />
     </div>
   )
 } 
\ No newline at end of file
@@ -14,8 +14,10 @@ import {
 import { Button } from './components/ui/button';
 import { Loader2, Plus, Edit, Trash2 } from 'lucide-react';
 import DeleteConfirmDialog from './atoms/DeleteConfirmDialog';
+import MathMarkdown from './atoms/MathMarkdown';
+import { useAuth } from './hooks/useAuth';
+import { softDelete } from './lib/recycleBin';
 import { useParams, useLocation } from 'react-router-dom';
-import ReactMarkdown from 'react-markdown';
 
 // Types
 export type GKOneLinerQuestion = {
@@ -29,6 +31,7 @@ export type GKOneLinerQuestion = {
 // REMOVE: interface GKOneLinerQuestionsPageProps { topicId: string; languageCode: string; }
 
 export default function GKOneLinerQuestionsPage() {
+  const { can } = useAuth();
   // Get params from router
   const { topicId } = useParams();
   const query = new URLSearchParams(useLocation().search);
@@ -150,16 +153,12 @@ export default function GKOneLinerQuestionsPage() {
   const handleDelete = async () => {
     if (!deleteId) return;
     setDeleteLoading(true);
-    const { error } = await supabase
-      .from('gk_oneliner_questions')
-      .delete()
-      .eq('id', deleteId);
-    
-    if (error) {
-      toast.error('Delete failed: ' + error.message);
-    } else {
-      toast.success('Question deleted');
+    try {
+      await softDelete('gk_oneliner_questions', [deleteId]);
+      toast.success('Question moved to the Recycle Bin');
       fetchQuestions();
+    } catch (error) {
+      toast.error('Delete failed: ' + (error as Error).message);
     }
     setDeleteLoading(false);
     setDeleteId(null);
@@ -188,7 +187,7 @@ export default function GKOneLinerQuestionsPage() {
         </div>
         <Dialog open={open} onOpenChange={setOpen}>
           <DialogTrigger asChild>
-            <Button onClick={handleAdd} className="px-6 py-2 font-semibold">
+            <Button onClick={handleAdd} disabled={!can('content.edit')} className="px-6 py-2 font-semibold">
               <Plus className="w-4 h-4" />
               Add Question
             </Button>
@@ -250,7 +249,7 @@ export default function GKOneLinerQuestionsPage() {
               <div className="space-y-3">
                 <div>
                   <h3 className="font-semibold text-gray-900 mb-2">
-                    Q. <ReactMarkdown>{question.question}</ReactMarkdown>
+                    Q. <MathMarkdown>{question.question}</MathMarkdown>
                   </h3>
                   <p className="text-gray-700">
                     {/* Removed answer display since answer field is deleted */}
@@ -261,23 +260,27 @@ export default function GKOneLinerQuestionsPage() {
                 </div>
               </div>
               <div className="flex items-center gap-2 pt-2 border-t">
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => handleEdit(question)}
-                  className="flex-1"
-                >
-                  <Edit className="w-4 h-4 mr-2" />
-                  Edit
-                </Button>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => setDeleteId(question.id)}
-                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                >
-                  <Trash2 className="w-4 h-4" />
-                </Button>
+                {can('content.edit') && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleEdit(question)}
+                    className="flex-1"
+                  >
+                    <Edit className="w-4 h-4 mr-2" />
+                    Edit
+                  </Button>
+                )}
+                {can('content.delete') && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDeleteId(question.id)}
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
               </div>
             </div>
           ))}
@@ -291,7 +294,7 @@ export default function GKOneLinerQuestionsPage() {
         onConfirm={handleDelete}
         loading={deleteLoading}
         title="Delete Question"
-        description="Are you sure you want to delete this question? This action cannot be undone."
+        description="Are you sure you want to delete this question? It can be restored from the Recycle Bin for 30 days."
       />
     </div>
   );
@@ -19,6 +19,8 @@ import { Input } from './components/ui/input';
 import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from './components/ui/table';
 import { Loader2, Plus, Edit, Trash2, ArrowRight } from 'lucide-react';
 import DeleteConfirmDialog from './atoms/DeleteConfirmDialog';
+import { useAuth } from './hooks/useAuth';
+import { softDelete } from './lib/recycleBin';
 import { useParams, useLocation } from 'react-router-dom';
 
 // Types
@@ -41,6 +43,7 @@ interface GKSubjectsPageProps {
 }
 
 export default function GKSubjectsPage({ languageCode }: GKSubjectsPageProps) {
+  const { can } = useAuth();
   const navigate = useNavigate();
   // ✅ If you need params or location, put them here:
   // const { topicId } = useParams();
@@ -140,16 +143,12 @@ export default function GKSubjectsPage({ languageCode }: GKSubjectsPageProps) {
   const handleDelete = async () => {
     if (!deleteId) return;
     setDeleteLoading(true);
-    const { error } = await supabase
-      .from('gk_subjects')
-      .delete()
-      .eq('id', deleteId);
-    
-    if (error) {
-      toast.error('Delete failed: ' + error.message);
-    } else {
-      toast.success('Subject deleted');
+    try {
+      await softDelete('gk_subjects', [deleteId]);
+      toast.success('Subject moved to the Recycle Bin');
       fetchSubjects();
+    } catch (error) {
+      toast.error('Delete failed: ' + (error as Error).message);
     }
     setDeleteLoading(false);
     setDeleteId(null);
@@ -187,7 +186,7 @@ export default function GKSubjectsPage({ languageCode }: GKSubjectsPageProps) {
         <h2 className="text-2xl font-bold text-center flex-1">GK Subjects</h2>
         <Dialog open={open} onOpenChange={setOpen}>
           <DialogTrigger asChild>
-            <Button onClick={handleAdd} className="px-6 py-2 font-semibold bg-blue-600 hover:bg-blue-700 text-white transition flex items-center gap-2">
+            <Button onClick={handleAdd} disabled={!can('content.edit')} className="px-6 py-2 font-semibold bg-blue-600 hover:bg-blue-700 text-white transition flex items-center gap-2">
               <Plus className="w-4 h-4" />
               Add Subject
             </Button>
@@ -274,24 +273,28 @@ export default function GKSubjectsPage({ languageCode }: GKSubjectsPageProps) {
                   <TableCell>{formatDate(subject.created_at)}</TableCell>
                   <TableCell>
                     <div className="flex items-center gap-2 justify-center">
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={e => { e.stopPropagation(); handleEdit(subject); }}
-                        className="hover:bg-yellow-50 text-yellow-600 hover:text-yellow-700 transition"
-                        title="Edit"
-                      >
-                        <Edit className="w-4 h-4" />
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={e => { e.stopPropagation(); setDeleteId(subject.id); }}
-                        className="hover:bg-red-50 text-red-600 hover:text-red-700 transition"
-                        title="Delete"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
+                      {can('content.edit') && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={e => { e.stopPropagation(); handleEdit(subject); }}
+                          className="hover:bg-yellow-50 text-yellow-600 hover:text-yellow-700 transition"
+                          title="Edit"
+                        >
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                      )}
+                      {can('content.delete') && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={e => { e.stopPropagation(); setDeleteId(subject.id); }}
+                          className="hover:bg-red-50 text-red-600 hover:text-red-700 transition"
+                          title="Delete"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
                     </div>
                   </TableCell>
                 </TableRow>
@@ -307,7 +310,7 @@ export default function GKSubjectsPage({ languageCode }: GKSubjectsPageProps) {
         onConfirm={handleDelete}
         loading={deleteLoading}
         title="Delete Subject"
-        description="Are you sure you want to delete this subject? This action cannot be undone."
+        description="Are you sure you want to delete this subject and all of its topics and questions? It can be restored from the Recycle Bin for 30 days."
       />
     </div>
   );
@@ -19,6 +19,8 @@ import { Input } from './components/ui/input';
 import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from './components/ui/table';
 import { Loader2, Plus, Edit, Trash2, ArrowRight } from 'lucide-react';
 import DeleteConfirmDialog from './atoms/DeleteConfirmDialog';
+import { useAuth } from './hooks/useAuth';
+import { softDelete } from './lib/recycleBin';
 
 // Types
 export type GKTopic = {
@@ -41,6 +43,7 @@ interface GKTopicsPageProps {
 }
 
 export default function GKTopicsPage({ subjectId, languageCode }: GKTopicsPageProps) {
+  const { can } = useAuth();
   const [topics, setTopics] = useState<GKTopic[]>([]);
   const [loading, setLoading] = useState(false);
   const [formLoading, setFormLoading] = useState(false);
@@ -140,16 +143,12 @@ export default function GKTopicsPage({ subjectId, languageCode }: GKTopicsPagePr
   const handleDelete = async () => {
     if (!deleteId) return;
     setDeleteLoading(true);
-    const { error } = await supabase
-      .from('gk_topics')
-      .delete()
-      .eq('id', deleteId);
-    
-    if (error) {
-      toast.error('Delete failed: ' + error.message);
-    } else {
-      toast.success('Topic deleted');
+    try {
+      await softDelete('gk_topics', [deleteId]);
+      toast.success('Topic moved to the Recycle Bin');
       fetchTopics();
+    } catch (error) {
+      toast.error('Delete failed: ' + (error as Error).message);
     }
     setDeleteLoading(false);
     setDeleteId(null);
@@ -175,7 +174,7 @@ export default function GKTopicsPage({ subjectId, languageCode }: GKTopicsPagePr
         </div>
         <Dialog open={open} onOpenChange={setOpen}>
           <DialogTrigger asChild>
-            <Button onClick={handleAdd} className="px-6 py-2 font-semibold">
+            <Button onClick={handleAdd} disabled={!can('content.edit')} className="px-6 py-2 font-semibold">
               <Plus className="w-4 h-4" />
               Add Topic
             </Button>
@@ -249,22 +248,26 @@ export default function GKTopicsPage({ subjectId, languageCode }: GKTopicsPagePr
                   <TableCell>{formatDate(topic.created_at)}</TableCell>
                   <TableCell>
                     <div className="flex items-center gap-2">
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={e => { e.stopPropagation(); handleEdit(topic); }}
-                        title="Edit"
-                      >
-                        <Edit className="w-4 h-4" />
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={e => { e.stopPropagation(); setDeleteId(topic.id); }}
-                        title="Delete"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
+                      {can('content.edit') && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={e => { e.stopPropagation(); handleEdit(topic); }}
+                          title="Edit"
+                        >
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                      )}
+                      {can('content.delete') && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={e => { e.stopPropagation(); setDeleteId(topic.id); }}
+                          title="Delete"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
                       <Button
                         variant="ghost"
                         size="sm"
@@ -289,7 +292,7 @@ export default function GKTopicsPage({ subjectId, languageCode }: GKTopicsPagePr
         onConfirm={handleDelete}
         loading={deleteLoading}
         title="Delete Topic"
-        description="Are you sure you want to delete this topic? This action cannot be undone."
+        description="Are you sure you want to delete this topic and all of its questions? It can be restored from the Recycle Bin for 30 days."
       />
     </div>
   );
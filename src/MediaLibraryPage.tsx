@@ -0,0 +1,227 @@
+import React, { useEffect, useState } from 'react';
+import toast, { Toaster } from 'react-hot-toast';
+import { Copy, Loader2, Trash2 } from 'lucide-react';
+import { Button } from './components/ui/button';
+import { Input } from './components/ui/input';
+import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from './components/ui/table';
+import DeleteConfirmDialog from './atoms/DeleteConfirmDialog';
+import TablePagination from './atoms/TablePagination';
+import { useAuth } from './hooks/useAuth';
+import {
+  MEDIA_REFERENCE_LABELS,
+  UNUSED_GRACE_HOURS,
+  deleteMediaAssets,
+  fetchMediaAssets,
+  fetchUnusedMediaPaths,
+  formatBytes,
+  mediaUrl,
+  type MediaAsset,
+} from './lib/mediaLibrary';
+
+const ROWS_PER_PAGE = 20;
+
+const MediaLibraryPage: React.FC = () => {
+  const { can } = useAuth();
+  const [assets, setAssets] = useState<MediaAsset[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState('');
+  const [unusedOnly, setUnusedOnly] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [deleteAsset, setDeleteAsset] = useState<MediaAsset | null>(null);
+  const [cleanupPaths, setCleanupPaths] = useState<string[] | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  const fetchAssets = async () => {
+    setLoading(true);
+    try {
+      const result = await fetchMediaAssets({
+        search,
+        unusedOnly,
+        limit: ROWS_PER_PAGE,
+        offset: (page - 1) * ROWS_PER_PAGE,
+      });
+      setAssets(result.assets);
+      setTotal(result.total);
+    } catch (error) {
+      toast.error('Failed to load media: ' + (error as Error).message);
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    const timer = setTimeout(fetchAssets, 300);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line
+  }, [search, unusedOnly, page]);
+
+  const handleCopy = async (asset: MediaAsset) => {
+    await navigator.clipboard.writeText(mediaUrl(asset.path));
+    toast.success('URL copied');
+  };
+
+  const handleFindUnused = async () => {
+    try {
+      const paths = await fetchUnusedMediaPaths();
+      if (paths.length === 0) {
+        toast.success('There are no unused images to clean up');
+      } else {
+        setCleanupPaths(paths);
+      }
+    } catch (error) {
+      toast.error('Failed to find unused images: ' + (error as Error).message);
+    }
+  };
+
+  const handleDelete = async (paths: string[]) => {
+    setDeleting(true);
+    try {
+      await deleteMediaAssets(paths);
+      toast.success(`Deleted ${paths.length} image${paths.length === 1 ? '' : 's'}`);
+      fetchAssets();
+    } catch (error) {
+      toast.error('Delete failed: ' + (error as Error).message);
+    }
+    setDeleting(false);
+    setDeleteAsset(null);
+    setCleanupPaths(null);
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / ROWS_PER_PAGE));
+
+  return (
+    <div className="relative w-full">
+      <Toaster />
+      <h2 className="text-2xl font-bold mb-6 flex items-center gap-2">
+        Media Library
+        <span className="inline-flex items-center justify-center min-w-[28px] h-7 px-2 rounded-full bg-blue-500 text-white text-sm font-semibold">{total}</span>
+      </h2>
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <Input
+          placeholder="Search by file name or where it is used..."
+          value={search}
+          onChange={e => {
+            setSearch(e.target.value);
+            setPage(1);
+          }}
+          className="w-80 bg-white"
+        />
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={unusedOnly}
+            onChange={e => {
+              setUnusedOnly(e.target.checked);
+              setPage(1);
+            }}
+          />
+          Unused only
+        </label>
+        {can('content.delete') && (
+          <Button variant="outline" className="ml-auto" onClick={handleFindUnused} disabled={deleting}>
+            <Trash2 className="w-4 h-4" /> Clean up unused
+          </Button>
+        )}
+      </div>
+      <div className="overflow-x-auto rounded shadow border bg-white">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Image</TableHead>
+              <TableHead>File</TableHead>
+              <TableHead>Dimensions</TableHead>
+              <TableHead>Size</TableHead>
+              <TableHead>Used by</TableHead>
+              <TableHead>Uploaded</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8 text-gray-400">
+                  <Loader2 className="mx-auto animate-spin w-6 h-6" />
+                </TableCell>
+              </TableRow>
+            ) : assets.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8 text-gray-400">No images found.</TableCell>
+              </TableRow>
+            ) : (
+              assets.map(asset => (
+                <TableRow key={asset.path}>
+                  <TableCell>
+                    <a href={mediaUrl(asset.path)} target="_blank" rel="noreferrer">
+                      <img src={mediaUrl(asset.path)} alt="" loading="lazy" className="w-14 h-14 object-contain rounded border bg-gray-50" />
+                    </a>
+                  </TableCell>
+                  <TableCell className="max-w-[14rem]">
+                    <div className="truncate font-medium" title={asset.original_name || ''}>{asset.original_name || '-'}</div>
+                    <div className="truncate font-mono text-xs text-gray-500" title={asset.path}>{asset.path}</div>
+                  </TableCell>
+                  <TableCell>{asset.width && asset.height ? `${asset.width} × ${asset.height}` : '-'}</TableCell>
+                  <TableCell className="whitespace-nowrap">{formatBytes(asset.size)}</TableCell>
+                  <TableCell className="max-w-xs">
+                    {asset.refs.length === 0 ? (
+                      <span className="px-2 py-0.5 rounded bg-yellow-100 text-yellow-700 text-xs font-semibold">Unused</span>
+                    ) : (
+                      <ul className="text-xs space-y-0.5">
+                        {asset.refs.slice(0, 3).map(ref => (
+                          <li key={`${ref.kind}:${ref.key}`} className="truncate" title={ref.title || ref.key}>
+                            <span className="text-gray-500">{MEDIA_REFERENCE_LABELS[ref.kind]}:</span> {ref.title || ref.key}
+                          </li>
+                        ))}
+                        {asset.refs.length > 3 && <li className="text-gray-500">and {asset.refs.length - 3} more</li>}
+                      </ul>
+                    )}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap text-gray-600">{new Date(asset.created_at).toLocaleDateString()}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="outline" onClick={() => handleCopy(asset)}>
+                        <Copy className="w-4 h-4" /> URL
+                      </Button>
+                      {can('content.delete') && (
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          disabled={asset.refs.length > 0}
+                          title={asset.refs.length > 0 ? 'Still in use' : undefined}
+                          onClick={() => setDeleteAsset(asset)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+      {total > ROWS_PER_PAGE && (
+        <TablePagination page={page} pageCount={pageCount} onPageChange={setPage} disabled={loading} />
+      )}
+
+      <DeleteConfirmDialog
+        open={!!deleteAsset}
+        onOpenChange={open => { if (!open) setDeleteAsset(null); }}
+        onConfirm={() => deleteAsset && handleDelete([deleteAsset.path])}
+        loading={deleting}
+        title="Delete Image"
+        description="The file is removed from storage permanently. This cannot be undone."
+      />
+      <DeleteConfirmDialog
+        open={!!cleanupPaths}
+        onOpenChange={open => { if (!open) setCleanupPaths(null); }}
+        onConfirm={() => cleanupPaths && handleDelete(cleanupPaths)}
+        loading={deleting}
+        title="Clean Up Unused Images"
+        description={`${cleanupPaths?.length || 0} image${cleanupPaths?.length === 1 ? ' is' : 's are'} not used by any book, section, quiz or question. Images uploaded in the last ${UNUSED_GRACE_HOURS} hours are kept. Deleted files cannot be restored.`}
+      />
+    </div>
+  );
+};
+
+export default MediaLibraryPage;
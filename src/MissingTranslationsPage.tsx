@@ -0,0 +1,183 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from './supabaseClient';
+import toast, { Toaster } from 'react-hot-toast';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Link2, Loader2 } from 'lucide-react';
+import { Button } from './components/ui/button';
+import { useAuth } from './hooks/useAuth';
+import {
+  fetchMissingTranslations,
+  LANGUAGE_LABELS,
+  linkTranslation,
+  otherLanguage,
+  TRANSLATABLE_TABLES,
+  type MissingTranslations,
+  type TranslatableLevel,
+  type TranslationItem,
+} from './lib/translations';
+
+type BookOption = { book_id: string; title: string };
+
+const LEVELS: TranslatableLevel[] = ['section', 'category', 'quiz', 'question'];
+// Long lists are cut off; fixing the first items and rescanning shows the rest
+const MAX_ROWS = 200;
+
+// Page where an untranslated item can be opened and edited
+function itemLink(item: TranslationItem, bookRef: string): string {
+  switch (item.level) {
+    case 'section':
+      return `/sections/${bookRef}`;
+    case 'category':
+      return `/categories/${item.parentKey}?lang=${item.languageCode}&bookRef=${bookRef}`;
+    case 'quiz':
+      return `/quizzes/${item.parentKey}?bookRef=${bookRef}&segmentCode=${item.parentKey}&lang=${item.languageCode}`;
+    case 'question':
+      return `/questions/${item.parentKey}?bookRef=${bookRef}&lang=${item.languageCode}`;
+  }
+}
+
+export default function MissingTranslationsPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { can } = useAuth();
+  const bookRef = searchParams.get('book') || '';
+  const [books, setBooks] = useState<BookOption[]>([]);
+  const [missing, setMissing] = useState<MissingTranslations | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [level, setLevel] = useState<TranslatableLevel>('section');
+  // Chosen counterpart per untranslated item, keyed by the item's key
+  const [linkTargets, setLinkTargets] = useState<Record<string, string>>({});
+  const [linkingKey, setLinkingKey] = useState<string | null>(null);
+
+  // --- Fetch books ---
+  useEffect(() => {
+    supabase
+      .from('exam_book')
+      .select('book_id, title')
+      .order('order')
+      .then(({ data, error }) => {
+        if (error) toast.error('Failed to load books: ' + error.message);
+        else setBooks((data as BookOption[]) || []);
+      });
+  }, []);
+
+  const loadMissing = useCallback(async () => {
+    if (!bookRef) {
+      setMissing(null);
+      return;
+    }
+    setLoading(true);
+    try {
+      setMissing(await fetchMissingTranslations(bookRef));
+      setLinkTargets({});
+    } catch (error) {
+      toast.error('Failed to load translations: ' + (error as Error).message);
+      setMissing(null);
+    }
+    setLoading(false);
+  }, [bookRef]);
+
+  useEffect(() => {
+    loadMissing();
+  }, [loadMissing]);
+
+  const handleLink = async (item: TranslationItem) => {
+    const targetKey = linkTargets[item.key];
+    if (!targetKey) return;
+    setLinkingKey(item.key);
+    try {
+      await linkTranslation(item.level, item.key, targetKey);
+      toast.success('Translation linked');
+      await loadMissing();
+    } catch (error) {
+      toast.error('Link failed: ' + (error as Error).message);
+    }
+    setLinkingKey(null);
+  };
+
+  const items = missing?.[level] || [];
+  // Containers are linked by hand here; questions get their translation in the side-by-side editor
+  const canLink = level !== 'question' && can('content.edit');
+
+  return (
+    <div className="relative w-full">
+      <Toaster />
+      <h2 className="text-2xl font-bold mb-4">Missing Translations</h2>
+      <div className="flex flex-wrap items-center gap-3 mb-6">
+        <select
+          className="border rounded-md px-3 py-1 h-9 bg-white"
+          value={bookRef}
+          onChange={e => setSearchParams(e.target.value ? { book: e.target.value } : {}, { replace: true })}
+          disabled={loading}
+        >
+          <option value="">Select a book…</option>
+          {books.map(b => (
+            <option key={b.book_id} value={b.book_id}>{b.title}</option>
+          ))}
+        </select>
+        {loading && <Loader2 className="w-5 h-5 animate-spin text-gray-400" />}
+      </div>
+
+      {!bookRef ? (
+        <div className="text-center py-12 text-gray-400">Pick a book to see what still needs translating.</div>
+      ) : missing && (
+        <>
+          <div className="flex flex-wrap gap-2 mb-4">
+            {LEVELS.map(l => (
+              <Button key={l} size="sm" variant={l === level ? 'default' : 'outline'} onClick={() => setLevel(l)}>
+                {TRANSLATABLE_TABLES[l].label}
+                <span className="ml-1 rounded-full bg-white/20 px-1.5 text-xs">{missing[l].length}</span>
+              </Button>
+            ))}
+          </div>
+          {items.length === 0 ? (
+            <div className="text-center py-12 text-gray-400">Every {TRANSLATABLE_TABLES[level].label.toLowerCase()} item has a translation.</div>
+          ) : (
+            <div className="rounded-2xl shadow bg-white divide-y">
+              {items.slice(0, MAX_ROWS).map(item => {
+                const candidates = items.filter(c => c.languageCode === otherLanguage(item.languageCode));
+                return (
+                  <div key={item.key} className="flex flex-wrap items-center gap-3 p-3">
+                    <span className="px-2 py-0.5 rounded bg-gray-100 text-gray-700 text-xs font-semibold">
+                      {LANGUAGE_LABELS[item.languageCode] || item.languageCode}
+                    </span>
+                    <Link to={itemLink(item, bookRef)} className="flex-1 min-w-[200px] truncate text-blue-600 hover:underline">
+                      {item.title || item.key}
+                    </Link>
+                    <span className="text-xs text-gray-500">No {LANGUAGE_LABELS[otherLanguage(item.languageCode)]} version</span>
+                    {canLink && candidates.length > 0 && (
+                      <div className="flex items-center gap-2">
+                        <select
+                          className="border rounded-md px-2 py-1 h-8 bg-white text-sm max-w-[220px]"
+                          value={linkTargets[item.key] || ''}
+                          onChange={e => setLinkTargets(prev => ({ ...prev, [item.key]: e.target.value }))}
+                          disabled={linkingKey !== null}
+                        >
+                          <option value="">Link to…</option>
+                          {candidates.map(c => (
+                            <option key={c.key} value={c.key}>{c.title}</option>
+                          ))}
+                        </select>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={!linkTargets[item.key] || linkingKey !== null}
+                          onClick={() => handleLink(item)}
+                        >
+                          {linkingKey === item.key ? <Loader2 className="w-4 h-4 animate-spin" /> : <Link2 className="w-4 h-4" />}
+                          Link
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+              {items.length > MAX_ROWS && (
+                <div className="p-3 text-sm text-gray-500">…and {items.length - MAX_ROWS} more.</div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
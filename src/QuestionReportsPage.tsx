@@ -1,4 +1,5 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { supabase } from './supabaseClient';
 import toast, { Toaster } from 'react-hot-toast';
 import {
@@ -9,20 +10,40 @@ import {
   TableRow,
   TableCell,
 } from './components/ui/table';
-import { Loader2, Pencil, CheckCircle2 } from 'lucide-react';
+import { BellOff, ChevronDown, ChevronRight, ExternalLink, Loader2, Pencil, ShieldAlert } from 'lucide-react';
 import QuestionDialog, { type QuestionForm } from './molecules/QuestionDialog';
 import { Button } from './components/ui/button';
+import { Textarea } from './components/ui/textarea';
+import Breadcrumb from './atoms/Breadcrumb';
+import MathMarkdown from './atoms/MathMarkdown';
+import MathText from './atoms/MathText';
+import TablePagination from './atoms/TablePagination';
+import { useAuth } from './hooks/useAuth';
+import { fetchQuizBreadcrumbs, type BreadcrumbPart } from './lib/breadcrumbs';
+import { fetchDashboardAdmins, type DashboardAdmin } from './lib/quizWorkflow';
+import {
+  ACTIVE_REPORT_STATUSES,
+  REPORT_STATUSES,
+  REPORT_STATUS_LABELS,
+  REPORT_STATUS_STYLES,
+  SPAM_SIGNAL_LABELS,
+  fetchReportGroups,
+  fetchReportReasons,
+  fetchQuestionReports,
+  fetchReportNotifications,
+  fetchReporterStats,
+  muteReporter,
+  unmuteReporter,
+  updateReports,
+  type QuestionReport,
+  type ReportNotification,
+  type ReporterStats,
+  type ReportChanges,
+  type ReportGroup,
+  type ReportStatus,
+} from './lib/reportTriage';
 
 // --- Types ---
-export type QuestionReport = {
-  questionId: string;
-  reason: string;
-  additional_message?: string | null;
-  playerId: string;
-  status: string;
-  created_at: string;
-};
-
 export type Question = {
   questionId: string;
   quizId: string;
@@ -39,39 +60,185 @@ export type Question = {
   created_at: string;
 };
 
+// The reported question as the player saw it, with everything else filed against it
+type ReportDetail = {
+  question: Question | null;
+  breadcrumb: BreadcrumbPart[];
+  reports: QuestionReport[];
+  notifications: ReportNotification[];
+};
+
+const NOTIFICATION_STATUS_STYLES: Record<ReportNotification['status'], string> = {
+  pending: 'text-yellow-700',
+  sending: 'text-blue-700',
+  sent: 'text-green-700',
+  failed: 'text-red-600',
+};
+
 const ROWS_PER_PAGE = 10;
 
+const optionKeys = [
+  ['a', 'optionA'],
+  ['b', 'optionB'],
+  ['c', 'optionC'],
+  ['d', 'optionD'],
+] as const;
+
+// Without a status in the URL the queue shows what still needs work
+const STATUS_TABS: { value: string; label: string }[] = [
+  { value: '', label: 'Active' },
+  ...REPORT_STATUSES.map(status => ({ value: status, label: REPORT_STATUS_LABELS[status] })),
+  { value: 'all', label: 'All' },
+];
+
+const selectClass = 'border rounded-md px-3 py-1 h-9 bg-white';
+
+function reputationStyle(reputation: number): string {
+  if (reputation >= 60) return 'bg-green-100 text-green-700';
+  if (reputation < 30) return 'bg-red-100 text-red-700';
+  return 'bg-gray-100 text-gray-700';
+}
+
 const QuestionReportsPage: React.FC = () => {
-  const [reports, setReports] = useState<QuestionReport[]>([]);
+  const { can } = useAuth();
+  const canTriage = can('reports.resolve');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [groups, setGroups] = useState<ReportGroup[]>([]);
+  const [total, setTotal] = useState(0);
   const [loading, setLoading] = useState(false);
+  const [reasons, setReasons] = useState<{ reason: string; reports: number }[]>([]);
+  const [admins, setAdmins] = useState<DashboardAdmin[]>([]);
+  const [reporters, setReporters] = useState<Record<string, ReporterStats>>({});
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<ReportDetail | null>(null);
+  const [detailLoading, setDetailLoading] = useState(false);
+  const [notes, setNotes] = useState<Record<number, string>>({});
+  const [saving, setSaving] = useState(false);
   const [editLoading, setEditLoading] = useState(false);
   const [editId, setEditId] = useState<string | null>(null);
-  const [resolveId, setResolveId] = useState<string | null>(null);
-  const [resolveLoading, setResolveLoading] = useState(false);
-  const [page, setPage] = useState(1);
   // Dialog state
   const [dialogOpen, setDialogOpen] = useState(false);
   const [dialogInitialValues, setDialogInitialValues] = useState<Partial<QuestionForm>>({});
 
-  // --- Fetch Reports ---
-  const fetchReports = async () => {
+  // --- Filters (synced to the URL so a filtered queue can be shared) ---
+  const statusParam = searchParams.get('status') || '';
+  const filters = useMemo(() => ({
+    statuses: statusParam === 'all'
+      ? []
+      : REPORT_STATUSES.includes(statusParam as ReportStatus) ? [statusParam as ReportStatus] : ACTIVE_REPORT_STATUSES,
+    reason: searchParams.get('reason') || '',
+    assignee: searchParams.get('assignee') || '',
+    from: searchParams.get('from') || '',
+    to: searchParams.get('to') || '',
+    sort: searchParams.get('sort') === 'count' ? 'count' as const : 'latest' as const,
+    includeMuted: searchParams.get('muted') === '1',
+  }), [searchParams, statusParam]);
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+
+  const setParam = (key: string, value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) next.set(key, value);
+    else next.delete(key);
+    if (key !== 'page') next.delete('page');
+    setSearchParams(next, { replace: true });
+  };
+
+  const adminEmail = (id: string | null) => (id && admins.find(a => a.id === id)?.email) || id || 'Unassigned';
+
+  // --- Fetch Groups ---
+  const loadGroups = useCallback(async () => {
     setLoading(true);
-    const { data, error } = await supabase
-      .from('question_reports')
-      .select('*')
-      .order('created_at', { ascending: false });
-    if (error) {
-      toast.error('Failed to fetch reports');
-    } else {
-      setReports((data as QuestionReport[]) || []);
+    try {
+      const result = await fetchReportGroups(filters, ROWS_PER_PAGE, (page - 1) * ROWS_PER_PAGE);
+      setGroups(result.groups);
+      setTotal(result.total);
+      // Spam flags are a hint; the queue still works without them
+      setReporters(await fetchReporterStats(result.groups.flatMap(g => g.player_ids)).catch(() => ({})));
+    } catch (error) {
+      toast.error('Failed to fetch reports: ' + (error as Error).message);
     }
     setLoading(false);
-  };
+  }, [filters, page]);
+
+  useEffect(() => {
+    loadGroups();
+  }, [loadGroups]);
 
   useEffect(() => {
-    fetchReports();
+    fetchReportReasons().then(setReasons).catch(() => setReasons([]));
+    fetchDashboardAdmins().then(setAdmins).catch(() => setAdmins([]));
   }, []);
 
+  const loadDetail = async (questionId: string) => {
+    setDetailLoading(true);
+    try {
+      const [{ data: question }, reports] = await Promise.all([
+        supabase.from('questions').select('*').eq('questionId', questionId).maybeSingle(),
+        fetchQuestionReports(questionId),
+      ]);
+      const [breadcrumbs, notifications, stats] = await Promise.all([
+        question ? fetchQuizBreadcrumbs([question.quizId]) : Promise.resolve({} as Record<string, BreadcrumbPart[]>),
+        fetchReportNotifications(reports.map(r => r.id)),
+        fetchReporterStats(reports.map(r => r.playerId)),
+      ]);
+      setReporters(prev => ({ ...prev, ...stats }));
+      setDetail({
+        question: question as Question | null,
+        breadcrumb: question ? breadcrumbs[question.quizId] || [] : [],
+        reports,
+        notifications,
+      });
+      setNotes(Object.fromEntries(reports.map(r => [r.id, r.internal_notes || ''])));
+    } catch (error) {
+      toast.error('Failed to fetch reports: ' + (error as Error).message);
+    }
+    setDetailLoading(false);
+  };
+
+  const toggleExpanded = (group: ReportGroup) => {
+    if (expandedId === group.questionId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(group.questionId);
+    setDetail(null);
+    loadDetail(group.questionId);
+  };
+
+  // --- Triage (one report or every report in a group) ---
+  const applyChanges = async (ids: number[], changes: ReportChanges, message: string) => {
+    setSaving(true);
+    try {
+      await updateReports(ids, changes);
+      toast.success(message);
+      if (expandedId) await loadDetail(expandedId);
+      if (changes.status || changes.assignee_id !== undefined) await loadGroups();
+    } catch (error) {
+      toast.error('Update failed: ' + (error as Error).message);
+    }
+    setSaving(false);
+  };
+
+  const handleMute = async (stats: ReporterStats) => {
+    setSaving(true);
+    try {
+      if (stats.muted) {
+        await unmuteReporter(stats.player_id);
+        toast.success('Reporter unmuted');
+      } else {
+        await muteReporter(stats.player_id, stats.spam_signals.map(signal => SPAM_SIGNAL_LABELS[signal]).join('; '));
+        toast.success('Reporter muted. Their new reports are hidden from the queue.');
+      }
+      await loadGroups();
+      if (expandedId) await loadDetail(expandedId);
+    } catch (error) {
+      toast.error('Update failed: ' + (error as Error).message);
+    }
+    setSaving(false);
+  };
+
+  const plural = (n: number) => `${n} report${n === 1 ? '' : 's'}`;
+
   // --- Edit Question Modal ---
   const openEditModal = async (questionId: string) => {
     setEditLoading(true);
@@ -111,108 +278,378 @@ const QuestionReportsPage: React.FC = () => {
       toast.success('Question updated');
       setDialogOpen(false);
       setEditId(null);
-      fetchReports();
+      loadGroups();
+      if (expandedId === editId) loadDetail(editId);
     }
     setEditLoading(false);
   };
 
-  // --- Mark Resolved ---
-  const handleMarkResolved = async (questionId: string) => {
-    setResolveId(questionId);
-    setResolveLoading(true);
-    const { error } = await supabase
-      .from('question_reports')
-      .update({ status: 'resolved' })
-      .eq('questionId', questionId);
-    if (error) {
-      toast.error('Failed to mark as resolved');
-    } else {
-      toast.success('Marked as resolved');
-      fetchReports();
-    }
-    setResolveLoading(false);
-    setResolveId(null);
-  };
+  const renderReporter = (stats: ReporterStats) => (
+    <>
+      <span
+        className={`px-2 py-0.5 rounded text-xs font-semibold ${reputationStyle(stats.reputation)}`}
+        title={`${stats.total} reports · ${stats.valid} valid · ${stats.rejected} rejected`}
+      >
+        Reputation {stats.reputation}
+      </span>
+      {stats.spam_signals.length > 0 && (
+        <span
+          className="flex items-center gap-1 px-2 py-0.5 rounded text-xs font-semibold bg-red-100 text-red-700"
+          title={stats.spam_signals.map(signal => SPAM_SIGNAL_LABELS[signal]).join('\n')}
+        >
+          <ShieldAlert className="w-3 h-3" /> Likely spam
+        </span>
+      )}
+      {stats.muted && <span className="px-2 py-0.5 rounded text-xs font-semibold bg-gray-200 text-gray-700">Muted</span>}
+      {canTriage && (
+        <button
+          type="button"
+          className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-900 disabled:opacity-50"
+          disabled={saving}
+          onClick={() => handleMute(stats)}
+        >
+          <BellOff className="w-3 h-3" /> {stats.muted ? 'Unmute' : 'Mute'}
+        </button>
+      )}
+    </>
+  );
 
-  // --- Pagination ---
-  const paginatedReports = reports.slice((page - 1) * ROWS_PER_PAGE, page * ROWS_PER_PAGE);
+  const renderReport = (report: QuestionReport) => (
+    <li key={report.id} className="py-3 grid gap-3 md:grid-cols-[1fr_auto]">
+      <div>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="font-medium">{report.reason}</span>
+          <span className={`px-2 py-0.5 rounded text-xs font-semibold ${REPORT_STATUS_STYLES[report.status]}`}>
+            {REPORT_STATUS_LABELS[report.status]}
+          </span>
+          <span className="text-gray-500">{new Date(report.created_at).toLocaleString()}</span>
+          <span className="font-mono text-xs text-gray-400">player {report.playerId}</span>
+          {reporters[report.playerId] && renderReporter(reporters[report.playerId])}
+        </div>
+        {report.additional_message && <p className="text-sm text-gray-700 mt-1">{report.additional_message}</p>}
+        {detail?.notifications.filter(n => n.report_id === report.id).map(n => (
+          <div key={n.id} className="text-xs text-gray-500 mt-1" title={n.body}>
+            Player notified: “{n.title}” ·{' '}
+            <span className={NOTIFICATION_STATUS_STYLES[n.status]}>
+              {n.status === 'sent' ? `sent via ${n.channel} ${new Date(n.sent_at || n.created_at).toLocaleString()}` : n.status}
+            </span>
+            {n.status !== 'sent' && n.last_error && <> ({n.last_error})</>}
+            {n.read_at && <> · read {new Date(n.read_at).toLocaleString()}</>}
+          </div>
+        ))}
+        {canTriage ? (
+          <div className="flex items-start gap-2 mt-2">
+            <Textarea
+              value={notes[report.id] ?? ''}
+              onChange={e => setNotes(prev => ({ ...prev, [report.id]: e.target.value }))}
+              placeholder="Internal notes (not shown to the player)"
+              className="min-h-[60px] bg-white"
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={saving || (notes[report.id] ?? '') === (report.internal_notes || '')}
+              onClick={() => applyChanges([report.id], { internal_notes: notes[report.id] || null }, 'Notes saved')}
+            >
+              Save
+            </Button>
+          </div>
+        ) : report.internal_notes && (
+          <p className="text-sm text-gray-600 mt-2 italic">{report.internal_notes}</p>
+        )}
+      </div>
+      {canTriage ? (
+        <div className="flex flex-col gap-2">
+          <select
+            className={selectClass}
+            value={report.status}
+            disabled={saving}
+            onChange={e => applyChanges([report.id], { status: e.target.value as ReportStatus }, 'Report updated')}
+          >
+            {REPORT_STATUSES.map(status => (
+              <option key={status} value={status}>{REPORT_STATUS_LABELS[status]}</option>
+            ))}
+          </select>
+          <select
+            className={selectClass}
+            value={report.assignee_id || ''}
+            disabled={saving}
+            onChange={e => applyChanges([report.id], { assignee_id: e.target.value || null }, 'Report updated')}
+          >
+            <option value="">Unassigned</option>
+            {admins.map(admin => (
+              <option key={admin.id} value={admin.id}>{admin.email}</option>
+            ))}
+          </select>
+        </div>
+      ) : (
+        <div className="text-sm text-gray-600">{adminEmail(report.assignee_id)}</div>
+      )}
+    </li>
+  );
+
+  const pageCount = Math.max(1, Math.ceil(total / ROWS_PER_PAGE));
 
   return (
     <div className="relative w-full">
       <Toaster />
       <h2 className="text-2xl font-bold mb-4 flex items-center gap-2">
         Question Reports
-        <span className="inline-flex items-center justify-center min-w-[28px] h-7 px-2 rounded-full bg-red-500 text-white text-sm font-semibold">{reports.length}</span>
+        <span className="inline-flex items-center justify-center min-w-[28px] h-7 px-2 rounded-full bg-red-500 text-white text-sm font-semibold">{total}</span>
       </h2>
+      <div className="flex flex-wrap gap-2 mb-4">
+        {STATUS_TABS.map(tab => (
+          <Button
+            key={tab.value}
+            size="sm"
+            variant={statusParam === tab.value ? 'default' : 'outline'}
+            onClick={() => setParam('status', tab.value)}
+          >
+            {tab.label}
+          </Button>
+        ))}
+      </div>
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <select className={selectClass} value={filters.reason} onChange={e => setParam('reason', e.target.value)}>
+          <option value="">All reasons</option>
+          {reasons.map(r => (
+            <option key={r.reason} value={r.reason}>{r.reason} ({r.reports})</option>
+          ))}
+        </select>
+        <select className={selectClass} value={filters.assignee} onChange={e => setParam('assignee', e.target.value)}>
+          <option value="">Any assignee</option>
+          <option value="unassigned">Unassigned</option>
+          {admins.map(admin => (
+            <option key={admin.id} value={admin.id}>{admin.email}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          From
+          <input
+            type="date"
+            className="border rounded-md px-2 h-9 bg-white"
+            value={filters.from.slice(0, 10)}
+            onChange={e => setParam('from', e.target.value)}
+          />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          To
+          <input
+            type="date"
+            className="border rounded-md px-2 h-9 bg-white"
+            value={filters.to.slice(0, 10)}
+            onChange={e => setParam('to', e.target.value ? `${e.target.value}T23:59:59` : '')}
+          />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={filters.includeMuted}
+            onChange={e => setParam('muted', e.target.checked ? '1' : '')}
+          />
+          Include muted reporters
+        </label>
+        <select className={`${selectClass} ml-auto`} value={filters.sort} onChange={e => setParam('sort', e.target.value === 'count' ? 'count' : '')}>
+          <option value="latest">Latest report first</option>
+          <option value="count">Most reported first</option>
+        </select>
+      </div>
       <div className="overflow-x-auto rounded shadow border bg-white">
         <Table>
           <TableHeader>
             <TableRow>
-              <TableHead>Question ID</TableHead>
-              <TableHead>Reason</TableHead>
-              <TableHead>Additional Message</TableHead>
-              <TableHead>Player ID</TableHead>
+              <TableHead className="w-8" />
+              <TableHead>Question</TableHead>
+              <TableHead>Reports</TableHead>
+              <TableHead>Reasons</TableHead>
               <TableHead>Status</TableHead>
-              <TableHead>Created At</TableHead>
+              <TableHead>Latest</TableHead>
               <TableHead>Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
-            {loading ? (
+            {loading && groups.length === 0 ? (
               <TableRow>
                 <TableCell colSpan={7} className="text-center py-8 text-gray-400">
                   <Loader2 className="mx-auto animate-spin w-6 h-6" />
                 </TableCell>
               </TableRow>
-            ) : paginatedReports.length === 0 ? (
+            ) : groups.length === 0 ? (
               <TableRow>
                 <TableCell colSpan={7} className="text-center py-8 text-gray-400">No reports found.</TableCell>
               </TableRow>
             ) : (
-              paginatedReports.map((r) => (
-                <TableRow key={r.questionId}>
-                  <TableCell>{r.questionId}</TableCell>
-                  <TableCell>{r.reason}</TableCell>
-                  <TableCell>{r.additional_message || '-'}</TableCell>
-                  <TableCell>{r.playerId}</TableCell>
-                  <TableCell>
-                    <span className={`inline-block px-2 py-1 rounded text-xs font-semibold ${r.status === 'resolved' ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-700'}`}>{r.status}</span>
-                  </TableCell>
-                  <TableCell>{new Date(r.created_at).toLocaleString()}</TableCell>
-                  <TableCell>
-                    <div className="flex gap-2">
-                      <Button variant="secondary" size="sm" onClick={() => openEditModal(r.questionId)}>
-                        <Pencil className="w-4 h-4 mr-1" /> Edit Question
-                      </Button>
-                      <Button
-                        variant="secondary"
-                        size="sm"
-                        disabled={r.status === 'resolved' || resolveLoading}
-                        onClick={() => handleMarkResolved(r.questionId)}
-                      >
-                        {resolveLoading && resolveId === r.questionId ? (
-                          <Loader2 className="w-4 h-4 animate-spin mr-1" />
+              groups.map(group => {
+                const expanded = expandedId === group.questionId;
+                return (
+                  <React.Fragment key={group.questionId}>
+                    <TableRow>
+                      <TableCell>
+                        <button
+                          type="button"
+                          className="text-gray-500 hover:text-gray-900"
+                          aria-label={expanded ? 'Hide reports' : 'Show reports'}
+                          onClick={() => toggleExpanded(group)}
+                        >
+                          {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                        </button>
+                      </TableCell>
+                      <TableCell className="max-w-md whitespace-normal">
+                        {group.question_text ? (
+                          <MathMarkdown className="prose prose-sm max-w-none line-clamp-3">{group.question_text}</MathMarkdown>
                         ) : (
-                          <CheckCircle2 className="w-4 h-4 mr-1" />
+                          <span className="text-gray-400 italic">Question no longer exists</span>
                         )}
-                        Mark Resolved
-                      </Button>
-                    </div>
-                  </TableCell>
-                </TableRow>
-              ))
+                        <div className="font-mono text-xs text-gray-400 mt-1">{group.questionId}</div>
+                      </TableCell>
+                      <TableCell className="font-semibold">
+                        {group.report_count}
+                        {group.player_ids.some(id => reporters[id]?.spam_signals.length) && (
+                          <span
+                            className="ml-2 inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-semibold bg-red-100 text-red-700"
+                            title="Some of these reports come from players flagged as likely spam"
+                          >
+                            <ShieldAlert className="w-3 h-3" /> {group.player_ids.filter(id => reporters[id]?.spam_signals.length).length}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {Object.entries(group.reason_counts).map(([reason, n]) => (
+                            <span key={reason} className="px-2 py-0.5 rounded bg-gray-100 text-gray-700 text-xs">
+                              {reason} × {n}
+                            </span>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {Object.entries(group.status_counts).map(([status, n]) => (
+                            <span key={status} className={`px-2 py-0.5 rounded text-xs font-semibold ${REPORT_STATUS_STYLES[status as ReportStatus]}`}>
+                              {REPORT_STATUS_LABELS[status as ReportStatus]} {n}
+                            </span>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{new Date(group.latest_at).toLocaleString()}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-2">
+                          {can('content.edit') && group.question_text && (
+                            <Button variant="secondary" size="sm" onClick={() => openEditModal(group.questionId)}>
+                              <Pencil className="w-4 h-4 mr-1" /> Edit Question
+                            </Button>
+                          )}
+                          {canTriage && (
+                            <>
+                              <select
+                                className={selectClass}
+                                value=""
+                                disabled={saving}
+                                onChange={e => applyChanges(
+                                  group.report_ids,
+                                  { status: e.target.value as ReportStatus },
+                                  `${plural(group.report_count)} marked ${REPORT_STATUS_LABELS[e.target.value as ReportStatus].toLowerCase()}`
+                                )}
+                              >
+                                <option value="" disabled>Set status…</option>
+                                {REPORT_STATUSES.map(status => (
+                                  <option key={status} value={status}>{REPORT_STATUS_LABELS[status]}</option>
+                                ))}
+                              </select>
+                              <select
+                                className={selectClass}
+                                value=""
+                                disabled={saving}
+                                onChange={e => applyChanges(
+                                  group.report_ids,
+                                  { assignee_id: e.target.value === 'unassigned' ? null : e.target.value },
+                                  `${plural(group.report_count)} assigned to ${adminEmail(e.target.value === 'unassigned' ? null : e.target.value)}`
+                                )}
+                              >
+                                <option value="" disabled>Assign…</option>
+                                <option value="unassigned">Unassigned</option>
+                                {admins.map(admin => (
+                                  <option key={admin.id} value={admin.id}>{admin.email}</option>
+                                ))}
+                              </select>
+                            </>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                    {expanded && (
+                      <TableRow className="bg-gray-50 hover:bg-gray-50">
+                        <TableCell />
+                        <TableCell colSpan={6} className="whitespace-normal">
+                          {detailLoading && !detail ? (
+                            <Loader2 className="animate-spin w-5 h-5 text-gray-400 my-2" />
+                          ) : detail && (
+                            <div className="space-y-4 py-2">
+                              {detail.question && (
+                                <div className="rounded-lg border bg-white p-4 space-y-2">
+                                  {detail.breadcrumb.length > 0 && (
+                                    <div className="flex items-start justify-between gap-4">
+                                      <Breadcrumb parts={detail.breadcrumb} />
+                                      {/* The last breadcrumb part is the quiz's question list */}
+                                      <Link
+                                        to={detail.breadcrumb[detail.breadcrumb.length - 1].to}
+                                        className="flex items-center gap-1 text-sm text-blue-600 hover:underline whitespace-nowrap"
+                                      >
+                                        <ExternalLink className="w-4 h-4" /> Open quiz
+                                      </Link>
+                                    </div>
+                                  )}
+                                  <div className="prose max-w-none"><MathMarkdown>{detail.question.questionText || ''}</MathMarkdown></div>
+                                  <div className="flex flex-wrap gap-2 text-sm">
+                                    {optionKeys.filter(([, key]) => detail.question?.[key]).map(([letter, key]) => (
+                                      <span
+                                        key={letter}
+                                        className={`px-2 py-1 rounded ${detail.question?.correctAnswer === letter ? 'bg-green-100 text-green-700 font-semibold' : 'bg-gray-100 text-gray-700'}`}
+                                      >
+                                        ({letter}) <MathText text={detail.question?.[key] || ''} />
+                                      </span>
+                                    ))}
+                                  </div>
+                                  {detail.question.noteText && (
+                                    <div className="prose prose-sm max-w-none border-l-4 border-blue-200 pl-3 text-gray-700">
+                                      <MathMarkdown>{detail.question.noteText}</MathMarkdown>
+                                    </div>
+                                  )}
+                                  <div className="text-xs text-gray-400">
+                                    Language: {detail.question.languageCode}
+                                    {detail.question.previouslyAskedIn && <> · Previously asked in {detail.question.previouslyAskedIn}</>}
+                                  </div>
+                                </div>
+                              )}
+                              <div>
+                                <h4 className="text-sm font-semibold text-gray-700">Reports in this view</h4>
+                                <ul className="divide-y">
+                                  {detail.reports.filter(r => group.report_ids.includes(r.id)).map(renderReport)}
+                                </ul>
+                              </div>
+                              {detail.reports.some(r => !group.report_ids.includes(r.id)) && (
+                                <div>
+                                  <h4 className="text-sm font-semibold text-gray-700">Other reports on this question</h4>
+                                  <ul className="divide-y">
+                                    {detail.reports.filter(r => !group.report_ids.includes(r.id)).map(renderReport)}
+                                  </ul>
+                                </div>
+                              )}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </React.Fragment>
+                );
+              })
             )}
           </TableBody>
         </Table>
       </div>
       {/* Pagination */}
-      <div className="flex justify-end items-center gap-2 mt-4">
-        <Button variant="secondary" size="sm" onClick={() => setPage(p => Math.max(1, p - 1))} disabled={page === 1}>Prev</Button>
-        <span>
-          Page {page} of {Math.ceil(reports.length / ROWS_PER_PAGE)}
-        </span>
-        <Button variant="secondary" size="sm" onClick={() => setPage(p => (p * ROWS_PER_PAGE < reports.length ? p + 1 : p))} disabled={page * ROWS_PER_PAGE >= reports.length}>Next</Button>
-      </div>
+      <TablePagination page={page} pageCount={pageCount} onPageChange={p => setParam('page', p > 1 ? String(p) : '')} disabled={loading} />
       {/* Edit Question Modal */}
       <QuestionDialog
         open={dialogOpen}
@@ -226,4 +663,4 @@ const QuestionReportsPage: React.FC = () => {
   );
 };
 
-export default QuestionReportsPage; 
\ No newline at end of file
+export default QuestionReportsPage;
@@ -0,0 +1,233 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from './supabaseClient';
+import toast, { Toaster } from 'react-hot-toast';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Loader2, Pencil, Search, ArrowRight } from 'lucide-react';
+import { Input } from './components/ui/input';
+import { Button } from './components/ui/button';
+import Breadcrumb from './atoms/Breadcrumb';
+import TablePagination from './atoms/TablePagination';
+import MathMarkdown from './atoms/MathMarkdown';
+import MathText from './atoms/MathText';
+import QuestionDialog, { type QuestionForm } from './molecules/QuestionDialog';
+import { usePaginatedQuery, useFilterInput } from './hooks/usePaginatedQuery';
+import { useAuth } from './hooks/useAuth';
+import { fetchQuizBreadcrumbs, fetchTopicBreadcrumbs, type BreadcrumbPart } from './lib/breadcrumbs';
+import { QUESTION_COLUMNS, normalizeQuestionValues, toQuestionFormValues } from './lib/questions';
+import type { Question } from './QuestionsPage';
+import type { GKOneLinerQuestion } from './GKOneLinerQuestionsPage';
+
+type SearchTab = 'questions' | 'oneliners';
+
+const ROWS_PER_PAGE = 20;
+const QUESTION_FILTERS = [
+  { param: 'q', column: 'search_vector', op: 'fts' },
+  { param: 'lang', column: 'languageCode', op: 'eq' },
+] as const;
+const ONELINER_FILTERS = [
+  { param: 'q', column: 'search_vector', op: 'fts' },
+  { param: 'lang', column: 'language_code', op: 'eq' },
+] as const;
+const SORTABLE_COLUMNS = ['created_at'] as const;
+
+const tabs: { value: SearchTab; label: string }[] = [
+  { value: 'questions', label: 'MCQ Questions' },
+  { value: 'oneliners', label: 'GK One-Liners' },
+];
+
+const optionKeys = [
+  ['a', 'optionA'],
+  ['b', 'optionB'],
+  ['c', 'optionC'],
+  ['d', 'optionD'],
+] as const;
+
+export default function QuestionSearchPage() {
+  const [searchParams] = useSearchParams();
+  const { can } = useAuth();
+  const term = searchParams.get('q') || '';
+  const [tab, setTab] = useState<SearchTab>('questions');
+  const [breadcrumbs, setBreadcrumbs] = useState<Record<string, BreadcrumbPart[]>>({});
+  const [editQuestion, setEditQuestion] = useState<Question | null>(null);
+  const [editLoading, setEditLoading] = useState(false);
+
+  const questionSearch = usePaginatedQuery<Question>({
+    table: 'questions',
+    select: QUESTION_COLUMNS,
+    pageSize: ROWS_PER_PAGE,
+    defaultSort: { column: 'created_at', ascending: false },
+    sortableColumns: SORTABLE_COLUMNS,
+    filters: QUESTION_FILTERS,
+    enabled: tab === 'questions' && !!term,
+  });
+  const onelinerSearch = usePaginatedQuery<GKOneLinerQuestion>({
+    table: 'gk_oneliner_questions',
+    select: 'id, question, topic_id, language_code, created_at',
+    pageSize: ROWS_PER_PAGE,
+    defaultSort: { column: 'created_at', ascending: false },
+    sortableColumns: SORTABLE_COLUMNS,
+    filters: ONELINER_FILTERS,
+    enabled: tab === 'oneliners' && !!term,
+  });
+  const active = tab === 'questions' ? questionSearch : onelinerSearch;
+  const { setFilter } = active;
+  const commitSearch = useCallback((value: string) => setFilter('q', value), [setFilter]);
+  const [searchInput, setSearchInput] = useFilterInput(term, commitSearch);
+
+  useEffect(() => {
+    if (active.error) toast.error('Search failed: ' + active.error);
+  }, [active.error]);
+
+  // Resolve breadcrumbs for whatever results are on screen
+  const questionRows = questionSearch.rows;
+  const onelinerRows = onelinerSearch.rows;
+  useEffect(() => {
+    let cancelled = false;
+    const load = tab === 'questions'
+      ? fetchQuizBreadcrumbs(questionRows.map(q => q.quizId))
+      : fetchTopicBreadcrumbs(onelinerRows.map(q => q.topic_id));
+    load.then(result => {
+      if (!cancelled) setBreadcrumbs(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [tab, questionRows, onelinerRows]);
+
+  const handleDialogSubmit = async (values: QuestionForm) => {
+    if (!editQuestion) return;
+    setEditLoading(true);
+    const { error } = await supabase
+      .from('questions')
+      .update(normalizeQuestionValues(values))
+      .eq('questionId', editQuestion.questionId);
+    if (error) {
+      toast.error(error.message);
+    } else {
+      toast.success('Question updated');
+      setEditQuestion(null);
+      questionSearch.refetch();
+    }
+    setEditLoading(false);
+  };
+
+  const showResults = !!term;
+
+  return (
+    <div className="relative w-full">
+      <Toaster />
+      <h2 className="text-2xl font-bold mb-4">Search Questions</h2>
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <div className="relative">
+          <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <Input
+            placeholder='Search text, options and notes, e.g. "river" -ganga'
+            value={searchInput}
+            onChange={e => setSearchInput(e.target.value)}
+            className="w-96 pl-9 bg-white"
+            autoFocus
+          />
+        </div>
+        <select
+          className="border rounded-md px-3 py-1 h-9 bg-white"
+          value={active.filterValues.lang}
+          onChange={e => setFilter('lang', e.target.value)}
+        >
+          <option value="">All languages</option>
+          <option value="en">English</option>
+          <option value="hi">Hindi</option>
+        </select>
+      </div>
+      <div className="flex gap-2 border-b mb-4">
+        {tabs.map(t => (
+          <button
+            key={t.value}
+            type="button"
+            className={`px-4 py-2 -mb-px border-b-2 font-medium ${tab === t.value ? 'border-blue-600 text-blue-700' : 'border-transparent text-gray-500 hover:text-blue-600'}`}
+            onClick={() => {
+              setTab(t.value);
+              setBreadcrumbs({});
+              active.setPage(1);
+            }}
+          >
+            {t.label}
+            {showResults && tab === t.value && !active.loading && (
+              <span className="ml-2 inline-flex items-center justify-center min-w-[24px] h-6 px-2 rounded-full bg-blue-500 text-white text-xs font-semibold">{active.count}</span>
+            )}
+          </button>
+        ))}
+      </div>
+
+      {!showResults ? (
+        <div className="text-center py-12 text-gray-400">Type a word or phrase to search across all books and GK subjects.</div>
+      ) : active.loading ? (
+        <div className="flex items-center justify-center py-12 text-gray-400">
+          <Loader2 className="w-6 h-6 animate-spin" />
+        </div>
+      ) : active.rows.length === 0 ? (
+        <div className="text-center py-12 text-gray-400">No matches found.</div>
+      ) : tab === 'questions' ? (
+        <div className="space-y-3">
+          {questionRows.map(q => (
+            <div key={q.questionId} className="rounded-lg border bg-white p-4 shadow-sm">
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex-1 min-w-0 space-y-2">
+                  {breadcrumbs[q.quizId] && <Breadcrumb parts={breadcrumbs[q.quizId]} />}
+                  <div className="prose max-w-none"><MathMarkdown>{q.questionText || ''}</MathMarkdown></div>
+                  <div className="flex flex-wrap gap-2 text-sm">
+                    {optionKeys.filter(([, key]) => q[key]).map(([letter, key]) => (
+                      <span
+                        key={letter}
+                        className={`px-2 py-1 rounded ${q.correctAnswer === letter ? 'bg-green-100 text-green-700 font-semibold' : 'bg-gray-100 text-gray-700'}`}
+                      >
+                        ({letter}) <MathText text={q[key] || ''} />
+                      </span>
+                    ))}
+                  </div>
+                  <div className="text-xs text-gray-400">Language: {q.languageCode}</div>
+                </div>
+                {can('content.edit') && (
+                  <Button variant="secondary" size="sm" onClick={() => setEditQuestion(q)}>
+                    <Pencil className="w-4 h-4 mr-1" /> Edit
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {onelinerRows.map(q => (
+            <div key={q.id} className="rounded-lg border bg-white p-4 shadow-sm">
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex-1 min-w-0 space-y-2">
+                  {breadcrumbs[q.topic_id] && <Breadcrumb parts={breadcrumbs[q.topic_id]} />}
+                  <div className="prose max-w-none"><MathMarkdown>{q.question}</MathMarkdown></div>
+                  <div className="text-xs text-gray-400">Language: {q.language_code}</div>
+                </div>
+                <Button variant="secondary" size="sm" asChild>
+                  <Link to={`/gk-oneliner-questions/${q.topic_id}?language=${q.language_code}`}>
+                    Open topic <ArrowRight className="w-4 h-4" />
+                  </Link>
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {showResults && active.count > ROWS_PER_PAGE && (
+        <TablePagination page={active.page} pageCount={active.pageCount} onPageChange={active.setPage} disabled={active.loading} />
+      )}
+
+      <QuestionDialog
+        open={!!editQuestion}
+        onOpenChange={open => { if (!open) setEditQuestion(null); }}
+        onSubmit={handleDialogSubmit}
+        loading={editLoading}
+        initialValues={editQuestion ? toQuestionFormValues(editQuestion) : {}}
+        mode="edit"
+      />
+    </div>
+  );
+}
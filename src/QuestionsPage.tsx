@@ -1,9 +1,9 @@
-import React, { useEffect, useState, useRef, useMemo } from 'react';
+import React, { useCallback, useEffect, useState, useRef, useMemo } from 'react';
 import { supabase } from './supabaseClient';
 import toast, { Toaster } from 'react-hot-toast';
 import { useParams, useSearchParams } from 'react-router-dom';
 import { nanoid } from 'nanoid';
-import ReactMarkdown from 'react-markdown';
+import { v4 as uuidv4 } from 'uuid';
 import {
   Table,
   TableHeader,
@@ -12,10 +12,26 @@ import {
   TableRow,
   TableCell,
 } from './components/ui/table';
-import { Loader2, Trash2 } from 'lucide-react';
+import { History, Loader2, Sparkles, Trash2, Upload } from 'lucide-react';
 import QuestionDialog from './molecules/QuestionDialog';
 import type { QuestionForm } from './molecules/QuestionDialog';
+import QuestionImportDialog from './molecules/QuestionImportDialog';
+import QuestionExportMenu from './molecules/QuestionExportMenu';
+import QuestionHistorySheet from './molecules/QuestionHistorySheet';
+import MachineTranslateDialog from './molecules/MachineTranslateDialog';
 import { Button } from './components/ui/button';
+import { Input } from './components/ui/input';
+import SortableTableHead from './atoms/SortableTableHead';
+import MathMarkdown from './atoms/MathMarkdown';
+import MathText from './atoms/MathText';
+import TablePagination from './atoms/TablePagination';
+import { usePaginatedQuery, useFilterInput } from './hooks/usePaginatedQuery';
+import { normalizeQuestionValues, toQuestionFormValues } from './lib/questions';
+import { findDuplicateQuestions } from './lib/duplicates';
+import { fetchQuestionTranslation, saveQuestionTranslation } from './lib/translations';
+import { availableTranslationProviders } from './lib/translationProviders';
+import { softDelete } from './lib/recycleBin';
+import { useAuth } from './hooks/useAuth';
 
 // --- Types ---
 export type Question = {
@@ -33,10 +49,19 @@ export type Question = {
   languageCode: 'en' | 'hi';
   bookRef?: string | null;
   segmentCode?: string | null;
+  // Shared with the question's translation in the other language
+  translationGroupId?: string;
   created_at: string;
 };
 
 const ROWS_PER_PAGE = 10;
+const SORTABLE_COLUMNS = ['created_at', 'questionText', 'correctAnswer'] as const;
+const QUESTION_FILTERS = [
+  { param: 'q', column: 'questionText', op: 'ilike' },
+  { param: 'answer', column: 'correctAnswer', op: 'eq' },
+] as const;
+// Production builds have no providers until a translation service is configured
+const canMachineTranslate = availableTranslationProviders().length > 0;
 
 interface QuestionsPageProps {
   internalQuizKey?: string;
@@ -46,44 +71,57 @@ const QuestionsPage: React.FC<QuestionsPageProps> = ({ internalQuizKey: propQuiz
   const params = useParams<{ internalQuizKey: string }>();
   const [searchParams] = useSearchParams();
   const quizId = propQuizKey || params.internalQuizKey;
+  const { can } = useAuth();
   const bookRef = searchParams.get('bookRef') || '';
   const segmentCode = searchParams.get('segmentCode') || '';
   const languageCode = searchParams.get('lang') || 'en';
 
-  const [questions, setQuestions] = useState<Question[]>([]);
-  const [loading, setLoading] = useState(false);
   const [formLoading, setFormLoading] = useState(false);
   const [editId, setEditId] = useState<string | null>(null);
-  const [page, setPage] = useState(1);
   const [expandedRow, setExpandedRow] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
   const [deleteId, setDeleteId] = useState<string | null>(null);
   const [deleteLoading, setDeleteLoading] = useState(false);
   // Dialog state
   const [dialogOpen, setDialogOpen] = useState(false);
   const [dialogMode, setDialogMode] = useState<'add' | 'edit'>('add');
   const [dialogInitialValues, setDialogInitialValues] = useState<Partial<QuestionForm>>({});
+  const [editQuestion, setEditQuestion] = useState<Question | null>(null);
+  const [translationQuestion, setTranslationQuestion] = useState<Question | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const [importLoading, setImportLoading] = useState(false);
+  const [translateOpen, setTranslateOpen] = useState(false);
 
-  // --- Fetch Questions ---
-  const fetchQuestions = async () => {
-    if (!quizId) return;
-    setLoading(true);
-    const { data, error } = await supabase
-      .from('questions')
-      .select('*')
-      .eq('quizId', quizId)
-      .order('created_at', { ascending: false });
-    if (error) {
-      toast.error('Failed to fetch questions');
-    } else {
-      setQuestions((data as Question[]) || []);
-    }
-    setLoading(false);
-  };
+  // --- Fetch Questions (one page at a time, state synced to the URL) ---
+  const baseFilters = useMemo(() => [{ column: 'quizId', value: quizId || '' }], [quizId]);
+  const {
+    rows: questions,
+    count: totalQuestions,
+    loading,
+    error: fetchError,
+    page,
+    pageCount,
+    setPage,
+    sort,
+    toggleSort,
+    filterValues,
+    setFilter,
+    refetch: fetchQuestions,
+  } = usePaginatedQuery<Question>({
+    table: 'questions',
+    pageSize: ROWS_PER_PAGE,
+    defaultSort: { column: 'created_at', ascending: false },
+    sortableColumns: SORTABLE_COLUMNS,
+    filters: QUESTION_FILTERS,
+    baseFilters,
+    enabled: !!quizId,
+  });
+  const commitSearch = useCallback((value: string) => setFilter('q', value), [setFilter]);
+  const [searchInput, setSearchInput] = useFilterInput(filterValues.q, commitSearch);
 
   useEffect(() => {
-    fetchQuestions();
-    // eslint-disable-next-line
-  }, [quizId]);
+    if (fetchError) toast.error('Failed to fetch questions');
+  }, [fetchError]);
 
   // Update dialog initial values when languageCode changes
   useEffect(() => {
@@ -107,52 +145,60 @@ const QuestionsPage: React.FC<QuestionsPageProps> = ({ internalQuizKey: propQuiz
       languageCode: languageCode as 'en' | 'hi',
     });
     setEditId(null);
+    setEditQuestion(null);
+    setTranslationQuestion(null);
     setDialogOpen(true);
   };
 
-  const handleEdit = (q: Question) => {
+  const handleEdit = async (q: Question) => {
+    // Load the translation first so the side-by-side mode opens with it
+    let translation: Question | null = null;
+    try {
+      translation = await fetchQuestionTranslation(q);
+    } catch (error) {
+      toast.error('Failed to load translation: ' + (error as Error).message);
+    }
     setDialogMode('edit');
-    setDialogInitialValues({
-      questionType: q.questionType as 1 | 2, // Fix type error
-      correctAnswer: q.correctAnswer,
-      optionA: q.optionA,
-      optionB: q.optionB,
-      optionC: q.optionC || '',
-      optionD: q.optionD || '',
-      previouslyAskedIn: q.previouslyAskedIn || '',
-      languageCode: q.languageCode,
-      questionText: q.questionText,
-      noteText: q.noteText || '',
-    });
+    setDialogInitialValues(toQuestionFormValues(q));
     setEditId(q.questionId);
+    setEditQuestion(q);
+    setTranslationQuestion(translation);
     setDialogOpen(true);
   };
 
-  const handleDialogSubmit = async (values: QuestionForm) => {
+  // Build a `questions` row for this quiz from validated form values. created_at is only
+  // set on insert so edits keep the original creation date.
+  const toQuestionRow = (values: QuestionForm, questionId: string): Omit<Question, 'created_at'> => ({
+    ...normalizeQuestionValues(values),
+    questionId,
+    quizId: quizId!,
+    bookRef: bookRef || null,
+    segmentCode: segmentCode || null,
+    languageCode: values.languageCode || languageCode as 'en' | 'hi',
+  });
+
+  const handleDialogSubmit = async (values: QuestionForm, translation?: QuestionForm) => {
     setFormLoading(true);
     let error;
-    const now = new Date().toISOString();
-    const insertData: Question = {
-      ...values,
-      questionId: dialogMode === 'edit' && editId ? editId : nanoid(),
-      quizId: quizId!,
-      bookRef: bookRef || null,
-      segmentCode: segmentCode || null,
-      languageCode: values.languageCode || languageCode as 'en' | 'hi',
-      created_at: now,
-      optionC: values.questionType === 1 ? values.optionC || '' : null,
-      optionD: values.questionType === 1 ? values.optionD || '' : null,
-      optionA: values.questionType === 2 ? 'True' : values.optionA,
-      optionB: values.questionType === 2 ? 'False' : values.optionB,
-      correctAnswer: values.correctAnswer.toLowerCase() as 'a' | 'b' | 'c' | 'd',
-    };
+    let saved: Omit<Question, 'created_at'>;
     if (dialogMode === 'edit' && editId) {
-      const { error: updateError } = await supabase.from('questions').update(insertData).eq('questionId', editId);
+      saved = { ...toQuestionRow(values, editId), translationGroupId: editQuestion?.translationGroupId };
+      const { error: updateError } = await supabase.from('questions').update(saved).eq('questionId', editId);
       error = updateError;
     } else {
-      const { error: insertError } = await supabase.from('questions').insert([insertData]);
+      // The group id is needed up front when the translation is saved alongside
+      saved = { ...toQuestionRow(values, nanoid()), translationGroupId: uuidv4() };
+      const { error: insertError } = await supabase.from('questions').insert([{ ...saved, created_at: new Date().toISOString() }]);
       error = insertError;
     }
+    if (!error && translation && saved.translationGroupId) {
+      // The question is already saved, so report the failure without keeping the dialog open
+      try {
+        await saveQuestionTranslation(saved, normalizeQuestionValues(translation), translationQuestion?.questionId || null);
+      } catch (translationError) {
+        toast.error('Question saved, but the translation failed: ' + (translationError as Error).message);
+      }
+    }
     if (error) {
       toast.error(error.message);
     } else {
@@ -164,36 +210,67 @@ const QuestionsPage: React.FC<QuestionsPageProps> = ({ internalQuizKey: propQuiz
     setFormLoading(false);
   };
 
+  // Only new questions are checked; edits keep their existing wording
+  const checkDuplicates = (values: QuestionForm) =>
+    findDuplicateQuestions(normalizeQuestionValues(values), { quizId: quizId!, bookRef });
+
+  // --- Bulk import ---
+  const handleImport = async (values: QuestionForm[]) => {
+    if (!quizId) return;
+    setImportLoading(true);
+    const createdAt = new Date().toISOString();
+    const rows = values.map(v => ({ ...toQuestionRow(v, nanoid()), created_at: createdAt }));
+    // One transaction for the whole file, so a failure leaves nothing half-imported
+    const { data: inserted, error } = await supabase.rpc('import_questions', { p_rows: rows });
+    if (error) {
+      toast.error(`Import failed, no questions were added: ${error.message}`);
+    } else {
+      toast.success(`Imported ${inserted} question${inserted === 1 ? '' : 's'}`);
+      setImportOpen(false);
+      fetchQuestions();
+    }
+    setImportLoading(false);
+  };
+
   // --- Delete handler ---
   const handleDelete = async () => {
     if (!deleteId) return;
     setDeleteLoading(true);
-    const { error } = await supabase.from('questions').delete().eq('questionId', deleteId);
-    if (error) {
-      toast.error('Delete failed: ' + error.message);
-    } else {
-      toast.success('Question deleted');
+    try {
+      await softDelete('questions', [deleteId]);
+      toast.success('Question moved to the Recycle Bin');
       fetchQuestions();
+    } catch (error) {
+      toast.error('Delete failed: ' + (error as Error).message);
     }
     setDeleteLoading(false);
     setDeleteId(null);
   };
 
-  // --- Pagination ---
-  const paginatedQuestions = useMemo(() => {
-    const start = (page - 1) * ROWS_PER_PAGE;
-    return questions.slice(start, start + ROWS_PER_PAGE);
-  }, [questions, page]);
-
   return (
     <div className="relative ">
       <Toaster />
       <div className="flex items-center justify-between mb-4">
         <h2 className="text-2xl font-bold flex items-center gap-2">
           Questions
-          <span className="inline-flex items-center justify-center min-w-[28px] h-7 px-2 rounded-full bg-blue-500 text-white text-sm font-semibold">{questions.length}</span>
+          <span className="inline-flex items-center justify-center min-w-[28px] h-7 px-2 rounded-full bg-blue-500 text-white text-sm font-semibold">{totalQuestions}</span>
         </h2>
-        <Button onClick={handleAdd} className="px-6 py-2 font-semibold">+ Add Question</Button>
+        <div className="flex gap-2">
+          <QuestionExportMenu quizId={quizId} segmentCode={segmentCode} bookRef={bookRef} />
+          <Button variant="outline" onClick={() => setImportOpen(true)} disabled={!can('content.edit')} className="px-4 py-2 font-semibold">
+            <Upload className="w-4 h-4" /> Import
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setTranslateOpen(true)}
+            disabled={!can('content.edit') || !quizId || !canMachineTranslate}
+            title={canMachineTranslate ? undefined : 'No translation service is configured'}
+            className="px-4 py-2 font-semibold"
+          >
+            <Sparkles className="w-4 h-4" /> Translate
+          </Button>
+          <Button onClick={handleAdd} disabled={!can('content.edit')} className="px-6 py-2 font-semibold">+ Add Question</Button>
+        </div>
         <QuestionDialog
           open={dialogOpen}
           onOpenChange={setDialogOpen}
@@ -201,7 +278,37 @@ const QuestionsPage: React.FC<QuestionsPageProps> = ({ internalQuizKey: propQuiz
           loading={formLoading}
           initialValues={dialogInitialValues}
           mode={dialogMode}
+          checkDuplicates={dialogMode === 'add' ? checkDuplicates : undefined}
+          bilingual
+          translationValues={translationQuestion ? toQuestionFormValues(translationQuestion) : null}
         />
+        <QuestionImportDialog
+          open={importOpen}
+          onOpenChange={setImportOpen}
+          onImport={handleImport}
+          loading={importLoading}
+          languageCode={languageCode as 'en' | 'hi'}
+        />
+        {quizId && <MachineTranslateDialog open={translateOpen} onOpenChange={setTranslateOpen} quizId={quizId} />}
+      </div>
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <Input
+          placeholder="Search question text..."
+          value={searchInput}
+          onChange={e => setSearchInput(e.target.value)}
+          className="w-64 bg-white"
+        />
+        <select
+          className="border rounded-md px-3 py-1 h-9 bg-white"
+          value={filterValues.answer}
+          onChange={e => setFilter('answer', e.target.value)}
+        >
+          <option value="">All answers</option>
+          {['a', 'b', 'c', 'd'].map(opt => (
+            <option key={opt} value={opt}>Answer {opt.toUpperCase()}</option>
+          ))}
+        </select>
       </div>
       {/* Table */}
       <div className="w-full max-w-full overflow-x-auto rounded shadow border bg-white">
@@ -210,8 +317,8 @@ const QuestionsPage: React.FC<QuestionsPageProps> = ({ internalQuizKey: propQuiz
             <TableRow>
               <TableHead></TableHead>
               <TableHead>Question ID</TableHead>
-              <TableHead>Question</TableHead>
-              <TableHead>Correct Answer</TableHead>
+              <SortableTableHead column="questionText" sort={sort} onSort={toggleSort}>Question</SortableTableHead>
+              <SortableTableHead column="correctAnswer" sort={sort} onSort={toggleSort}>Correct Answer</SortableTableHead>
               <TableHead>Option A</TableHead>
               <TableHead>Option B</TableHead>
               <TableHead>Option C</TableHead>
@@ -226,12 +333,12 @@ const QuestionsPage: React.FC<QuestionsPageProps> = ({ internalQuizKey: propQuiz
                   <Loader2 className="mx-auto animate-spin w-6 h-6" />
                 </TableCell>
               </TableRow>
-            ) : paginatedQuestions.length === 0 ? (
+            ) : questions.length === 0 ? (
               <TableRow>
                 <TableCell colSpan={9} className="text-center py-8 text-gray-400">No questions found.</TableCell>
               </TableRow>
             ) : (
-              paginatedQuestions.flatMap((row, idx) => [
+              questions.flatMap((row, idx) => [
                 <TableRow key={row.questionId} className="cursor-pointer" onClick={() => setExpandedRow(expandedRow === row.questionId ? null : row.questionId)}>
                   <TableCell className="w-8 text-center">
                     <button
@@ -246,7 +353,7 @@ const QuestionsPage: React.FC<QuestionsPageProps> = ({ internalQuizKey: propQuiz
                   <TableCell>{(page - 1) * ROWS_PER_PAGE + idx + 1}</TableCell>
                   <TableCell>
                     <div className="max-w-[200px] overflow-hidden text-ellipsis whitespace-nowrap">
-                      <ReactMarkdown>{row.questionText || ''}</ReactMarkdown>
+                      <MathMarkdown>{row.questionText || ''}</MathMarkdown>
                     </div>
                   </TableCell>
                   <TableCell>
@@ -254,16 +361,20 @@ const QuestionsPage: React.FC<QuestionsPageProps> = ({ internalQuizKey: propQuiz
                       {row.correctAnswer}
                     </span>
                   </TableCell>
-                  <TableCell>{row.optionA}</TableCell>
-                  <TableCell>{row.optionB}</TableCell>
-                  <TableCell>{row.optionC || '-'}</TableCell>
-                  <TableCell>{row.optionD || '-'}</TableCell>
+                  <TableCell><MathText text={row.optionA} /></TableCell>
+                  <TableCell><MathText text={row.optionB} /></TableCell>
+                  <TableCell>{row.optionC ? <MathText text={row.optionC} /> : '-'}</TableCell>
+                  <TableCell>{row.optionD ? <MathText text={row.optionD} /> : '-'}</TableCell>
                   <TableCell>
                     <div className="flex gap-2">
-                      <Button variant="secondary" size="sm" onClick={e => { e.stopPropagation(); handleEdit(row); }}>Edit</Button>
-                      <Button variant="destructive" size="sm" onClick={e => { e.stopPropagation(); setDeleteId(row.questionId); }}>
-                        <Trash2 className="w-4 h-4 mr-1" /> Delete
-                      </Button>
+                      {can('content.edit') && (
+                        <Button variant="secondary" size="sm" onClick={e => { e.stopPropagation(); handleEdit(row); }}>Edit</Button>
+                      )}
+                      {can('content.delete') && (
+                        <Button variant="destructive" size="sm" onClick={e => { e.stopPropagation(); setDeleteId(row.questionId); }}>
+                          <Trash2 className="w-4 h-4 mr-1" /> Delete
+                        </Button>
+                      )}
                     </div>
                   </TableCell>
                 </TableRow>,
@@ -272,12 +383,12 @@ const QuestionsPage: React.FC<QuestionsPageProps> = ({ internalQuizKey: propQuiz
                     <TableCell colSpan={9} className="bg-gray-50">
                       <div className="mb-2">
                         <strong>Full Question:</strong>
-                        <div className="prose max-w-none"><ReactMarkdown>{row.questionText || ''}</ReactMarkdown></div>
+                        <div className="prose max-w-none"><MathMarkdown>{row.questionText || ''}</MathMarkdown></div>
                       </div>
                       {row.noteText && (
                         <div className="mb-2">
                           <strong>Note:</strong>
-                          <div className="prose max-w-none"><ReactMarkdown>{row.noteText}</ReactMarkdown></div>
+                          <div className="prose max-w-none"><MathMarkdown>{row.noteText}</MathMarkdown></div>
                         </div>
                       )}
                       {row.previouslyAskedIn && (
@@ -285,7 +396,12 @@ const QuestionsPage: React.FC<QuestionsPageProps> = ({ internalQuizKey: propQuiz
                           <strong>Previously Asked In:</strong> {row.previouslyAskedIn}
                         </div>
                       )}
-                      <div className="text-xs text-gray-400">Language: {row.languageCode}</div>
+                      <div className="flex items-center justify-between">
+                        <div className="text-xs text-gray-400">Language: {row.languageCode}</div>
+                        <Button variant="outline" size="sm" onClick={() => setHistoryId(row.questionId)}>
+                          <History className="w-4 h-4" /> History
+                        </Button>
+                      </div>
                     </TableCell>
                   </TableRow>
                 )
@@ -294,14 +410,13 @@ const QuestionsPage: React.FC<QuestionsPageProps> = ({ internalQuizKey: propQuiz
           </TableBody>
         </Table>
       </div>
+      <QuestionHistorySheet
+        questionId={historyId}
+        onOpenChange={open => { if (!open) setHistoryId(null); }}
+        onRestored={fetchQuestions}
+      />
       {/* Pagination */}
-      <div className="flex justify-end items-center gap-2 mt-4">
-        <Button variant="secondary" size="sm" onClick={() => setPage(p => Math.max(1, p - 1))} disabled={page === 1}>Prev</Button>
-        <span>
-          Page {page} of {Math.ceil(questions.length / ROWS_PER_PAGE)}
-        </span>
-        <Button variant="secondary" size="sm" onClick={() => setPage(p => (p * ROWS_PER_PAGE < questions.length ? p + 1 : p))} disabled={page * ROWS_PER_PAGE >= questions.length}>Next</Button>
-      </div>
+      <TablePagination page={page} pageCount={pageCount} onPageChange={setPage} disabled={loading} />
       {/* Delete Confirmation Dialog */}
       {deleteId && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-30">
@@ -309,7 +424,7 @@ const QuestionsPage: React.FC<QuestionsPageProps> = ({ internalQuizKey: propQuiz
             <div className="flex flex-col items-center text-center">
               <Trash2 className="w-12 h-12 text-red-500 mb-2" />
               <div className="text-lg font-semibold mb-2">Are you sure you want to delete this question?</div>
-              <div className="text-gray-500 mb-2">This action cannot be undone.</div>
+              <div className="text-gray-500 mb-2">It can be restored from the Recycle Bin for 30 days.</div>
             </div>
             <div className="flex justify-end gap-2 mt-4">
               <Button type="button" variant="secondary" onClick={() => setDeleteId(null)} disabled={deleteLoading}>
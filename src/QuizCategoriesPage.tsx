@@ -18,7 +18,15 @@ import { Button } from './components/ui/button';
 import { Input } from './components/ui/input';
 import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from './components/ui/table';
 import { v4 as uuidv4 } from 'uuid';
-import CategoryDeleteAlertDialog from './atoms/CategoryDeleteAlertDialog';
+import ScheduleNote from './atoms/ScheduleNote';
+import CascadeDeleteDialog from './molecules/CascadeDeleteDialog';
+import CloneDialog from './molecules/CloneDialog';
+import MoveDialog from './molecules/MoveDialog';
+import { useAuth } from './hooks/useAuth';
+import { fromDateTimeLocal, toDateTimeLocal, validateSchedule } from './lib/schedule';
+import type { CloneSource } from './lib/cloneTree';
+import type { CascadeSource } from './lib/cascadeDelete';
+import type { MoveSource } from './lib/hierarchyMoves';
 import {
   DndContext,
   closestCenter,
@@ -45,6 +53,8 @@ export type QuizCategory = {
   segmentCode: string;
   displayOrder: number;
   categoryStatus: number;
+  publishAt?: string | null;
+  expireAt?: string | null;
   questionVolume?: number | null;
   setCount?: number | null;
   languageCode: string;
@@ -74,6 +84,11 @@ const quizCategorySchema = z.object({
   languageCode: z.string().min(1, 'Language is required'),
   moduleCode: z.string().min(1),
   moduleTitle: z.string().min(1),
+  publishAt: z.string().optional(),
+  expireAt: z.string().optional(),
+}).superRefine((data, ctx) => {
+  const problem = validateSchedule(data.publishAt, data.expireAt, data.categoryStatus);
+  if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem.message, path: [problem.field] });
 });
 type QuizCategoryForm = z.infer<typeof quizCategorySchema>;
 
@@ -110,6 +125,7 @@ export default function QuizCategoriesPage() {
   const languageCode = searchParams.get('lang') || 'en';
   const bookRef = searchParams.get('bookRef') || '';
   const navigate = useNavigate();
+  const { can } = useAuth();
   const [categories, setCategories] = useState<QuizCategory[]>([]);
   const [sections, setSections] = useState<QuizSection[]>([]);
   const [loading, setLoading] = useState(false);
@@ -117,10 +133,9 @@ export default function QuizCategoriesPage() {
   const [formLoading, setFormLoading] = useState(false);
   const [selectedSection, setSelectedSection] = useState<QuizSection | null>(null);
   const [editId, setEditId] = useState<string | null>(null);
-  const [deleteId, setDeleteId] = useState<string | null>(null);
-  const [deleteLoading, setDeleteLoading] = useState(false);
-  const [showCategoryDeleteAlert, setShowCategoryDeleteAlert] = useState(false);
-  const [categoryDeleteAlertData, setCategoryDeleteAlertData] = useState<{ setCount: number; questionVolume: number; title: string } | null>(null);
+  const [deleteSource, setDeleteSource] = useState<CascadeSource | null>(null);
+  const [cloneSource, setCloneSource] = useState<CloneSource | null>(null);
+  const [moveSource, setMoveSource] = useState<MoveSource | null>(null);
 
   const {
     register,
@@ -188,6 +203,8 @@ export default function QuizCategoriesPage() {
     setFormLoading(true);
     const insertData = {
       ...values,
+      publishAt: fromDateTimeLocal(values.publishAt),
+      expireAt: fromDateTimeLocal(values.expireAt),
     };
     if (!editId) {
       // Only generate segmentCode for new category
@@ -220,53 +237,6 @@ export default function QuizCategoriesPage() {
     setFormLoading(false);
   };
 
-  // Delete category
-  const handleDelete = async () => {
-    if (!deleteId) return;
-    
-    // Find the category to get its data
-    const categoryToDelete = categories.find(category => category.id.toString() === deleteId);
-    if (!categoryToDelete) {
-      toast.error('Category not found');
-      setDeleteId(null);
-      return;
-    }
-
-    // Check if the category has any sets or questions
-    const hasSets = categoryToDelete.setCount && categoryToDelete.setCount > 0;
-    const hasQuestions = categoryToDelete.questionVolume && categoryToDelete.questionVolume > 0;
-
-    if (hasSets || hasQuestions) {
-      // Show custom alert dialog
-      setCategoryDeleteAlertData({
-        setCount: categoryToDelete.setCount || 0,
-        questionVolume: categoryToDelete.questionVolume || 0,
-        title: categoryToDelete.segmentTitle
-      });
-      setShowCategoryDeleteAlert(true);
-      setDeleteId(null);
-      return;
-    }
-
-    setDeleteLoading(true);
-    
-    try {
-      // Proceed with deletion since no sets or questions exist
-      const { error } = await supabase.from('quiz_categories').delete().eq('id', deleteId);
-      if (error) {
-        toast.error('Delete failed');
-      } else {
-        toast.success('Category deleted');
-        fetchCategories();
-      }
-    } catch (error) {
-      toast.error('An unexpected error occurred');
-    }
-    
-    setDeleteLoading(false);
-    setDeleteId(null);
-  };
-
   // Get moduleTitle for heading
   const moduleTitle = selectedSection?.moduleTitle || sections[0]?.moduleTitle || moduleCode;
 
@@ -276,7 +246,7 @@ export default function QuizCategoriesPage() {
 
   const handleDragEnd = async (event: any) => {
     const { active, over } = event;
-    if (!over || active.id === over.id) return;
+    if (!over || active.id === over.id || !can('content.edit')) return;
     const oldIndex = categories.findIndex(c => c.id === active.id);
     const newIndex = categories.findIndex(c => c.id === over.id);
     const newCategories = arrayMove(categories, oldIndex, newIndex);
@@ -303,6 +273,7 @@ export default function QuizCategoriesPage() {
         <Dialog open={open} onOpenChange={setOpen}>
           <DialogTrigger asChild>
             <Button
+              disabled={!can('content.edit')}
               onClick={() => {
                 // Reset and set default section
                 if (sections.length > 0) {
@@ -313,6 +284,8 @@ export default function QuizCategoriesPage() {
                     languageCode: languageCode,
                     moduleCode: sections[0].moduleCode,
                     moduleTitle: sections[0].moduleTitle,
+                    publishAt: '',
+                    expireAt: '',
                   });
                   setSelectedSection(sections[0]);
                 } else {
@@ -350,6 +323,18 @@ export default function QuizCategoriesPage() {
                 </select>
                 {errors.categoryStatus && <p className="text-red-500 text-xs mt-1">{errors.categoryStatus.message}</p>}
               </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block mb-1 font-medium text-gray-700">Go live at</label>
+                  <Input type="datetime-local" {...register('publishAt')} />
+                  {errors.publishAt && <p className="text-red-500 text-xs mt-1">{errors.publishAt.message}</p>}
+                </div>
+                <div>
+                  <label className="block mb-1 font-medium text-gray-700">Expire at</label>
+                  <Input type="datetime-local" {...register('expireAt')} />
+                  {errors.expireAt && <p className="text-red-500 text-xs mt-1">{errors.expireAt.message}</p>}
+                </div>
+              </div>
               <div>
                 <label className="block mb-1 font-medium text-gray-700">Language</label>
                 <select className="w-full border-2 rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-400 transition" {...register('languageCode')}>
@@ -419,28 +404,65 @@ export default function QuizCategoriesPage() {
                         <span className={`px-2 py-1 rounded text-xs font-semibold ${category.categoryStatus === 1 ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-700'}`}>
                           {categoryStatusOptions.find(opt => opt.value === category.categoryStatus)?.label || category.categoryStatus}
                         </span>
+                        <ScheduleNote publishAt={category.publishAt} expireAt={category.expireAt} />
                       </TableCell>
                       <TableCell>{category.questionVolume ?? '-'}</TableCell>
                       <TableCell>{category.setCount ?? '-'}</TableCell>
                       <TableCell>
                         <div className="flex gap-2">
-                          <Button variant="secondary" size="sm" onClick={() => {
-                            setEditId(category.id.toString());
-                            reset({
-                              segmentTitle: category.segmentTitle,
-                              displayOrder: category.displayOrder,
-                              categoryStatus: category.categoryStatus,
-                              languageCode: category.languageCode,
-                              moduleCode: category.moduleCode,
-                              moduleTitle: category.moduleTitle,
-                            });
-                            setOpen(true);
-                          }}>
-                            Edit
-                          </Button>
-                          <Button variant="destructive" size="sm" onClick={() => setDeleteId(category.id.toString())}>
-                            Delete
-                          </Button>
+                          {can('content.edit') && (
+                            <Button variant="secondary" size="sm" onClick={() => {
+                              setEditId(category.id.toString());
+                              reset({
+                                segmentTitle: category.segmentTitle,
+                                displayOrder: category.displayOrder,
+                                categoryStatus: category.categoryStatus,
+                                languageCode: category.languageCode,
+                                moduleCode: category.moduleCode,
+                                moduleTitle: category.moduleTitle,
+                                publishAt: toDateTimeLocal(category.publishAt),
+                                expireAt: toDateTimeLocal(category.expireAt),
+                              });
+                              setOpen(true);
+                            }}>
+                              Edit
+                            </Button>
+                          )}
+                          {can('content.edit') && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setCloneSource({
+                                level: 'category',
+                                key: category.segmentCode,
+                                title: category.segmentTitle,
+                                languageCode: category.languageCode,
+                                parentKey: category.moduleCode,
+                              })}
+                            >
+                              Clone
+                            </Button>
+                          )}
+                          {can('content.edit') && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setMoveSource({
+                                level: 'category',
+                                key: category.segmentCode,
+                                title: category.segmentTitle,
+                                languageCode: category.languageCode,
+                                parentKey: category.moduleCode,
+                              })}
+                            >
+                              Move
+                            </Button>
+                          )}
+                          {can('content.delete') && (
+                            <Button variant="destructive" size="sm" onClick={() => setDeleteSource({ level: 'category', key: category.segmentCode, title: category.segmentTitle })}>
+                              Delete
+                            </Button>
+                          )}
                         </div>
                       </TableCell>
                     </SortableRow>
@@ -451,31 +473,22 @@ export default function QuizCategoriesPage() {
           </DndContext>
         </Table>
       </div>
-      {/* Delete Confirmation Dialog */}
-      <Dialog open={!!deleteId} onOpenChange={open => { if (!open) setDeleteId(null); }}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Confirm Delete</DialogTitle>
-          </DialogHeader>
-          <div className="mb-4">Are you sure you want to delete this category?</div>
-          <DialogFooter>
-            <DialogClose asChild>
-              <Button type="button" variant="secondary" onClick={() => setDeleteId(null)} disabled={deleteLoading}>
-                Cancel
-              </Button>
-            </DialogClose>
-            <Button type="button" variant="destructive" onClick={handleDelete} disabled={deleteLoading}>
-              {deleteLoading ? 'Deleting...' : 'Delete'}
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      <CloneDialog
+        source={cloneSource}
+        onOpenChange={open => { if (!open) setCloneSource(null); }}
+        onCloned={fetchCategories}
+      />
+
+      <CascadeDeleteDialog
+        source={deleteSource}
+        onOpenChange={open => { if (!open) setDeleteSource(null); }}
+        onDeleted={fetchCategories}
+      />
 
-      {/* Category Delete Alert Dialog */}
-      <CategoryDeleteAlertDialog
-        isOpen={showCategoryDeleteAlert}
-        onClose={() => setShowCategoryDeleteAlert(false)}
-        data={categoryDeleteAlertData}
+      <MoveDialog
+        source={moveSource}
+        onOpenChange={open => { if (!open) setMoveSource(null); }}
+        onMoved={fetchCategories}
       />
     </div>
   );
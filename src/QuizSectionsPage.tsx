@@ -18,7 +18,16 @@ import { Button } from './components/ui/button';
 import { Input } from './components/ui/input';
 import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from './components/ui/table';
 import { v4 as uuidv4 } from 'uuid';
-import SetAlertDialog from './atoms/SetAlertDialog';
+import ScheduleNote from './atoms/ScheduleNote';
+import CascadeDeleteDialog from './molecules/CascadeDeleteDialog';
+import CloneDialog from './molecules/CloneDialog';
+import MoveDialog from './molecules/MoveDialog';
+import MediaUploader from './molecules/MediaUploader';
+import { useAuth } from './hooks/useAuth';
+import { fromDateTimeLocal, toDateTimeLocal, validateSchedule } from './lib/schedule';
+import type { CloneSource } from './lib/cloneTree';
+import type { CascadeSource } from './lib/cascadeDelete';
+import type { MoveSource } from './lib/hierarchyMoves';
 import {
   DndContext,
   closestCenter,
@@ -44,6 +53,8 @@ export type QuizSection = {
   moduleTitle: string;
   sectionStatus: number;
   liveTimestamp: string | null;
+  publishAt: string | null;
+  expireAt: string | null;
   displayOrder: number;
   questionVolume: number | null;
   iconLink: string | null;
@@ -65,6 +76,11 @@ const quizSectionSchema = z.object({
   iconLink: z.string().min(1, 'Icon Link is required').url('Icon must be a valid URL'),
   bookRef: z.string().min(1, 'Book Ref is required'),
   languageCode: z.string().min(1, 'Language Code is required'),
+  publishAt: z.string().optional(),
+  expireAt: z.string().optional(),
+}).superRefine((data, ctx) => {
+  const problem = validateSchedule(data.publishAt, data.expireAt, data.sectionStatus);
+  if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem.message, path: [problem.field] });
 });
 type QuizSectionForm = z.infer<typeof quizSectionSchema>;
 
@@ -101,11 +117,11 @@ export default function QuizSectionsPage({ bookId: propBookId }: { bookId?: stri
   const [loading, setLoading] = useState(false);
   const [open, setOpen] = useState(false);
   const [editId, setEditId] = useState<number | null>(null);
-  const [deleteId, setDeleteId] = useState<number | null>(null);
-  const [deleteLoading, setDeleteLoading] = useState(false);
-  const [showSetAlert, setShowSetAlert] = useState(false);
-  const [setAlertData, setSetAlertData] = useState<{ setCount: number; title: string } | null>(null);
+  const [deleteSource, setDeleteSource] = useState<CascadeSource | null>(null);
+  const [cloneSource, setCloneSource] = useState<CloneSource | null>(null);
+  const [moveSource, setMoveSource] = useState<MoveSource | null>(null);
   const navigate = useNavigate();
+  const { can } = useAuth();
   const [language, setLanguage] = useState<string>(() => {
     // Initialize from localStorage if available
     return localStorage.getItem('quiz-section-language') || 'hi';
@@ -116,6 +132,7 @@ export default function QuizSectionsPage({ bookId: propBookId }: { bookId?: stri
     handleSubmit,
     reset,
     setValue,
+    watch,
     formState: { errors },
   } = useForm<QuizSectionForm>({
     resolver: zodResolver(quizSectionSchema),
@@ -149,16 +166,22 @@ export default function QuizSectionsPage({ bookId: propBookId }: { bookId?: stri
     setLoading(true);
 
     let result;
-    
+    const sectionValues = {
+      ...values,
+      publishAt: fromDateTimeLocal(values.publishAt),
+      expireAt: fromDateTimeLocal(values.expireAt),
+    };
+
     if (editId) {
       // Don't update moduleCode on edit
-      const { moduleCode, ...updateValues } = values;
+      const { moduleCode, ...updateValues } = sectionValues;
       result = await supabase.from('quiz_sections').update(updateValues).eq('id', editId);
     } else {
-      // Add liveTimestamp only when creating new section
+      // Stamp liveTimestamp only when the section goes live right away; scheduled sections
+      // are stamped by the scheduler when they go live
       const newSectionData = {
-        ...values,
-        liveTimestamp: new Date().toISOString()
+        ...sectionValues,
+        liveTimestamp: values.sectionStatus === 1 ? new Date().toISOString() : null,
       };
       result = await supabase.from('quiz_sections').insert([newSectionData]);
     }
@@ -179,53 +202,12 @@ export default function QuizSectionsPage({ bookId: propBookId }: { bookId?: stri
     reset({
       ...section,
       iconLink: section.iconLink || '', // Convert null to empty string for form
+      publishAt: toDateTimeLocal(section.publishAt),
+      expireAt: toDateTimeLocal(section.expireAt),
     });
     setOpen(true);
   };
 
-  // Delete handler
-  const handleDelete = async () => {
-    if (deleteId == null) return;
-    
-    // Find the section to get its data
-    const sectionToDelete = sections.find(section => section.id === deleteId);
-    if (!sectionToDelete) {
-      toast.error('Section not found');
-      setDeleteId(null);
-      return;
-    }
-
-    // Check if the section has any sets
-    if (sectionToDelete.setCount && sectionToDelete.setCount > 0) {
-      // Show custom alert dialog
-      setSetAlertData({
-        setCount: sectionToDelete.setCount,
-        title: sectionToDelete.moduleTitle
-      });
-      setShowSetAlert(true);
-      setDeleteId(null);
-      return;
-    }
-
-    setDeleteLoading(true);
-    
-    try {
-      // Proceed with deletion since no sets exist
-      const { error } = await supabase.from('quiz_sections').delete().eq('id', deleteId);
-      if (error) {
-        toast.error('Delete failed');
-      } else {
-        toast.success('Section deleted');
-        fetchSections();
-      }
-    } catch (error) {
-      toast.error('An unexpected error occurred');
-    }
-    
-    setDeleteLoading(false);
-    setDeleteId(null);
-  };
-
   // Modal close handler
   const handleClose = () => {
     setOpen(false);
@@ -239,7 +221,7 @@ export default function QuizSectionsPage({ bookId: propBookId }: { bookId?: stri
 
   const handleDragEnd = async (event: any) => {
     const { active, over } = event;
-    if (!over || active.id === over.id) return;
+    if (!over || active.id === over.id || !can('content.edit')) return;
     const oldIndex = sections.findIndex(s => s.id === active.id);
     const newIndex = sections.findIndex(s => s.id === over.id);
     const newSections = arrayMove(sections, oldIndex, newIndex);
@@ -280,6 +262,7 @@ export default function QuizSectionsPage({ bookId: propBookId }: { bookId?: stri
         <Dialog open={open} onOpenChange={setOpen}>
           <DialogTrigger asChild>
             <Button
+              disabled={!can('content.edit')}
               onClick={() => {
                 setEditId(null);
                 reset({
@@ -290,6 +273,8 @@ export default function QuizSectionsPage({ bookId: propBookId }: { bookId?: stri
                   iconLink: '',
                   bookRef: bookId || '',
                   languageCode: language,
+                  publishAt: '',
+                  expireAt: '',
                 });
               }}
               className="px-6 py-2 font-semibold"
@@ -317,6 +302,18 @@ export default function QuizSectionsPage({ bookId: propBookId }: { bookId?: stri
                 </select>
                 {errors.sectionStatus && <p className="text-red-500 text-xs mt-1">{errors.sectionStatus.message}</p>}
               </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block mb-1 font-medium text-gray-700">Go live at</label>
+                  <Input type="datetime-local" {...register('publishAt')} />
+                  {errors.publishAt && <p className="text-red-500 text-xs mt-1">{errors.publishAt.message}</p>}
+                </div>
+                <div>
+                  <label className="block mb-1 font-medium text-gray-700">Expire at</label>
+                  <Input type="datetime-local" {...register('expireAt')} />
+                  {errors.expireAt && <p className="text-red-500 text-xs mt-1">{errors.expireAt.message}</p>}
+                </div>
+              </div>
 
               <div>
                 <label className="block mb-1 font-medium text-gray-700">Display Order</label>
@@ -324,8 +321,12 @@ export default function QuizSectionsPage({ bookId: propBookId }: { bookId?: stri
                 {errors.displayOrder && <p className="text-red-500 text-xs mt-1">{errors.displayOrder.message}</p>}
               </div>
               <div>
-                <label className="block mb-1 font-medium text-gray-700">Icon Link <span className="text-red-500">*</span></label>
-                <Input {...register('iconLink')} placeholder="Enter icon URL" />
+                <label className="block mb-1 font-medium text-gray-700">Icon <span className="text-red-500">*</span></label>
+                <MediaUploader
+                  value={watch('iconLink') || ''}
+                  onChange={url => setValue('iconLink', url, { shouldValidate: true })}
+                  folder="sections"
+                />
                 {errors.iconLink && <p className="text-red-500 text-xs mt-1">{errors.iconLink.message}</p>}
               </div>
               <div>
@@ -405,17 +406,52 @@ export default function QuizSectionsPage({ bookId: propBookId }: { bookId?: stri
                         )}
                       </TableCell>
                       <TableCell>{section.moduleTitle}</TableCell>
-                      <TableCell>{sectionStatusOptions.find(opt => opt.value === section.sectionStatus)?.label || section.sectionStatus}</TableCell>
+                      <TableCell>
+                        {sectionStatusOptions.find(opt => opt.value === section.sectionStatus)?.label || section.sectionStatus}
+                        <ScheduleNote publishAt={section.publishAt} expireAt={section.expireAt} />
+                      </TableCell>
                       <TableCell>{section.displayOrder}</TableCell>
                       <TableCell>{section.setCount || 0}</TableCell>
                       <TableCell>
                         <div className="flex gap-2">
-                          <Button variant="secondary" onClick={() => handleEdit(section)}>
-                            Edit
-                          </Button>
-                          <Button variant="destructive" onClick={() => setDeleteId(section.id)}>
-                            Delete
-                          </Button>
+                          {can('content.edit') && (
+                            <Button variant="secondary" onClick={() => handleEdit(section)}>
+                              Edit
+                            </Button>
+                          )}
+                          {can('content.edit') && (
+                            <Button
+                              variant="outline"
+                              onClick={() => setCloneSource({
+                                level: 'section',
+                                key: section.moduleCode,
+                                title: section.moduleTitle,
+                                languageCode: section.languageCode,
+                                parentKey: section.bookRef,
+                              })}
+                            >
+                              Clone
+                            </Button>
+                          )}
+                          {can('content.edit') && (
+                            <Button
+                              variant="outline"
+                              onClick={() => setMoveSource({
+                                level: 'section',
+                                key: section.moduleCode,
+                                title: section.moduleTitle,
+                                languageCode: section.languageCode,
+                                parentKey: section.bookRef,
+                              })}
+                            >
+                              Move
+                            </Button>
+                          )}
+                          {can('content.delete') && (
+                            <Button variant="destructive" onClick={() => setDeleteSource({ level: 'section', key: section.moduleCode, title: section.moduleTitle })}>
+                              Delete
+                            </Button>
+                          )}
                         </div>
                       </TableCell>
                     </SortableRow>
@@ -426,31 +462,22 @@ export default function QuizSectionsPage({ bookId: propBookId }: { bookId?: stri
           </DndContext>
         </Table>
       </div>
-      {/* Delete Confirmation Dialog */}
-      <Dialog open={deleteId !== null} onOpenChange={open => { if (!open) setDeleteId(null); }}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Confirm Delete</DialogTitle>
-          </DialogHeader>
-          <div className="mb-4">Are you sure you want to delete this section?</div>
-          <DialogFooter>
-            <DialogClose asChild>
-              <Button type="button" variant="secondary" onClick={() => setDeleteId(null)} disabled={deleteLoading}>
-                Cancel
-              </Button>
-            </DialogClose>
-            <Button type="button" variant="destructive" onClick={handleDelete} disabled={deleteLoading}>
-              {deleteLoading ? 'Deleting...' : 'Delete'}
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      <CloneDialog
+        source={cloneSource}
+        onOpenChange={open => { if (!open) setCloneSource(null); }}
+        onCloned={() => fetchSections()}
+      />
+
+      <CascadeDeleteDialog
+        source={deleteSource}
+        onOpenChange={open => { if (!open) setDeleteSource(null); }}
+        onDeleted={() => fetchSections()}
+      />
 
-      {/* Set Alert Dialog */}
-      <SetAlertDialog
-        isOpen={showSetAlert}
-        onClose={() => setShowSetAlert(false)}
-        data={setAlertData}
+      <MoveDialog
+        source={moveSource}
+        onOpenChange={open => { if (!open) setMoveSource(null); }}
+        onMoved={() => fetchSections()}
       />
     </div>
   );
@@ -24,9 +24,19 @@ import {
   TableRow,
   TableCell,
 } from './components/ui/table';
-import { Loader2, Plus, Pencil, Image as ImageIcon, Trash2 } from 'lucide-react';
+import { Loader2, Plus, Pencil, Image as ImageIcon, Trash2, Copy, FolderInput } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
-import QuizDeleteAlertDialog from './atoms/QuizDeleteAlertDialog';
+import ScheduleNote from './atoms/ScheduleNote';
+import QuizWorkflowDialog from './molecules/QuizWorkflowDialog';
+import CascadeDeleteDialog from './molecules/CascadeDeleteDialog';
+import CloneDialog from './molecules/CloneDialog';
+import MoveDialog from './molecules/MoveDialog';
+import MediaUploader from './molecules/MediaUploader';
+import { useAuth } from './hooks/useAuth';
+import { WORKFLOW_LABELS, WORKFLOW_STYLES, type WorkflowState } from './lib/quizWorkflow';
+import type { CloneSource } from './lib/cloneTree';
+import type { CascadeSource } from './lib/cascadeDelete';
+import { moveHierarchyItem, type MoveSource } from './lib/hierarchyMoves';
 import {
   DndContext,
   closestCenter,
@@ -47,9 +57,13 @@ import { GripVertical } from 'lucide-react';
 export type Quiz = {
   internalQuizKey: string;
   quizTitle: string;
-  quizStatus: number; // 1 = Live, 0 = Draft
+  quizStatus: number; // 1 = Live, 0 = not live; kept in sync with workflowState by the database
+  workflowState: WorkflowState;
+  reviewerId?: string | null;
+  publishAt?: string | null;
+  expireAt?: string | null;
   languageCode: string; // 'en' | 'hi'
-  coverImageLink: string;
+  coverImageLink: string | null;
   segmentCode: string;
   segmentRef: string;
   segmentTitle?: string;
@@ -63,11 +77,6 @@ export type QuizCategory = {
   segmentTitle: string;
 };
 
-const quizStatusOptions = [
-  { label: 'Live', value: 1 },
-  { label: 'Draft', value: 0 },
-];
-
 const languageOptions = [
   { label: 'English', value: 'en' },
   { label: 'Hindi', value: 'hi' },
@@ -75,10 +84,10 @@ const languageOptions = [
 
 const quizSchema = z.object({
   quizTitle: z.string().min(1, 'Quiz Title is required'),
-  quizStatus: z.coerce.number().int().min(0).max(1),
   languageCode: z.string().min(1, 'Language is required'),
   segmentRef: z.string().min(1, 'Segment is required'), // stores segmentCode
   displayOrder: z.coerce.number().int().min(1, 'Display Order must be at least 1'),
+  coverImageLink: z.union([z.literal(''), z.string().url('Cover must be a valid URL')]),
 });
 type QuizForm = z.infer<typeof quizSchema>;
 
@@ -120,6 +129,7 @@ const QuizzesPage: React.FC<QuizzesPageProps> = ({ segmentCode: propSegmentCode
   const segmentCodeParam = searchParams.get('segmentCode') || segmentCode;
   const languageCode = searchParams.get('lang') || 'en';
   const navigate = useNavigate();
+  const { can } = useAuth();
 
   const [quizzes, setQuizzes] = useState<Quiz[]>([]);
   const [segments, setSegments] = useState<QuizCategory[]>([]);
@@ -127,10 +137,10 @@ const QuizzesPage: React.FC<QuizzesPageProps> = ({ segmentCode: propSegmentCode
   const [open, setOpen] = useState(false);
   const [formLoading, setFormLoading] = useState(false);
   const [editId, setEditId] = useState<string | null>(null);
-  const [deleteId, setDeleteId] = useState<string | null>(null);
-  const [deleteLoading, setDeleteLoading] = useState(false);
-  const [showQuizDeleteAlert, setShowQuizDeleteAlert] = useState(false);
-  const [quizDeleteAlertData, setQuizDeleteAlertData] = useState<{ questionVolume: number; title: string } | null>(null);
+  const [deleteSource, setDeleteSource] = useState<CascadeSource | null>(null);
+  const [workflowQuizId, setWorkflowQuizId] = useState<string | null>(null);
+  const [cloneSource, setCloneSource] = useState<CloneSource | null>(null);
+  const [moveSource, setMoveSource] = useState<MoveSource | null>(null);
 
   const {
     register,
@@ -142,11 +152,11 @@ const QuizzesPage: React.FC<QuizzesPageProps> = ({ segmentCode: propSegmentCode
   } = useForm<QuizForm>({
     resolver: zodResolver(quizSchema),
     defaultValues: {
-      quizStatus: 1,
       languageCode: languageCode,
       quizTitle: '',
       segmentRef: '',
       displayOrder: 1,
+      coverImageLink: '',
     },
   });
 
@@ -203,29 +213,38 @@ const QuizzesPage: React.FC<QuizzesPageProps> = ({ segmentCode: propSegmentCode
     let error;
     if (editId) {
       // Update
+      const current = quizzes.find(q => q.internalQuizKey === editId);
       const { error: updateError } = await supabase
         .from('quizzes')
         .update({
           quizTitle: values.quizTitle,
-          quizStatus: values.quizStatus,
           languageCode: values.languageCode,
-          segmentCode: values.segmentRef,
-          segmentTitle,
           displayOrder: values.displayOrder,
+          coverImageLink: values.coverImageLink || null,
         })
         .eq('internalQuizKey', editId);
       error = updateError;
+      // A new segment is a move: questions follow the quiz and both lists are renumbered
+      if (!error && current && values.segmentRef !== current.segmentCode) {
+        try {
+          await moveHierarchyItem('quiz', editId, values.segmentRef);
+        } catch (moveError) {
+          error = moveError as Error;
+        }
+      }
     } else {
       // Insert
       const { error: insertError } = await supabase
         .from('quizzes')
         .insert([{ 
           quizTitle: values.quizTitle,
-          quizStatus: values.quizStatus,
+          // New quizzes always start as drafts; publishing goes through the review workflow
+          workflowState: 'draft',
           languageCode: values.languageCode,
           segmentCode: values.segmentRef,
           segmentTitle,
           displayOrder: values.displayOrder,
+          coverImageLink: values.coverImageLink || null,
           internalQuizKey: uuidv4(),
         }]);
       error = insertError;
@@ -247,10 +266,10 @@ const QuizzesPage: React.FC<QuizzesPageProps> = ({ segmentCode: propSegmentCode
     setEditId(quiz.internalQuizKey);
     reset({
       quizTitle: quiz.quizTitle,
-      quizStatus: quiz.quizStatus,
       languageCode: quiz.languageCode,
       segmentRef: quiz.segmentCode,
       displayOrder: quiz.displayOrder,
+      coverImageLink: quiz.coverImageLink || '',
     });
     setOpen(true);
   };
@@ -260,56 +279,13 @@ const QuizzesPage: React.FC<QuizzesPageProps> = ({ segmentCode: propSegmentCode
     [segments, watch('segmentRef')]
   );
 
-  // Delete quiz
-  const handleDelete = async () => {
-    if (!deleteId) return;
-    
-    // Find the quiz to get its data
-    const quizToDelete = quizzes.find(quiz => quiz.internalQuizKey === deleteId);
-    if (!quizToDelete) {
-      toast.error('Quiz not found');
-      setDeleteId(null);
-      return;
-    }
-
-    // Check if the quiz has any questions
-    if (quizToDelete.questionVolume && quizToDelete.questionVolume > 0) {
-      // Show custom alert dialog
-      setQuizDeleteAlertData({
-        questionVolume: quizToDelete.questionVolume,
-        title: quizToDelete.quizTitle
-      });
-      setShowQuizDeleteAlert(true);
-      setDeleteId(null);
-      return;
-    }
-
-    setDeleteLoading(true);
-    
-    try {
-      // Proceed with deletion since no questions exist
-      const { error } = await supabase.from('quizzes').delete().eq('internalQuizKey', deleteId);
-      if (error) {
-        toast.error('Delete failed');
-      } else {
-        toast.success('Quiz deleted');
-        fetchQuizzes();
-      }
-    } catch (error) {
-      toast.error('An unexpected error occurred');
-    }
-    
-    setDeleteLoading(false);
-    setDeleteId(null);
-  };
-
   const sensors = useSensors(
     useSensor(PointerSensor, { activationConstraint: { distance: 5 } })
   );
 
   const handleDragEnd = async (event: any) => {
     const { active, over } = event;
-    if (!over || active.id === over.id) return;
+    if (!over || active.id === over.id || !can('content.edit')) return;
     const oldIndex = quizzes.findIndex(q => q.internalQuizKey === active.id);
     const newIndex = quizzes.findIndex(q => q.internalQuizKey === over.id);
     const newQuizzes = arrayMove(quizzes, oldIndex, newIndex);
@@ -336,13 +312,14 @@ const QuizzesPage: React.FC<QuizzesPageProps> = ({ segmentCode: propSegmentCode
         <Dialog open={open} onOpenChange={setOpen}>
           <DialogTrigger asChild>
             <Button
+              disabled={!can('content.edit')}
               onClick={() => {
                 reset({
                   quizTitle: '',
-                  quizStatus: 1,
                   languageCode: languageCode,
                   segmentRef: segmentCode || '',
                   displayOrder: quizzes.length + 1,
+                  coverImageLink: '',
                 });
                 setEditId(null);
               }}
@@ -371,15 +348,6 @@ const QuizzesPage: React.FC<QuizzesPageProps> = ({ segmentCode: propSegmentCode
                 />
                 {errors.displayOrder && <p className="text-red-500 text-xs mt-1">{errors.displayOrder.message}</p>}
               </div>
-              <div>
-                <label className="block mb-1 font-medium text-gray-700">Quiz Status</label>
-                <select className="w-full border-2 rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-400 transition" {...register('quizStatus', { valueAsNumber: true })}>
-                  {quizStatusOptions.map(opt => (
-                    <option key={opt.value} value={opt.value}>{opt.label}</option>
-                  ))}
-                </select>
-                {errors.quizStatus && <p className="text-red-500 text-xs mt-1">{errors.quizStatus.message}</p>}
-              </div>
               <div>
                 <label className="block mb-1 font-medium text-gray-700">Language</label>
                 <select className="w-full border-2 rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-400 transition" {...register('languageCode')}>
@@ -399,6 +367,16 @@ const QuizzesPage: React.FC<QuizzesPageProps> = ({ segmentCode: propSegmentCode
                 </select>
                 {errors.segmentRef && <p className="text-red-500 text-xs mt-1">{errors.segmentRef.message}</p>}
               </div>
+              <div>
+                <label className="block mb-1 font-medium text-gray-700">Cover Image</label>
+                <MediaUploader
+                  value={watch('coverImageLink') || ''}
+                  onChange={url => setValue('coverImageLink', url, { shouldValidate: true })}
+                  folder="quizzes"
+                  disabled={formLoading}
+                />
+                {errors.coverImageLink && <p className="text-red-500 text-xs mt-1">{errors.coverImageLink.message}</p>}
+              </div>
               <DialogFooter>
                 <DialogClose asChild>
                   <Button type="button" variant="secondary" onClick={() => { setOpen(false); setEditId(null); }} disabled={formLoading}>
@@ -454,22 +432,69 @@ const QuizzesPage: React.FC<QuizzesPageProps> = ({ segmentCode: propSegmentCode
                         className="text-blue-600 hover:underline cursor-pointer font-medium"
                         onClick={() => navigate(`/questions/${quiz.internalQuizKey}?bookRef=${bookRef}&segmentCode=${segmentCodeParam}&lang=${quiz.languageCode}`)}
                       >
-                        {quiz.quizTitle}
+                        <span className="inline-flex items-center gap-2">
+                          {quiz.coverImageLink ? (
+                            <img src={quiz.coverImageLink} alt="" className="w-8 h-8 object-cover rounded border" />
+                          ) : (
+                            <ImageIcon className="w-8 h-8 p-1.5 text-gray-300 rounded border" />
+                          )}
+                          {quiz.quizTitle}
+                        </span>
                       </TableCell>
                       <TableCell>
-                        <span className={`px-2 py-1 rounded text-xs font-semibold ${quiz.quizStatus === 1 ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-700'}`}>
-                          {quizStatusOptions.find(opt => opt.value === quiz.quizStatus)?.label || quiz.quizStatus}
-                        </span>
+                        <button
+                          type="button"
+                          className={`px-2 py-1 rounded text-xs font-semibold hover:ring-2 hover:ring-blue-300 ${WORKFLOW_STYLES[quiz.workflowState]}`}
+                          onClick={() => setWorkflowQuizId(quiz.internalQuizKey)}
+                          title="Open review workflow"
+                        >
+                          {WORKFLOW_LABELS[quiz.workflowState] || quiz.workflowState}
+                        </button>
+                        <ScheduleNote publishAt={quiz.publishAt} expireAt={quiz.expireAt} />
                       </TableCell>
                       <TableCell>{languageOptions.find(opt => opt.value === quiz.languageCode)?.label || quiz.languageCode}</TableCell>
                       <TableCell>
                         <div className="flex gap-2">
-                          <Button variant="secondary" size="sm" onClick={() => handleEdit(quiz)}>
-                            <Pencil className="w-4 h-4 mr-1" /> Edit
-                          </Button>
-                          <Button variant="destructive" size="sm" onClick={() => setDeleteId(quiz.internalQuizKey)}>
-                            <Trash2 className="w-4 h-4 mr-1" /> Delete
-                          </Button>
+                          {can('content.edit') && (
+                            <Button variant="secondary" size="sm" onClick={() => handleEdit(quiz)}>
+                              <Pencil className="w-4 h-4 mr-1" /> Edit
+                            </Button>
+                          )}
+                          {can('content.edit') && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setCloneSource({
+                                level: 'quiz',
+                                key: quiz.internalQuizKey,
+                                title: quiz.quizTitle,
+                                languageCode: quiz.languageCode,
+                                parentKey: segmentCode,
+                              })}
+                            >
+                              <Copy className="w-4 h-4 mr-1" /> Clone
+                            </Button>
+                          )}
+                          {can('content.edit') && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setMoveSource({
+                                level: 'quiz',
+                                key: quiz.internalQuizKey,
+                                title: quiz.quizTitle,
+                                languageCode: quiz.languageCode,
+                                parentKey: quiz.segmentCode,
+                              })}
+                            >
+                              <FolderInput className="w-4 h-4 mr-1" /> Move
+                            </Button>
+                          )}
+                          {can('content.delete') && (
+                            <Button variant="destructive" size="sm" onClick={() => setDeleteSource({ level: 'quiz', key: quiz.internalQuizKey, title: quiz.quizTitle })}>
+                              <Trash2 className="w-4 h-4 mr-1" /> Delete
+                            </Button>
+                          )}
                         </div>
                       </TableCell>
                     </SortableRow>
@@ -480,35 +505,28 @@ const QuizzesPage: React.FC<QuizzesPageProps> = ({ segmentCode: propSegmentCode
           </DndContext>
         </Table>
       </div>
-      {/* Delete Confirmation Dialog */}
-      <Dialog open={!!deleteId} onOpenChange={open => { if (!open) setDeleteId(null); }}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Delete Quiz</DialogTitle>
-          </DialogHeader>
-          <div className="mb-4 flex flex-col items-center text-center">
-            <Trash2 className="w-12 h-12 text-red-500 mb-2" />
-            <div className="text-lg font-semibold mb-2">Are you sure you want to delete this quiz?</div>
-            <div className="text-gray-500 mb-2">This action cannot be undone.</div>
-          </div>
-          <DialogFooter>
-            <DialogClose asChild>
-              <Button type="button" variant="secondary" onClick={() => setDeleteId(null)} disabled={deleteLoading}>
-                Cancel
-              </Button>
-            </DialogClose>
-            <Button type="button" variant="destructive" onClick={handleDelete} disabled={deleteLoading}>
-              {deleteLoading ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : null} Delete
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      <QuizWorkflowDialog
+        quiz={quizzes.find(q => q.internalQuizKey === workflowQuizId) || null}
+        onOpenChange={open => { if (!open) setWorkflowQuizId(null); }}
+        onChanged={fetchQuizzes}
+      />
+
+      <CloneDialog
+        source={cloneSource}
+        onOpenChange={open => { if (!open) setCloneSource(null); }}
+        onCloned={fetchQuizzes}
+      />
+
+      <MoveDialog
+        source={moveSource}
+        onOpenChange={open => { if (!open) setMoveSource(null); }}
+        onMoved={fetchQuizzes}
+      />
 
-      {/* Quiz Delete Alert Dialog */}
-      <QuizDeleteAlertDialog
-        isOpen={showQuizDeleteAlert}
-        onClose={() => setShowQuizDeleteAlert(false)}
-        data={quizDeleteAlertData}
+      <CascadeDeleteDialog
+        source={deleteSource}
+        onOpenChange={open => { if (!open) setDeleteSource(null); }}
+        onDeleted={fetchQuizzes}
       />
     </div>
   );
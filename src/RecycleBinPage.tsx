@@ -0,0 +1,200 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import toast, { Toaster } from 'react-hot-toast';
+import { Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from './components/ui/button';
+import { Input } from './components/ui/input';
+import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from './components/ui/table';
+import DeleteConfirmDialog from './atoms/DeleteConfirmDialog';
+import SortableTableHead from './atoms/SortableTableHead';
+import TablePagination from './atoms/TablePagination';
+import { usePaginatedQuery, useFilterInput } from './hooks/usePaginatedQuery';
+import {
+  RECYCLE_RETENTION_DAYS,
+  RECYCLE_TABLE_LABELS,
+  fetchBatchSizes,
+  purgeDate,
+  purgeDeleted,
+  restoreDeleted,
+  type RecycleBinItem,
+} from './lib/recycleBin';
+
+const ROWS_PER_PAGE = 20;
+const SORTABLE_COLUMNS = ['deleted_at'] as const;
+const BIN_FILTERS = [
+  { param: 'q', column: 'title', op: 'ilike' },
+  { param: 'type', column: 'table_name', op: 'eq' },
+] as const;
+// Only the items people deleted are listed; the rest of each batch comes back with them
+const ROOTS_ONLY = [{ column: 'is_root', value: true }] as const;
+
+const RecycleBinPage: React.FC = () => {
+  const [batchSizes, setBatchSizes] = useState<Record<string, number>>({});
+  const [busyBatch, setBusyBatch] = useState<string | null>(null);
+  const [purgeItem, setPurgeItem] = useState<RecycleBinItem | null>(null);
+
+  const {
+    rows: items,
+    count,
+    loading,
+    error: fetchError,
+    page,
+    pageCount,
+    setPage,
+    sort,
+    toggleSort,
+    filterValues,
+    setFilter,
+    refetch,
+  } = usePaginatedQuery<RecycleBinItem>({
+    table: 'recycle_bin',
+    select: 'id, batch_id, table_name, row_key, title, parent_path, deleted_at, deleted_email',
+    pageSize: ROWS_PER_PAGE,
+    defaultSort: { column: 'deleted_at', ascending: false },
+    sortableColumns: SORTABLE_COLUMNS,
+    filters: BIN_FILTERS,
+    baseFilters: ROOTS_ONLY,
+  });
+  const commitSearch = useCallback((value: string) => setFilter('q', value), [setFilter]);
+  const [search, setSearch] = useFilterInput(filterValues.q, commitSearch);
+
+  useEffect(() => {
+    if (fetchError) toast.error('Failed to load the recycle bin: ' + fetchError);
+  }, [fetchError]);
+
+  useEffect(() => {
+    fetchBatchSizes(items.map(item => item.batch_id))
+      .then(setBatchSizes)
+      .catch(() => setBatchSizes({}));
+  }, [items]);
+
+  const handleRestore = async (item: RecycleBinItem) => {
+    setBusyBatch(item.batch_id);
+    try {
+      const restored = await restoreDeleted(item.batch_id);
+      toast.success(`Restored ${restored} row${restored === 1 ? '' : 's'}`);
+      refetch();
+    } catch (error) {
+      toast.error('Restore failed: ' + (error as Error).message);
+    }
+    setBusyBatch(null);
+  };
+
+  const handlePurge = async () => {
+    if (!purgeItem) return;
+    setBusyBatch(purgeItem.batch_id);
+    try {
+      await purgeDeleted(purgeItem.batch_id);
+      toast.success('Deleted permanently');
+      refetch();
+    } catch (error) {
+      toast.error('Delete failed: ' + (error as Error).message);
+    }
+    setBusyBatch(null);
+    setPurgeItem(null);
+  };
+
+  return (
+    <div className="relative w-full">
+      <Toaster />
+      <h2 className="text-2xl font-bold mb-1 flex items-center gap-2">
+        Recycle Bin
+        <span className="inline-flex items-center justify-center min-w-[28px] h-7 px-2 rounded-full bg-blue-500 text-white text-sm font-semibold">{count}</span>
+      </h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Deleted items are kept for {RECYCLE_RETENTION_DAYS} days. Restoring an item brings back everything that was deleted with it.
+      </p>
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <Input
+          placeholder="Search by title..."
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+          className="w-64 bg-white"
+        />
+        <select
+          className="border rounded-md px-3 py-1 h-9 bg-white"
+          value={filterValues.type}
+          onChange={e => setFilter('type', e.target.value)}
+        >
+          <option value="">All types</option>
+          {Object.entries(RECYCLE_TABLE_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+      <div className="overflow-x-auto rounded shadow border bg-white">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Item</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Location</TableHead>
+              <TableHead>Rows</TableHead>
+              <SortableTableHead column="deleted_at" sort={sort} onSort={toggleSort}>Deleted</SortableTableHead>
+              <TableHead>Purged on</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8 text-gray-400">
+                  <Loader2 className="mx-auto animate-spin w-6 h-6" />
+                </TableCell>
+              </TableRow>
+            ) : items.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8 text-gray-400">The recycle bin is empty.</TableCell>
+              </TableRow>
+            ) : (
+              items.map(item => {
+                const busy = busyBatch === item.batch_id;
+                return (
+                  <TableRow key={item.id}>
+                    <TableCell className="max-w-xs truncate font-medium" title={item.title || item.row_key}>
+                      {item.title || <span className="font-mono text-xs">{item.row_key}</span>}
+                    </TableCell>
+                    <TableCell>{RECYCLE_TABLE_LABELS[item.table_name] || item.table_name}</TableCell>
+                    <TableCell className="max-w-xs truncate text-gray-600" title={item.parent_path || ''}>
+                      {item.parent_path || <span className="text-gray-400">—</span>}
+                    </TableCell>
+                    <TableCell>{batchSizes[item.batch_id] ?? '…'}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {new Date(item.deleted_at).toLocaleString()}
+                      {item.deleted_email && <div className="text-xs text-gray-500">{item.deleted_email}</div>}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-gray-600">{purgeDate(item.deleted_at).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button size="sm" variant="outline" disabled={busy} onClick={() => handleRestore(item)}>
+                          {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                          Restore
+                        </Button>
+                        <Button size="sm" variant="destructive" disabled={busy} onClick={() => setPurgeItem(item)}>
+                          <Trash2 className="w-4 h-4" /> Delete forever
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+      {count > ROWS_PER_PAGE && (
+        <TablePagination page={page} pageCount={pageCount} onPageChange={setPage} disabled={loading} />
+      )}
+
+      <DeleteConfirmDialog
+        open={!!purgeItem}
+        onOpenChange={open => { if (!open) setPurgeItem(null); }}
+        onConfirm={handlePurge}
+        loading={!!purgeItem && busyBatch === purgeItem.batch_id}
+        title="Delete Forever"
+        description={`"${purgeItem?.title || purgeItem?.row_key || ''}" and everything deleted with it will be removed permanently. This cannot be undone.`}
+      />
+    </div>
+  );
+};
+
+export default RecycleBinPage;
@@ -0,0 +1,145 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import toast, { Toaster } from 'react-hot-toast';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { Button } from './components/ui/button';
+import {
+  fetchScheduledItems,
+  SCHEDULE_KIND_LABELS,
+  SCHEDULE_KIND_STYLES,
+  type ScheduledItem,
+  type ScheduleKind,
+} from './lib/schedule';
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+// "2026-10" -> first day of that month; anything else falls back to the current month
+function parseMonth(value: string | null): Date {
+  const match = value?.match(/^(\d{4})-(\d{2})$/);
+  if (match) return new Date(Number(match[1]), Number(match[2]) - 1, 1);
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), 1);
+}
+
+function formatMonth(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+function dayKey(date: Date): string {
+  return `${formatMonth(date)}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+const SchedulePage: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const month = useMemo(() => parseMonth(searchParams.get('month')), [searchParams]);
+  const [items, setItems] = useState<ScheduledItem[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Six Monday-first weeks always cover the whole month
+  const days = useMemo(() => {
+    const first = new Date(month);
+    first.setDate(1 - ((month.getDay() + 6) % 7));
+    return Array.from({ length: 42 }, (_, i) => new Date(first.getFullYear(), first.getMonth(), first.getDate() + i));
+  }, [month]);
+
+  const loadItems = useCallback(async () => {
+    setLoading(true);
+    try {
+      const end = new Date(days[days.length - 1]);
+      end.setDate(end.getDate() + 1);
+      setItems(await fetchScheduledItems(days[0].toISOString(), end.toISOString()));
+    } catch (error) {
+      toast.error('Failed to load schedule: ' + (error as Error).message);
+      setItems([]);
+    }
+    setLoading(false);
+  }, [days]);
+
+  useEffect(() => {
+    loadItems();
+  }, [loadItems]);
+
+  const itemsByDay = useMemo(() => {
+    const map = new Map<string, ScheduledItem[]>();
+    for (const item of items) {
+      const key = dayKey(new Date(item.at));
+      map.set(key, [...(map.get(key) || []), item]);
+    }
+    return map;
+  }, [items]);
+
+  const goToMonth = (offset: number) => {
+    const next = new Date(month.getFullYear(), month.getMonth() + offset, 1);
+    setSearchParams({ month: formatMonth(next) });
+  };
+
+  const today = dayKey(new Date());
+
+  return (
+    <div className="relative w-full">
+      <Toaster />
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h2 className="text-2xl font-bold flex items-center gap-2">
+          Publishing Schedule
+          {loading && <Loader2 className="w-5 h-5 animate-spin text-gray-400" />}
+        </h2>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => goToMonth(-1)} aria-label="Previous month">
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="min-w-[150px] text-center font-semibold">
+            {month.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+          </span>
+          <Button variant="outline" size="sm" onClick={() => goToMonth(1)} aria-label="Next month">
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+          <Button variant="secondary" size="sm" onClick={() => setSearchParams({})}>
+            Today
+          </Button>
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-3 mb-3 text-xs text-gray-600">
+        {(Object.keys(SCHEDULE_KIND_LABELS) as ScheduleKind[]).map(kind => (
+          <span key={kind} className={`px-2 py-0.5 rounded ${SCHEDULE_KIND_STYLES[kind]}`}>{SCHEDULE_KIND_LABELS[kind]}</span>
+        ))}
+        <span>▲ goes live · ▼ expires</span>
+      </div>
+      <div className="rounded-2xl shadow bg-white overflow-hidden">
+        <div className="grid grid-cols-7 border-b bg-gray-50 text-xs font-semibold text-gray-500">
+          {WEEKDAYS.map(day => (
+            <div key={day} className="px-2 py-2">{day}</div>
+          ))}
+        </div>
+        <div className="grid grid-cols-7">
+          {days.map(day => {
+            const key = dayKey(day);
+            const dayItems = itemsByDay.get(key) || [];
+            const inMonth = day.getMonth() === month.getMonth();
+            return (
+              <div key={key} className={`min-h-[110px] border-b border-r p-1.5 ${inMonth ? '' : 'bg-gray-50 text-gray-400'}`}>
+                <div className={`text-xs mb-1 ${key === today ? 'inline-block rounded-full bg-blue-600 text-white px-1.5' : ''}`}>
+                  {day.getDate()}
+                </div>
+                <div className="space-y-1">
+                  {dayItems.map(item => (
+                    <Link
+                      key={`${item.kind}-${item.key}-${item.action}`}
+                      to={item.link}
+                      title={`${SCHEDULE_KIND_LABELS[item.kind]} ${item.action === 'publish' ? 'goes live' : 'expires'} at ${new Date(item.at).toLocaleString()}`}
+                      className={`block truncate rounded px-1.5 py-0.5 text-xs hover:ring-2 hover:ring-blue-300 ${SCHEDULE_KIND_STYLES[item.kind]}`}
+                    >
+                      {item.action === 'publish' ? '▲' : '▼'}{' '}
+                      {new Date(item.at).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })} {item.title}
+                    </Link>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SchedulePage;
@@ -0,0 +1,237 @@
+import { useCallback, useEffect, useState } from 'react';
+import toast, { Toaster } from 'react-hot-toast';
+import { useSearchParams } from 'react-router-dom';
+import { Check, Loader2, Save, Sparkles, X } from 'lucide-react';
+import { Button } from './components/ui/button';
+import { Input } from './components/ui/input';
+import { Textarea } from './components/ui/textarea';
+import Breadcrumb from './atoms/Breadcrumb';
+import MathMarkdown from './atoms/MathMarkdown';
+import MathText from './atoms/MathText';
+import { useAuth } from './hooks/useAuth';
+import { fetchQuizBreadcrumbs, type BreadcrumbPart } from './lib/breadcrumbs';
+import {
+  approveTranslationDraft,
+  fetchTranslationDrafts,
+  rejectTranslationDraft,
+  updateTranslationDraft,
+  type DraftEdits,
+  type DraftStatus,
+  type TranslationDraft,
+} from './lib/translationDrafts';
+import { LANGUAGE_LABELS, selectIn } from './lib/translations';
+import { QUESTION_COLUMNS } from './lib/questions';
+import type { Question } from './QuestionsPage';
+
+const STATUS_TABS: { value: DraftStatus; label: string }[] = [
+  { value: 'pending', label: 'Waiting for review' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'rejected', label: 'Rejected' },
+];
+
+const optionKeys = [
+  ['a', 'optionA'],
+  ['b', 'optionB'],
+  ['c', 'optionC'],
+  ['d', 'optionD'],
+] as const;
+
+const toEdits = (draft: TranslationDraft): DraftEdits => ({
+  questionText: draft.questionText,
+  optionA: draft.optionA,
+  optionB: draft.optionB,
+  optionC: draft.optionC,
+  optionD: draft.optionD,
+  noteText: draft.noteText,
+});
+
+export default function TranslationReviewPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { can } = useAuth();
+  const status = (searchParams.get('status') as DraftStatus) || 'pending';
+  const quizId = searchParams.get('quiz') || undefined;
+  const [drafts, setDrafts] = useState<TranslationDraft[]>([]);
+  const [sources, setSources] = useState<Record<string, Question>>({});
+  const [breadcrumbs, setBreadcrumbs] = useState<Record<string, BreadcrumbPart[]>>({});
+  const [edits, setEdits] = useState<Record<number, DraftEdits>>({});
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const loadDrafts = useCallback(async () => {
+    setLoading(true);
+    try {
+      const loaded = await fetchTranslationDrafts(status, quizId);
+      const sourceRows = await selectIn<Question>('questions', QUESTION_COLUMNS, 'questionId', loaded.map(d => d.sourceQuestionId));
+      setDrafts(loaded);
+      setEdits(Object.fromEntries(loaded.map(d => [d.id, toEdits(d)])));
+      setSources(Object.fromEntries(sourceRows.map(q => [q.questionId, q])));
+      setBreadcrumbs(await fetchQuizBreadcrumbs(loaded.map(d => d.quizId)));
+    } catch (error) {
+      toast.error('Failed to load drafts: ' + (error as Error).message);
+    }
+    setLoading(false);
+  }, [status, quizId]);
+
+  useEffect(() => {
+    loadDrafts();
+  }, [loadDrafts]);
+
+  const setField = (id: number, field: keyof DraftEdits, value: string) =>
+    setEdits(prev => ({ ...prev, [id]: { ...prev[id], [field]: value } }));
+
+  const runAction = async (draft: TranslationDraft, action: 'save' | 'approve' | 'reject') => {
+    const draftEdits = edits[draft.id] || toEdits(draft);
+    if (action === 'approve' && !draftEdits.questionText.trim()) {
+      toast.error('The question text cannot be empty');
+      return;
+    }
+    setBusyId(draft.id);
+    try {
+      if (action === 'save') {
+        await updateTranslationDraft(draft.id, draftEdits);
+        toast.success('Draft saved');
+      } else {
+        if (action === 'approve') await approveTranslationDraft(draft, draftEdits);
+        else await rejectTranslationDraft(draft.id);
+        toast.success(action === 'approve' ? 'Translation published' : 'Draft rejected');
+        setDrafts(prev => prev.filter(d => d.id !== draft.id));
+      }
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+    setBusyId(null);
+  };
+
+  return (
+    <div className="relative w-full">
+      <Toaster />
+      <h2 className="text-2xl font-bold mb-4">Translation Review</h2>
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        {STATUS_TABS.map(tab => (
+          <Button
+            key={tab.value}
+            size="sm"
+            variant={tab.value === status ? 'default' : 'outline'}
+            onClick={() => {
+              const next = new URLSearchParams(searchParams);
+              if (tab.value === 'pending') next.delete('status');
+              else next.set('status', tab.value);
+              setSearchParams(next, { replace: true });
+            }}
+          >
+            {tab.label}
+          </Button>
+        ))}
+        {quizId && (
+          <Button size="sm" variant="ghost" onClick={() => {
+            const next = new URLSearchParams(searchParams);
+            next.delete('quiz');
+            setSearchParams(next, { replace: true });
+          }}>
+            <X className="w-4 h-4" /> Show all quizzes
+          </Button>
+        )}
+        {loading && <Loader2 className="w-5 h-5 animate-spin text-gray-400" />}
+      </div>
+
+      {!loading && drafts.length === 0 ? (
+        <div className="text-center py-12 text-gray-400">
+          {status === 'pending' ? 'Nothing waiting for review. Use Translate on a quiz to create drafts.' : 'No drafts here.'}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {drafts.map(draft => {
+            const source = sources[draft.sourceQuestionId];
+            const draftEdits = edits[draft.id] || toEdits(draft);
+            const editable = draft.status === 'pending' && can('content.edit');
+            const busy = busyId === draft.id;
+            return (
+              <div key={draft.id} className="rounded-2xl shadow bg-white p-4">
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                  <Breadcrumb parts={breadcrumbs[draft.quizId] || []} />
+                  <div className="flex items-center gap-2 text-xs">
+                    {draft.machine_translated && (
+                      <span className="flex items-center gap-1 px-2 py-0.5 rounded bg-amber-100 text-amber-800 font-semibold">
+                        <Sparkles className="w-3 h-3" /> Machine translated{draft.provider ? ` · ${draft.provider}` : ''}
+                      </span>
+                    )}
+                    <span className="text-gray-500">{new Date(draft.created_at).toLocaleString()}</span>
+                    {draft.reviewed_email && <span className="text-gray-500">· reviewed by {draft.reviewed_email}</span>}
+                  </div>
+                </div>
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <div className="text-xs font-semibold text-gray-500">Original{source ? ` (${LANGUAGE_LABELS[source.languageCode]})` : ''}</div>
+                    {source ? (
+                      <>
+                        <div className="prose prose-sm max-w-none"><MathMarkdown>{source.questionText}</MathMarkdown></div>
+                        <ul className="text-sm space-y-1">
+                          {optionKeys.map(([letter, key]) => source[key] && (
+                            <li key={letter} className={source.correctAnswer === letter ? 'font-semibold text-green-700' : ''}>
+                              {letter.toUpperCase()}. <MathText text={source[key] || ''} />
+                            </li>
+                          ))}
+                        </ul>
+                        {source.noteText && <div className="text-sm text-gray-600 border-t pt-2"><MathMarkdown>{source.noteText}</MathMarkdown></div>}
+                      </>
+                    ) : (
+                      <div className="text-sm text-gray-400">The original question has been deleted.</div>
+                    )}
+                  </div>
+                  <div className="space-y-2 lg:border-l lg:pl-4">
+                    <div className="text-xs font-semibold text-gray-500">Draft ({LANGUAGE_LABELS[draft.languageCode]})</div>
+                    <Textarea
+                      value={draftEdits.questionText}
+                      onChange={e => setField(draft.id, 'questionText', e.target.value)}
+                      rows={3}
+                      disabled={!editable || busy}
+                    />
+                    {optionKeys.map(([letter, key]) => (draft.questionType === 1 || letter === 'a' || letter === 'b') && (
+                      <div key={letter} className="flex items-center gap-2">
+                        <span className={`w-5 text-sm font-semibold ${draft.correctAnswer === letter ? 'text-green-700' : 'text-gray-400'}`}>
+                          {letter.toUpperCase()}
+                        </span>
+                        <Input
+                          value={draftEdits[key] || ''}
+                          onChange={e => setField(draft.id, key, e.target.value)}
+                          disabled={!editable || busy || draft.questionType === 2}
+                        />
+                      </div>
+                    ))}
+                    <Textarea
+                      value={draftEdits.noteText || ''}
+                      onChange={e => setField(draft.id, 'noteText', e.target.value)}
+                      placeholder="Note (optional)"
+                      rows={2}
+                      disabled={!editable || busy}
+                    />
+                  </div>
+                </div>
+                {draft.status === 'pending' && (
+                  <div className="flex flex-wrap justify-end gap-2 mt-3">
+                    {can('content.edit') && (
+                      <>
+                        <Button size="sm" variant="outline" disabled={busy} onClick={() => runAction(draft, 'save')}>
+                          <Save className="w-4 h-4" /> Save
+                        </Button>
+                        <Button size="sm" variant="destructive" disabled={busy} onClick={() => runAction(draft, 'reject')}>
+                          <X className="w-4 h-4" /> Reject
+                        </Button>
+                      </>
+                    )}
+                    {can('quiz.publish') && (
+                      <Button size="sm" disabled={busy || !source} onClick={() => runAction(draft, 'approve')}>
+                        {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                        Approve &amp; publish
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
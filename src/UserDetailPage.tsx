@@ -0,0 +1,286 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import toast, { Toaster } from 'react-hot-toast';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+import { supabase } from './supabaseClient';
+import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from './components/ui/table';
+import Breadcrumb from './atoms/Breadcrumb';
+import TablePagination from './atoms/TablePagination';
+import type { UserProfile } from './UsersPage';
+import { REPORT_STATUS_LABELS, REPORT_STATUS_STYLES, type QuestionReport } from './lib/reportTriage';
+import {
+  accuracyBy,
+  accuracyPercent,
+  computeStreaks,
+  fetchUserActivity,
+  fetchUserAttempts,
+  fetchUserReports,
+  type AccuracyRow,
+  type ActivityPage,
+  type UserActivity,
+  type UserProgress,
+} from './lib/userActivity';
+
+const ROWS_PER_PAGE = 20;
+
+const StatCard: React.FC<{ label: string; value: React.ReactNode; hint?: string }> = ({ label, value, hint }) => (
+  <div className="rounded-lg border bg-white p-4 shadow-sm">
+    <div className="text-sm text-gray-500">{label}</div>
+    <div className="text-2xl font-bold mt-1">{value}</div>
+    {hint && <div className="text-xs text-gray-400 mt-1">{hint}</div>}
+  </div>
+);
+
+const AccuracyTable: React.FC<{ title: string; rows: AccuracyRow[] }> = ({ title, rows }) => (
+  <div className="rounded shadow border bg-white">
+    <h3 className="font-semibold px-4 pt-3">{title}</h3>
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Name</TableHead>
+          <TableHead>Attempts</TableHead>
+          <TableHead>Correct</TableHead>
+          <TableHead>Accuracy</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={4} className="text-center py-6 text-gray-400">No attempts yet.</TableCell>
+          </TableRow>
+        ) : rows.map(row => (
+          <TableRow key={row.to}>
+            <TableCell><Link to={row.to} className="hover:text-blue-600 hover:underline">{row.label}</Link></TableCell>
+            <TableCell>{row.attempts}</TableCell>
+            <TableCell>{row.correct} / {row.total}</TableCell>
+            <TableCell className="font-semibold">{accuracyPercent(row.correct, row.total)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  </div>
+);
+
+const UserDetailPage: React.FC = () => {
+  const { userId = '' } = useParams();
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [activity, setActivity] = useState<UserActivity | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [attemptPage, setAttemptPage] = useState(1);
+  const [reportPage, setReportPage] = useState(1);
+  const [attempts, setAttempts] = useState<ActivityPage<UserProgress>>({ rows: [], count: 0 });
+  const [reports, setReports] = useState<ActivityPage<QuestionReport>>({ rows: [], count: 0 });
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      setLoading(true);
+      try {
+        const [{ data, error }, result] = await Promise.all([
+          supabase.from('profiles').select('*').eq('id', userId).maybeSingle(),
+          fetchUserActivity(userId),
+        ]);
+        if (error) throw new Error(error.message);
+        if (cancelled) return;
+        setProfile(data as UserProfile | null);
+        setActivity(result);
+      } catch (error) {
+        if (!cancelled) toast.error('Failed to load user: ' + (error as Error).message);
+      }
+      if (!cancelled) setLoading(false);
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // The lists are paged on the server; the totals above cover every attempt
+  useEffect(() => {
+    let cancelled = false;
+    fetchUserAttempts(userId, attemptPage, ROWS_PER_PAGE)
+      .then(page => !cancelled && setAttempts(page))
+      .catch(error => !cancelled && toast.error('Failed to load attempts: ' + (error as Error).message));
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, attemptPage]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchUserReports(userId, reportPage, ROWS_PER_PAGE)
+      .then(page => !cancelled && setReports(page))
+      .catch(error => !cancelled && toast.error('Failed to load reports: ' + (error as Error).message));
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, reportPage]);
+
+  const summary = useMemo(() => {
+    if (!activity) return null;
+    const lastActive = [profile?.updated_at, activity.lastPlayed, activity.lastReported]
+      .filter((date): date is string => !!date)
+      .sort((a, b) => new Date(a).getTime() - new Date(b).getTime())
+      .pop();
+    return {
+      quizzes: activity.quizzes.length,
+      attempts: activity.quizzes.reduce((sum, q) => sum + q.attempts, 0),
+      correct: activity.quizzes.reduce((sum, q) => sum + q.correct, 0),
+      total: activity.quizzes.reduce((sum, q) => sum + q.total, 0),
+      streaks: computeStreaks(activity.days),
+      byBook: accuracyBy(activity, 0),
+      bySection: accuracyBy(activity, 1),
+      lastActive,
+    };
+  }, [activity, profile]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12 text-gray-400">
+        <Loader2 className="w-6 h-6 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!activity || !summary) {
+    return (
+      <div className="text-center py-12 text-gray-400">
+        <Toaster />
+        Could not load this user. <Link to="/users" className="text-blue-600 hover:underline">Back to users</Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-4 mx-auto space-y-6">
+      <Toaster />
+      <Link to="/users" className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-900">
+        <ArrowLeft className="w-4 h-4" /> Users
+      </Link>
+      <div className="flex items-center gap-4">
+        {profile?.picture ? (
+          <img src={profile.picture} alt={profile.name || profile.email || 'Profile'} className="w-16 h-16 rounded-full object-cover border" />
+        ) : (
+          <div className="w-16 h-16 rounded-full bg-gray-200 flex items-center justify-center text-gray-500 text-xl font-bold">
+            {(profile?.name?.[0] || profile?.email?.[0] || '?').toUpperCase()}
+          </div>
+        )}
+        <div>
+          <h1 className="text-2xl font-bold">{profile?.name || profile?.email || 'Unknown user'}</h1>
+          {profile?.email && <div className="text-gray-600">{profile.email}</div>}
+          <div className="text-xs text-gray-400 font-mono">{userId}</div>
+          {!profile && <div className="text-sm text-amber-600">This profile no longer exists; showing the activity that is left.</div>}
+        </div>
+        <div className="ml-auto text-right text-sm text-gray-600">
+          Last active
+          <div className="font-semibold text-gray-900">{summary.lastActive ? new Date(summary.lastActive).toLocaleString() : 'Never'}</div>
+        </div>
+      </div>
+
+      <div className="grid gap-4 grid-cols-2 lg:grid-cols-5">
+        <StatCard label="Quizzes attempted" value={summary.quizzes} hint={`${summary.attempts} attempts`} />
+        <StatCard label="Accuracy" value={accuracyPercent(summary.correct, summary.total)} hint={`${summary.correct} of ${summary.total} answers correct`} />
+        <StatCard label="Current streak" value={`${summary.streaks.current} day${summary.streaks.current === 1 ? '' : 's'}`} />
+        <StatCard label="Longest streak" value={`${summary.streaks.longest} day${summary.streaks.longest === 1 ? '' : 's'}`} />
+        <StatCard
+          label="Reports filed"
+          value={reports.count}
+          hint={activity.reporter ? `Reputation ${activity.reporter.reputation}${activity.reporter.muted ? ' · muted' : ''}` : undefined}
+        />
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <AccuracyTable title="Accuracy by book" rows={summary.byBook} />
+        <AccuracyTable title="Accuracy by section" rows={summary.bySection} />
+      </div>
+
+      <div>
+        <h2 className="text-lg font-semibold mb-2">Quiz attempts</h2>
+        <div className="overflow-x-auto rounded shadow border bg-white">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Quiz</TableHead>
+                <TableHead>Score</TableHead>
+                <TableHead>Accuracy</TableHead>
+                <TableHead>Played</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {attempts.rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center py-8 text-gray-400">No quizzes played yet.</TableCell>
+                </TableRow>
+              ) : attempts.rows.map((attempt, index) => (
+                <TableRow key={`${attempt.quizId}-${attempt.created_at}-${index}`}>
+                  <TableCell>
+                    {activity.breadcrumbs[attempt.quizId] ? (
+                      <Breadcrumb parts={activity.breadcrumbs[attempt.quizId]} />
+                    ) : (
+                      <span className="font-mono text-xs text-gray-400" title="Quiz no longer exists">{attempt.quizId}</span>
+                    )}
+                  </TableCell>
+                  <TableCell>{attempt.score} / {attempt.totalQuestions}</TableCell>
+                  <TableCell>{accuracyPercent(attempt.score, attempt.totalQuestions)}</TableCell>
+                  <TableCell className="whitespace-nowrap">{new Date(attempt.created_at).toLocaleString()}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        {attempts.count > ROWS_PER_PAGE && (
+          <TablePagination
+            page={attemptPage}
+            pageCount={Math.ceil(attempts.count / ROWS_PER_PAGE)}
+            onPageChange={setAttemptPage}
+          />
+        )}
+      </div>
+
+      <div>
+        <h2 className="text-lg font-semibold mb-2">Reports filed</h2>
+        <div className="overflow-x-auto rounded shadow border bg-white">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Question ID</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Message</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Filed</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {reports.rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-gray-400">No reports filed.</TableCell>
+                </TableRow>
+              ) : reports.rows.map(report => (
+                <TableRow key={report.id}>
+                  <TableCell className="font-mono text-xs">{report.questionId}</TableCell>
+                  <TableCell>{report.reason}</TableCell>
+                  <TableCell className="max-w-xs truncate" title={report.additional_message || ''}>{report.additional_message || '-'}</TableCell>
+                  <TableCell>
+                    <span className={`px-2 py-0.5 rounded text-xs font-semibold ${REPORT_STATUS_STYLES[report.status]}`}>
+                      {REPORT_STATUS_LABELS[report.status]}
+                    </span>
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">{new Date(report.created_at).toLocaleString()}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        {reports.count > ROWS_PER_PAGE && (
+          <TablePagination
+            page={reportPage}
+            pageCount={Math.ceil(reports.count / ROWS_PER_PAGE)}
+            onPageChange={setReportPage}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UserDetailPage;
@@ -1,11 +1,16 @@
-import React, { useEffect, useState, useMemo } from 'react';
-import { supabase } from './supabaseClient';
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
 import toast, { Toaster } from 'react-hot-toast';
 import { Input } from './components/ui/input';
 import { Button } from './components/ui/button';
 import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from './components/ui/table';
 import { Trash2, Loader2 } from 'lucide-react';
 import DeleteConfirmDialog from './atoms/DeleteConfirmDialog';
+import SortableTableHead from './atoms/SortableTableHead';
+import TablePagination from './atoms/TablePagination';
+import { useAuth } from './hooks/useAuth';
+import { usePaginatedQuery, useFilterInput } from './hooks/usePaginatedQuery';
+import { softDelete } from './lib/recycleBin';
 
 // User profile type based on provided schema
 export type UserProfile = {
@@ -16,47 +21,56 @@ export type UserProfile = {
   picture?: string | null;
 };
 
+const ROWS_PER_PAGE = 20;
+const SORTABLE_COLUMNS = ['updated_at', 'name', 'email'] as const;
+const USER_FILTERS = [
+  { param: 'q', column: 'name', op: 'ilike' },
+] as const;
+
 const UsersPage: React.FC = () => {
-  const [users, setUsers] = useState<UserProfile[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [search, setSearch] = useState('');
+  // Deleting accounts is reserved for super-admins
+  const { can } = useAuth();
   const [deleteId, setDeleteId] = useState<string | null>(null);
   const [deleteLoading, setDeleteLoading] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
 
-  // Fetch users
-  const fetchUsers = async () => {
-    setLoading(true);
-    const { data, error } = await supabase.from('profiles').select('*').order('updated_at', { ascending: false });
-    if (error) {
-      toast.error('Failed to fetch users');
-    } else {
-      setUsers((data as UserProfile[]) || []);
-    }
-    setLoading(false);
-  };
+  // Fetch users (one page at a time, filtered by name on the server)
+  const {
+    rows: users,
+    loading,
+    error: fetchError,
+    page,
+    pageCount,
+    setPage,
+    sort,
+    toggleSort,
+    filterValues,
+    setFilter,
+    refetch: fetchUsers,
+  } = usePaginatedQuery<UserProfile>({
+    table: 'profiles',
+    pageSize: ROWS_PER_PAGE,
+    defaultSort: { column: 'updated_at', ascending: false },
+    sortableColumns: SORTABLE_COLUMNS,
+    filters: USER_FILTERS,
+  });
+  const commitSearch = useCallback((value: string) => setFilter('q', value), [setFilter]);
+  const [search, setSearch] = useFilterInput(filterValues.q, commitSearch);
 
   useEffect(() => {
-    fetchUsers();
-  }, []);
-
-  // Filtered users by name
-  const filteredUsers = useMemo(() => {
-    return users.filter(u =>
-      (u.name || '').toLowerCase().includes(search.toLowerCase())
-    );
-  }, [users, search]);
+    if (fetchError) toast.error('Failed to fetch users');
+  }, [fetchError]);
 
   // Delete user
   const handleDelete = async () => {
     if (!deleteId) return;
     setDeleteLoading(true);
-    const { error } = await supabase.from('profiles').delete().eq('id', deleteId);
-    if (error) {
-      toast.error('Delete failed: ' + error.message);
-    } else {
-      toast.success('User deleted');
+    try {
+      await softDelete('profiles', [deleteId]);
+      toast.success('User moved to the Recycle Bin');
       fetchUsers();
+    } catch (error) {
+      toast.error('Delete failed: ' + (error as Error).message);
     }
     setDeleteLoading(false);
     setDeleteId(null);
@@ -80,8 +94,8 @@ const UsersPage: React.FC = () => {
           <TableHeader>
             <TableRow>
               <TableHead>Profile</TableHead>
-              <TableHead>Name</TableHead>
-              <TableHead>Email</TableHead>
+              <SortableTableHead column="name" sort={sort} onSort={toggleSort}>Name</SortableTableHead>
+              <SortableTableHead column="email" sort={sort} onSort={toggleSort}>Email</SortableTableHead>
               <TableHead>Actions</TableHead>
             </TableRow>
           </TableHeader>
@@ -92,11 +106,11 @@ const UsersPage: React.FC = () => {
                   <Loader2 className="mx-auto animate-spin w-6 h-6" />
                 </TableCell>
               </TableRow>
-            ) : filteredUsers.length === 0 ? (
+            ) : users.length === 0 ? (
               <TableRow>
                 <TableCell colSpan={4} className="text-center py-8 text-gray-400">No users found.</TableCell>
               </TableRow>
-            ) : filteredUsers.map(user => (
+            ) : users.map(user => (
               <TableRow key={user.id}>
                 <TableCell>
                   {user.picture ? (
@@ -111,27 +125,34 @@ const UsersPage: React.FC = () => {
                     </div>
                   )}
                 </TableCell>
-                <TableCell>{user.name || <span className="text-gray-400">—</span>}</TableCell>
+                <TableCell>
+                  <Link to={`/users/${user.id}`} className="hover:text-blue-600 hover:underline">
+                    {user.name || <span className="text-gray-400">—</span>}
+                  </Link>
+                </TableCell>
                 <TableCell>{user.email || <span className="text-gray-400">—</span>}</TableCell>
                 <TableCell>
-                  <Button
-                    variant="destructive"
-                    size="icon"
-                    disabled={deleteLoading && deleteId === user.id}
-                    onClick={() => {
-                      setDeleteId(user.id);
-                      setDeleteDialogOpen(true);
-                    }}
-                    title="Delete user"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </Button>
+                  {can('users.delete') && (
+                    <Button
+                      variant="destructive"
+                      size="icon"
+                      disabled={deleteLoading && deleteId === user.id}
+                      onClick={() => {
+                        setDeleteId(user.id);
+                        setDeleteDialogOpen(true);
+                      }}
+                      title="Delete user"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
                 </TableCell>
               </TableRow>
             ))}
           </TableBody>
         </Table>
       </div>
+      <TablePagination page={page} pageCount={pageCount} onPageChange={setPage} disabled={loading} />
       <DeleteConfirmDialog
         open={deleteDialogOpen}
         onOpenChange={open => {
@@ -141,7 +162,7 @@ const UsersPage: React.FC = () => {
         onConfirm={handleDelete}
         loading={deleteLoading}
         title="Delete User"
-        description="Are you sure you want to delete this user? This action cannot be undone."
+        description="Are you sure you want to delete this user? It can be restored from the Recycle Bin for 30 days."
       />
     </div>
   );
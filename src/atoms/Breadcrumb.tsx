@@ -0,0 +1,23 @@
+import { Fragment } from 'react';
+import { Link } from 'react-router-dom';
+import { ChevronRight } from 'lucide-react';
+import type { BreadcrumbPart } from '../lib/breadcrumbs';
+
+interface BreadcrumbProps {
+  parts: BreadcrumbPart[];
+}
+
+export default function Breadcrumb({ parts }: BreadcrumbProps) {
+  return (
+    <nav aria-label="Breadcrumb" className="flex flex-wrap items-center gap-1 text-xs text-gray-500">
+      {parts.map((part, idx) => (
+        <Fragment key={part.to}>
+          {idx > 0 && <ChevronRight className="w-3 h-3" />}
+          <Link to={part.to} className="hover:text-blue-600 hover:underline">
+            {part.label}
+          </Link>
+        </Fragment>
+      ))}
+    </nav>
+  );
+}
@@ -0,0 +1,16 @@
+import ReactMarkdown from 'react-markdown';
+import { MARKDOWN_REHYPE_PLUGINS, MARKDOWN_REMARK_PLUGINS } from '../lib/math';
+
+interface MathMarkdownProps {
+  children: string;
+  className?: string;
+}
+
+// Question or note markdown with $...$ / $$...$$ formulas rendered by KaTeX
+export default function MathMarkdown({ children, className }: MathMarkdownProps) {
+  return (
+    <ReactMarkdown className={className} remarkPlugins={MARKDOWN_REMARK_PLUGINS} rehypePlugins={MARKDOWN_REHYPE_PLUGINS}>
+      {children}
+    </ReactMarkdown>
+  );
+}
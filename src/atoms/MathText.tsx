@@ -0,0 +1,13 @@
+import { useMemo } from 'react';
+import { hasMath, mathTextToHtml } from '../lib/math';
+
+interface MathTextProps {
+  text: string;
+}
+
+// Plain text such as an answer option, with any formulas in it rendered
+export default function MathText({ text }: MathTextProps) {
+  const html = useMemo(() => (hasMath(text) ? mathTextToHtml(text) : null), [text]);
+  if (html === null) return <>{text}</>;
+  return <span dangerouslySetInnerHTML={{ __html: html }} />;
+}
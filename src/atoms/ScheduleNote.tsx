@@ -0,0 +1,25 @@
+import { CalendarClock } from 'lucide-react';
+
+interface ScheduleNoteProps {
+  publishAt?: string | null;
+  expireAt?: string | null;
+}
+
+// Small line under a status badge showing pending go-live/expiry times
+export default function ScheduleNote({ publishAt, expireAt }: ScheduleNoteProps) {
+  if (!publishAt && !expireAt) return null;
+  return (
+    <div className="flex flex-col gap-0.5 mt-1 text-xs text-purple-700">
+      {publishAt && (
+        <span className="flex items-center gap-1">
+          <CalendarClock className="w-3 h-3" /> Live {new Date(publishAt).toLocaleString()}
+        </span>
+      )}
+      {expireAt && (
+        <span className="flex items-center gap-1">
+          <CalendarClock className="w-3 h-3" /> Expires {new Date(expireAt).toLocaleString()}
+        </span>
+      )}
+    </div>
+  );
+}
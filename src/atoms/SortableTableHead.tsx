@@ -0,0 +1,31 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+import { TableHead } from '../components/ui/table';
+import type { SortState } from '../hooks/usePaginatedQuery';
+
+interface SortableTableHeadProps {
+  column: string;
+  sort: SortState;
+  onSort: (column: string) => void;
+  children: React.ReactNode;
+}
+
+export default function SortableTableHead({ column, sort, onSort, children }: SortableTableHeadProps) {
+  const active = sort.column === column;
+  return (
+    <TableHead aria-sort={active ? (sort.ascending ? 'ascending' : 'descending') : 'none'}>
+      <button
+        type="button"
+        className={`inline-flex items-center gap-1 hover:text-blue-600 ${active ? 'text-blue-700' : ''}`}
+        onClick={() => onSort(column)}
+      >
+        {children}
+        {active ? (
+          sort.ascending ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />
+        ) : (
+          <ArrowUpDown className="w-3 h-3 text-gray-400" />
+        )}
+      </button>
+    </TableHead>
+  );
+}
@@ -0,0 +1,20 @@
+import { Button } from '../components/ui/button';
+
+interface TablePaginationProps {
+  page: number;
+  pageCount: number;
+  onPageChange: (page: number) => void;
+  disabled?: boolean;
+}
+
+export default function TablePagination({ page, pageCount, onPageChange, disabled = false }: TablePaginationProps) {
+  return (
+    <div className="flex justify-end items-center gap-2 mt-4">
+      <Button variant="secondary" size="sm" onClick={() => onPageChange(page - 1)} disabled={disabled || page <= 1}>Prev</Button>
+      <span>
+        Page {page} of {pageCount}
+      </span>
+      <Button variant="secondary" size="sm" onClick={() => onPageChange(page + 1)} disabled={disabled || page >= pageCount}>Next</Button>
+    </div>
+  );
+}
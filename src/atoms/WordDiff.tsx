@@ -0,0 +1,24 @@
+import { useMemo } from 'react';
+import { diffWords } from '../lib/wordDiff';
+
+interface WordDiffProps {
+  before: string;
+  after: string;
+}
+
+export default function WordDiff({ before, after }: WordDiffProps) {
+  const parts = useMemo(() => diffWords(before, after), [before, after]);
+  return (
+    <span className="whitespace-pre-wrap break-words">
+      {parts.map((part, idx) =>
+        part.type === 'added' ? (
+          <ins key={idx} className="bg-green-100 text-green-800 no-underline">{part.text}</ins>
+        ) : part.type === 'removed' ? (
+          <del key={idx} className="bg-red-100 text-red-700">{part.text}</del>
+        ) : (
+          <span key={idx}>{part.text}</span>
+        )
+      )}
+    </span>
+  );
+}
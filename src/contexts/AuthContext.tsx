@@ -1,6 +1,7 @@
 import { createContext, useEffect, useState } from "react";
 import type { ReactNode } from "react";
 import { supabase } from "../supabaseClient";
+import { getUserRole, roleHasPermission, type Permission, type Role } from "../lib/permissions";
 
 interface AuthContextType {
   user: any;
@@ -8,6 +9,8 @@ interface AuthContextType {
   signIn: (credentials: { email: string; password: string }) => Promise<void>;
   signOut: () => Promise<void>;
   isAdmin: () => boolean;
+  role: Role | null;
+  can: (permission: Permission) => boolean;
   error: string | null;
 }
 
@@ -50,9 +53,8 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     if (error) {
       setError(error.message);
     } else if (data.user) {
-      // Check if the newly signed-in user is admin
-      const isUserAdmin = data.user.user_metadata?.is_admin ?? false;
-      if (!isUserAdmin) {
+      // Check if the newly signed-in user has a dashboard role
+      if (!getUserRole(data.user)) {
         // If user is not admin, sign them out immediately
         await signOut();
         setError("You are not authorized to access this page");
@@ -67,16 +69,23 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     setError(null);
   };
 
+  const role = getUserRole(user);
+
+  // Any dashboard role counts as admin; use can() for individual actions
   const isAdmin = () => {
-    return user?.user_metadata?.is_admin ?? false;
+    return role !== null;
   };
 
+  const can = (permission: Permission) => roleHasPermission(role, permission);
+
   const value: AuthContextType = {
     user,
     loading,
     signIn,
     signOut,
     isAdmin,
+    role,
+    can,
     error
   };
 
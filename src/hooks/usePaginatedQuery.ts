@@ -0,0 +1,185 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { supabase } from '../supabaseClient';
+
+export type SortState = {
+  column: string;
+  ascending: boolean;
+};
+
+// A filter driven by a URL search param; empty values are not applied.
+// `fts` runs a websearch-style full-text query against a tsvector column.
+export type UrlFilter = {
+  param: string;
+  column: string;
+  op: 'eq' | 'neq' | 'ilike' | 'gte' | 'lte' | 'fts';
+};
+
+// A fixed condition that is always applied, e.g. the quiz a page belongs to
+export type BaseFilter = {
+  column: string;
+  value: string | number | boolean;
+};
+
+type PaginatedQueryOptions = {
+  table: string;
+  select?: string;
+  pageSize: number;
+  defaultSort: SortState;
+  sortableColumns: readonly string[];
+  filters?: readonly UrlFilter[];
+  baseFilters?: readonly BaseFilter[];
+  enabled?: boolean;
+};
+
+/**
+ * Loads one page of `table` at a time using Supabase range queries with an exact count.
+ * Page, sort and filter values live in the URL (`page`, `sort`, `dir` and each filter's
+ * param) so reloads and shared links keep the same view. Other search params are preserved.
+ */
+export function usePaginatedQuery<T>({
+  table,
+  select = '*',
+  pageSize,
+  defaultSort,
+  sortableColumns,
+  filters = [],
+  baseFilters = [],
+  enabled = true,
+}: PaginatedQueryOptions) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [rows, setRows] = useState<T[]>([]);
+  const [count, setCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const requestId = useRef(0);
+
+  const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+  const sortParam = searchParams.get('sort');
+  const sort: SortState = sortParam && sortableColumns.includes(sortParam)
+    ? { column: sortParam, ascending: searchParams.get('dir') === 'asc' }
+    : defaultSort;
+
+  const filterValues = useMemo(
+    () => Object.fromEntries(filters.map(f => [f.param, searchParams.get(f.param) || ''])),
+    [filters, searchParams]
+  );
+
+  // Serialised so the fetch effect only re-runs when a value actually changes
+  const filterKey = JSON.stringify(filterValues);
+  const baseFilterKey = JSON.stringify(baseFilters);
+
+  const updateParams = useCallback((changes: Record<string, string | null>) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      for (const [key, value] of Object.entries(changes)) {
+        if (value === null || value === '') next.delete(key);
+        else next.set(key, value);
+      }
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  const setPage = useCallback((nextPage: number) => {
+    updateParams({ page: nextPage > 1 ? String(nextPage) : null });
+  }, [updateParams]);
+
+  // Clicking the active column flips direction, a new column starts descending
+  const toggleSort = useCallback((column: string) => {
+    const ascending = sort.column === column ? !sort.ascending : false;
+    updateParams({ sort: column, dir: ascending ? 'asc' : 'desc', page: null });
+  }, [sort.column, sort.ascending, updateParams]);
+
+  // Changing a filter always goes back to the first page
+  const setFilter = useCallback((param: string, value: string) => {
+    updateParams({ [param]: value, page: null });
+  }, [updateParams]);
+
+  const refetch = useCallback(() => setReloadKey(k => k + 1), []);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const currentRequest = ++requestId.current;
+    const from = (page - 1) * pageSize;
+
+    const load = async () => {
+      setLoading(true);
+      let query = supabase.from(table).select(select, { count: 'exact' });
+      for (const f of baseFilters) {
+        query = query.eq(f.column, f.value);
+      }
+      for (const f of filters) {
+        const value = filterValues[f.param];
+        if (!value) continue;
+        if (f.op === 'ilike') query = query.ilike(f.column, `%${value}%`);
+        else if (f.op === 'gte') query = query.gte(f.column, value);
+        else if (f.op === 'lte') query = query.lte(f.column, value);
+        else if (f.op === 'neq') query = query.neq(f.column, value);
+        else if (f.op === 'fts') query = query.textSearch(f.column, value, { type: 'websearch', config: 'simple' });
+        else query = query.eq(f.column, value);
+      }
+      const { data, error: fetchError, count: total } = await query
+        .order(sort.column, { ascending: sort.ascending })
+        .range(from, from + pageSize - 1);
+
+      // Ignore responses that were overtaken by a newer request
+      if (currentRequest !== requestId.current) return;
+      if (fetchError) {
+        setError(fetchError.message);
+        setRows([]);
+        setCount(0);
+      } else {
+        setError(null);
+        setRows((data as T[]) || []);
+        setCount(total || 0);
+      }
+      setLoading(false);
+    };
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [enabled, table, select, page, pageSize, sort.column, sort.ascending, filterKey, baseFilterKey, reloadKey]);
+
+  const pageCount = Math.max(1, Math.ceil(count / pageSize));
+
+  // Step back when the current page disappears, e.g. after deleting its last row
+  useEffect(() => {
+    if (!loading && count > 0 && page > pageCount) setPage(pageCount);
+  }, [loading, count, page, pageCount, setPage]);
+
+  return {
+    rows,
+    count,
+    loading,
+    error,
+    page,
+    pageCount,
+    pageSize,
+    setPage,
+    sort,
+    toggleSort,
+    filterValues,
+    setFilter,
+    refetch,
+  };
+}
+
+/**
+ * Local state for a free-text filter box. Keystrokes are committed to the URL filter after
+ * `delay` ms, and the box follows the URL when it changes elsewhere (e.g. browser back).
+ */
+export function useFilterInput(urlValue: string, commit: (value: string) => void, delay = 300) {
+  const [input, setInput] = useState(urlValue);
+
+  useEffect(() => {
+    setInput(urlValue);
+  }, [urlValue]);
+
+  useEffect(() => {
+    if (input === urlValue) return;
+    const timer = setTimeout(() => commit(input), delay);
+    return () => clearTimeout(timer);
+  }, [input, urlValue, commit, delay]);
+
+  return [input, setInput] as const;
+}
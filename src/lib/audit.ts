@@ -0,0 +1,44 @@
+// Rows of `audit_log`, written by database triggers on every content table
+
+export type AuditAction = 'insert' | 'update' | 'delete';
+
+export type AuditChange = {
+  old: unknown;
+  new: unknown;
+};
+
+export type AuditEntry = {
+  id: number;
+  created_at: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  table_name: string;
+  row_key: string;
+  action: AuditAction;
+  changes: Record<string, AuditChange>;
+};
+
+// Tables that carry an audit trigger, with the names the dashboard uses for them
+export const AUDITED_TABLES: { value: string; label: string }[] = [
+  { value: 'exam_book', label: 'Exam Books' },
+  { value: 'quiz_sections', label: 'Sections' },
+  { value: 'quiz_categories', label: 'Categories' },
+  { value: 'quizzes', label: 'Quizzes' },
+  { value: 'questions', label: 'Questions' },
+  { value: 'gk_subjects', label: 'GK Subjects' },
+  { value: 'gk_topics', label: 'GK Topics' },
+  { value: 'gk_oneliner_questions', label: 'GK One-Liners' },
+  { value: 'question_reports', label: 'Question Reports' },
+  { value: 'profiles', label: 'Users' },
+];
+
+export function auditTableLabel(table: string): string {
+  return AUDITED_TABLES.find(t => t.value === table)?.label || table;
+}
+
+// Display form of a single before/after value in the diff table
+export function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
@@ -0,0 +1,108 @@
+import { supabase } from '../supabaseClient';
+
+export type BreadcrumbPart = {
+  label: string;
+  to: string;
+};
+
+type QuizRow = { internalQuizKey: string; quizTitle: string; segmentCode: string; languageCode: string };
+type CategoryRow = { segmentCode: string; segmentTitle: string; moduleCode: string };
+type SectionRow = { moduleCode: string; moduleTitle: string; bookRef: string; languageCode: string };
+type BookRow = { book_id: string; title: string };
+
+/**
+ * Resolves the Book › Section › Category › Quiz path for a set of quizzes, keyed by
+ * internalQuizKey. Each part links to the page listing that level's children, with the
+ * same query params the drill-down navigation uses.
+ */
+export async function fetchQuizBreadcrumbs(quizIds: string[]): Promise<Record<string, BreadcrumbPart[]>> {
+  const uniqueQuizIds = [...new Set(quizIds.filter(Boolean))];
+  if (uniqueQuizIds.length === 0) return {};
+
+  const { data: quizzes } = await supabase
+    .from('quizzes')
+    .select('internalQuizKey, quizTitle, segmentCode, languageCode')
+    .in('internalQuizKey', uniqueQuizIds);
+  const quizRows = (quizzes as QuizRow[]) || [];
+
+  const segmentCodes = [...new Set(quizRows.map(q => q.segmentCode).filter(Boolean))];
+  const { data: categories } = segmentCodes.length > 0
+    ? await supabase.from('quiz_categories').select('segmentCode, segmentTitle, moduleCode').in('segmentCode', segmentCodes)
+    : { data: [] };
+  const categoryRows = (categories as CategoryRow[]) || [];
+
+  const moduleCodes = [...new Set(categoryRows.map(c => c.moduleCode).filter(Boolean))];
+  const { data: sections } = moduleCodes.length > 0
+    ? await supabase.from('quiz_sections').select('moduleCode, moduleTitle, bookRef, languageCode').in('moduleCode', moduleCodes)
+    : { data: [] };
+  const sectionRows = (sections as SectionRow[]) || [];
+
+  const bookIds = [...new Set(sectionRows.map(s => s.bookRef).filter(Boolean))];
+  const { data: books } = bookIds.length > 0
+    ? await supabase.from('exam_book').select('book_id, title').in('book_id', bookIds)
+    : { data: [] };
+  const bookRows = (books as BookRow[]) || [];
+
+  const result: Record<string, BreadcrumbPart[]> = {};
+  for (const quiz of quizRows) {
+    const category = categoryRows.find(c => c.segmentCode === quiz.segmentCode);
+    const section = category ? sectionRows.find(s => s.moduleCode === category.moduleCode) : undefined;
+    const book = section ? bookRows.find(b => b.book_id === section.bookRef) : undefined;
+    const bookRef = book?.book_id || section?.bookRef || '';
+    const parts: BreadcrumbPart[] = [];
+    if (book) {
+      parts.push({ label: book.title, to: `/sections/${book.book_id}` });
+    }
+    if (section) {
+      parts.push({
+        label: section.moduleTitle,
+        to: `/categories/${section.moduleCode}?lang=${section.languageCode}&bookRef=${bookRef}`,
+      });
+    }
+    if (category) {
+      parts.push({
+        label: category.segmentTitle,
+        to: `/quizzes/${category.segmentCode}?bookRef=${bookRef}&segmentCode=${category.segmentCode}&lang=${quiz.languageCode}`,
+      });
+    }
+    parts.push({
+      label: quiz.quizTitle,
+      to: `/questions/${quiz.internalQuizKey}?bookRef=${bookRef}&segmentCode=${quiz.segmentCode}&lang=${quiz.languageCode}`,
+    });
+    result[quiz.internalQuizKey] = parts;
+  }
+  return result;
+}
+
+type TopicRow = { id: string; title: string; subject_id: string; language_code: string };
+type SubjectRow = { id: string; title: string };
+
+// Subject › Topic path for GK one-liners, keyed by topic id
+export async function fetchTopicBreadcrumbs(topicIds: string[]): Promise<Record<string, BreadcrumbPart[]>> {
+  const uniqueTopicIds = [...new Set(topicIds.filter(Boolean))];
+  if (uniqueTopicIds.length === 0) return {};
+
+  const { data: topics } = await supabase
+    .from('gk_topics')
+    .select('id, title, subject_id, language_code')
+    .in('id', uniqueTopicIds);
+  const topicRows = (topics as TopicRow[]) || [];
+
+  const subjectIds = [...new Set(topicRows.map(t => t.subject_id).filter(Boolean))];
+  const { data: subjects } = subjectIds.length > 0
+    ? await supabase.from('gk_subjects').select('id, title').in('id', subjectIds)
+    : { data: [] };
+  const subjectRows = (subjects as SubjectRow[]) || [];
+
+  const result: Record<string, BreadcrumbPart[]> = {};
+  for (const topic of topicRows) {
+    const subject = subjectRows.find(s => s.id === topic.subject_id);
+    const parts: BreadcrumbPart[] = [];
+    if (subject) {
+      parts.push({ label: subject.title, to: `/gk-topics/${subject.id}` });
+    }
+    parts.push({ label: topic.title, to: `/gk-oneliner-questions/${topic.id}?language=${topic.language_code}` });
+    result[topic.id] = parts;
+  }
+  return result;
+}
@@ -0,0 +1,35 @@
+import { supabase } from '../supabaseClient';
+import type { CloneLevel } from './cloneTree';
+
+// What a cascading delete removes, counted from the database rather than the stored counters
+export type CascadeCounts = {
+  title: string;
+  books: number;
+  sections: number;
+  categories: number;
+  quizzes: number;
+  questions: number;
+  drafts: number;
+  reports: number;
+};
+
+export type CascadeSource = { level: CloneLevel; key: string; title: string };
+
+export async function previewCascadeDelete(level: CloneLevel, key: string): Promise<CascadeCounts> {
+  const { data, error } = await supabase.rpc('preview_cascade_delete', { p_level: level, p_key: key }).single();
+  if (error) throw new Error(error.message);
+  return data as CascadeCounts;
+}
+
+/**
+ * Moves the item and everything under it to the recycle bin in one transaction. `confirm` must
+ * repeat the item's title; the database checks it again so a stale dialog cannot delete the
+ * wrong thing.
+ */
+export async function cascadeDelete(level: CloneLevel, key: string, confirm: string): Promise<CascadeCounts> {
+  const { data, error } = await supabase
+    .rpc('cascade_delete', { p_level: level, p_key: key, p_confirm: confirm })
+    .single();
+  if (error) throw new Error(error.message);
+  return data as CascadeCounts;
+}
@@ -0,0 +1,399 @@
+import { nanoid } from 'nanoid';
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '../supabaseClient';
+import { selectIn, type LanguageCode } from './translations';
+
+// Deep copies of a hierarchy subtree: exam_book → quiz_sections → quiz_categories → quizzes →
+// questions. Every copied row gets a fresh key and every reference is pointed at the copies.
+
+export type CloneLevel = 'book' | 'section' | 'category' | 'quiz';
+
+export type CloneOptions = {
+  level: CloneLevel;
+  // book_id, moduleCode, segmentCode or internalQuizKey of the subtree root
+  key: string;
+  // Title for the copy of the root
+  title: string;
+  // Book, section or category the copy goes under; defaults to the source's own parent
+  parentKey?: string;
+  // Copy into the other language. The copies are linked to the source as its translation and
+  // questions become translation drafts, since their text still has to be translated.
+  targetLanguage?: LanguageCode;
+  includeQuestions: boolean;
+};
+
+export type CloneCounts = {
+  books: number;
+  sections: number;
+  categories: number;
+  quizzes: number;
+  questions: number;
+  drafts: number;
+};
+
+export type CloneParent = { key: string; title: string };
+
+// The item a clone starts from, as the hierarchy pages know it
+export type CloneSource = { level: CloneLevel; key: string; title: string; languageCode?: string; parentKey?: string };
+
+type Row = Record<string, unknown>;
+
+type CloneTree = {
+  book: Row | null;
+  sections: Row[];
+  categories: Row[];
+  quizzes: Row[];
+};
+
+const INSERT_CHUNK_SIZE = 500;
+const QUIZ_CHUNK_SIZE = 50;
+const PAGE_SIZE = 1000;
+
+// Columns the database fills in, or that should not carry over to a copy
+const DROPPED_COLUMNS = ['id', 'created_at', 'search_vector', 'search_vector_folded', 'translationGroupId', 'publishAt', 'expireAt'];
+
+function stripRow(row: Row): Row {
+  const copy = { ...row };
+  for (const column of DROPPED_COLUMNS) delete copy[column];
+  return copy;
+}
+
+async function selectOne(table: string, column: string, value: string): Promise<Row> {
+  const { data, error } = await supabase.from(table).select('*').eq(column, value).maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) throw new Error('The item to clone was not found');
+  return data as Row;
+}
+
+// Containers of the subtree; questions are counted or streamed separately as there can be many
+async function loadTree(level: CloneLevel, key: string, language?: LanguageCode): Promise<CloneTree> {
+  const tree: CloneTree = { book: null, sections: [], categories: [], quizzes: [] };
+  if (level === 'book') {
+    tree.book = await selectOne('exam_book', 'book_id', key);
+    const { data, error } = await supabase.from('quiz_sections').select('*').eq('bookRef', key).order('displayOrder');
+    if (error) throw new Error(error.message);
+    tree.sections = (data as Row[]) || [];
+  } else if (level === 'section') {
+    tree.sections = [await selectOne('quiz_sections', 'moduleCode', key)];
+  }
+
+  if (level === 'category') tree.categories = [await selectOne('quiz_categories', 'segmentCode', key)];
+  else if (tree.sections.length > 0) {
+    tree.categories = await selectIn<Row>('quiz_categories', '*', 'moduleCode', tree.sections.map(s => String(s.moduleCode)));
+  }
+
+  if (level === 'quiz') tree.quizzes = [await selectOne('quizzes', 'internalQuizKey', key)];
+  else if (tree.categories.length > 0) {
+    tree.quizzes = await selectIn<Row>('quizzes', '*', 'segmentCode', tree.categories.map(c => String(c.segmentCode)));
+  }
+
+  // A book holds both languages; a subtree copied into the other language only takes one
+  if (language && level !== 'book') {
+    const source = [...tree.sections, ...tree.categories, ...tree.quizzes][0]?.languageCode;
+    if (source === language) throw new Error('The copy must be in a different language than the original');
+  }
+  return tree;
+}
+
+async function countQuestions(quizIds: string[]): Promise<number> {
+  let total = 0;
+  for (let i = 0; i < quizIds.length; i += QUIZ_CHUNK_SIZE) {
+    const { count, error } = await supabase
+      .from('questions')
+      .select('questionId', { count: 'exact', head: true })
+      .in('quizId', quizIds.slice(i, i + QUIZ_CHUNK_SIZE));
+    if (error) throw new Error(error.message);
+    total += count || 0;
+  }
+  return total;
+}
+
+// Questions of the given quizzes, a page at a time in a stable order
+async function* streamQuestions(quizIds: string[]): AsyncGenerator<Row[]> {
+  for (let i = 0; i < quizIds.length; i += QUIZ_CHUNK_SIZE) {
+    const chunk = quizIds.slice(i, i + QUIZ_CHUNK_SIZE);
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('questions')
+        .select('*')
+        .in('quizId', chunk)
+        .order('questionId')
+        .range(from, from + PAGE_SIZE - 1);
+      if (error) throw new Error(error.message);
+      if (data && data.length > 0) yield data as Row[];
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+  }
+}
+
+/** Dry run: how many rows a clone with these options would create. Nothing is written. */
+export async function planClone(options: CloneOptions): Promise<CloneCounts> {
+  const tree = await loadTree(options.level, options.key, options.targetLanguage);
+  const questionCount = options.includeQuestions
+    ? await countQuestions(tree.quizzes.map(q => String(q.internalQuizKey)))
+    : 0;
+  return {
+    books: tree.book ? 1 : 0,
+    sections: tree.sections.length,
+    categories: tree.categories.length,
+    quizzes: tree.quizzes.length,
+    questions: options.targetLanguage ? 0 : questionCount,
+    drafts: options.targetLanguage ? questionCount : 0,
+  };
+}
+
+async function insertRows(table: string, rows: Row[]): Promise<void> {
+  for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+    const { error } = await supabase.from(table).insert(rows.slice(i, i + INSERT_CHUNK_SIZE));
+    if (error) throw new Error(error.message);
+  }
+}
+
+/**
+ * Deletes the rows whose `column` is one of `values` and returns the values that still have rows
+ * afterwards. A delete can fail outright or be filtered by RLS without an error, so what is left
+ * is checked instead of trusting the delete.
+ */
+async function deleteIn(table: string, column: string, values: string[]): Promise<string[]> {
+  const left = new Set<string>();
+  for (let i = 0; i < values.length; i += QUIZ_CHUNK_SIZE) {
+    const chunk = values.slice(i, i + QUIZ_CHUNK_SIZE);
+    await supabase.from(table).delete().in(column, chunk);
+    const { data, error } = await supabase.from(table).select(column).in(column, chunk);
+    if (error) chunk.forEach(value => left.add(value));
+    else ((data as unknown as Row[]) || []).forEach(row => left.add(String(row[column])));
+  }
+  return [...left];
+}
+
+/**
+ * Copies the subtree. Copies start hidden (draft status, draft workflow) so a new edition can
+ * be prepared without players seeing it. When a step fails, everything created so far is
+ * deleted again and the error is rethrown, naming anything that could not be removed. Returns
+ * the key of the copied root.
+ */
+export async function executeClone(
+  options: CloneOptions,
+  onProgress?: (message: string) => void
+): Promise<{ rootKey: string; counts: CloneCounts }> {
+  const { level, targetLanguage } = options;
+  const tree = await loadTree(level, options.key, targetLanguage);
+  const counts: CloneCounts = { books: 0, sections: 0, categories: 0, quizzes: 0, questions: 0, drafts: 0 };
+
+  const sectionKeys = new Map<string, string>();
+  const categoryKeys = new Map<string, string>();
+  const quizKeys = new Map<string, string>();
+  const sectionTitles = new Map<string, string>();
+  const categoryTitles = new Map<string, string>();
+  let bookId = '';
+
+  // A copy in the other language joins the source's translation group. Same-language copies get
+  // fresh groups, mapped one to one so English/Hindi pairs inside the subtree stay linked.
+  const groupKeys = new Map<string, string>();
+  const regroup = (groupId: unknown): string => {
+    const key = String(groupId);
+    if (!groupKeys.has(key)) groupKeys.set(key, uuidv4());
+    return groupKeys.get(key)!;
+  };
+  const localize = (row: Row, source: Row): Row =>
+    targetLanguage
+      ? { ...row, languageCode: targetLanguage, translationGroupId: source.translationGroupId }
+      : { ...row, translationGroupId: regroup(source.translationGroupId) };
+
+  try {
+    // --- Book ---
+    if (tree.book) {
+      onProgress?.('Copying book');
+      // book_id is generated by the database
+      const book = stripRow(tree.book);
+      delete book.book_id;
+      const { data, error } = await supabase
+        .from('exam_book')
+        .insert([{ ...book, title: options.title, status: false }])
+        .select('book_id')
+        .single();
+      if (error) throw new Error(error.message);
+      bookId = data.book_id;
+      counts.books = 1;
+    } else if (level === 'section') {
+      bookId = options.parentKey || String(tree.sections[0].bookRef);
+    }
+
+    // --- Sections ---
+    const sections = tree.sections.map(section => {
+      const moduleCode = uuidv4();
+      const moduleTitle = level === 'section' ? options.title : String(section.moduleTitle);
+      sectionKeys.set(String(section.moduleCode), moduleCode);
+      sectionTitles.set(moduleCode, moduleTitle);
+      return localize({ ...stripRow(section), moduleCode, moduleTitle, bookRef: bookId, sectionStatus: 0, liveTimestamp: null }, section);
+    });
+    onProgress?.(`Copying ${sections.length} section(s)`);
+    await insertRows('quiz_sections', sections);
+    counts.sections = sections.length;
+
+    // --- Categories ---
+    const categories = tree.categories.map(category => {
+      const segmentCode = uuidv4();
+      const segmentTitle = level === 'category' ? options.title : String(category.segmentTitle);
+      const moduleCode = sectionKeys.get(String(category.moduleCode)) || options.parentKey || String(category.moduleCode);
+      categoryKeys.set(String(category.segmentCode), segmentCode);
+      categoryTitles.set(segmentCode, segmentTitle);
+      const row: Row = { ...stripRow(category), segmentCode, segmentTitle, moduleCode, categoryStatus: 0 };
+      if (sectionTitles.has(moduleCode)) row.moduleTitle = sectionTitles.get(moduleCode);
+      if ('sectionRef' in row) row.sectionRef = moduleCode;
+      return localize(row, category);
+    });
+    // A category moved under another section takes that section's title
+    if (level === 'category' && options.parentKey && categories.length > 0) {
+      const { data, error } = await supabase.from('quiz_sections').select('moduleTitle').eq('moduleCode', options.parentKey).maybeSingle();
+      if (error) throw new Error(error.message);
+      if (data) categories[0].moduleTitle = data.moduleTitle;
+    }
+    onProgress?.(`Copying ${categories.length} categor${categories.length === 1 ? 'y' : 'ies'}`);
+    await insertRows('quiz_categories', categories);
+    counts.categories = categories.length;
+
+    // --- Quizzes ---
+    const quizzes = tree.quizzes.map(quiz => {
+      const internalQuizKey = uuidv4();
+      const segmentCode = categoryKeys.get(String(quiz.segmentCode)) || options.parentKey || String(quiz.segmentCode);
+      quizKeys.set(String(quiz.internalQuizKey), internalQuizKey);
+      const row: Row = {
+        ...stripRow(quiz),
+        internalQuizKey,
+        segmentCode,
+        quizTitle: level === 'quiz' ? options.title : quiz.quizTitle,
+        // Both, since quizStatus is what the player app reads and new quizzes may not start live
+        workflowState: 'draft',
+        quizStatus: 0,
+        reviewerId: null,
+      };
+      if (categoryTitles.has(segmentCode)) row.segmentTitle = categoryTitles.get(segmentCode);
+      if ('segmentRef' in row) row.segmentRef = segmentCode;
+      return localize(row, quiz);
+    });
+    if (level === 'quiz' && options.parentKey && quizzes.length > 0) {
+      const { data, error } = await supabase.from('quiz_categories').select('segmentTitle').eq('segmentCode', options.parentKey).maybeSingle();
+      if (error) throw new Error(error.message);
+      if (data) quizzes[0].segmentTitle = data.segmentTitle;
+    }
+    onProgress?.(`Copying ${quizzes.length} quiz(zes)`);
+    await insertRows('quizzes', quizzes);
+    counts.quizzes = quizzes.length;
+
+    // --- Questions ---
+    if (options.includeQuestions && quizKeys.size > 0) {
+      const newSegments = new Map(quizzes.map(q => [String(q.internalQuizKey), q.segmentCode]));
+      for await (const page of streamQuestions([...quizKeys.keys()])) {
+        // A source question can only have one pending draft per language
+        const drafted = targetLanguage
+          ? new Set((await selectIn<{ sourceQuestionId: string; status: string }>(
+              'translation_drafts',
+              'sourceQuestionId, status',
+              'sourceQuestionId',
+              page.map(q => String(q.questionId))
+            )).filter(d => d.status === 'pending').map(d => d.sourceQuestionId))
+          : new Set<string>();
+        const rows = page.filter(q => !drafted.has(String(q.questionId))).map(question => {
+          const quizId = quizKeys.get(String(question.quizId))!;
+          // Parents are limited to the same book except for sections, which carry the new bookRef
+          const base = { ...stripRow(question), quizId, segmentCode: newSegments.get(quizId), bookRef: bookId || question.bookRef };
+          if (!targetLanguage) return { ...base, questionId: nanoid(), translationGroupId: regroup(question.translationGroupId) };
+          // Untranslated copies wait in the translation review queue
+          return {
+            sourceQuestionId: question.questionId,
+            quizId,
+            segmentCode: base.segmentCode,
+            bookRef: base.bookRef,
+            translationGroupId: question.translationGroupId,
+            languageCode: targetLanguage,
+            questionType: question.questionType,
+            correctAnswer: question.correctAnswer,
+            questionText: question.questionText,
+            optionA: question.optionA,
+            optionB: question.optionB,
+            optionC: question.optionC,
+            optionD: question.optionD,
+            noteText: question.noteText,
+            previouslyAskedIn: question.previouslyAskedIn,
+            machine_translated: false,
+            provider: null,
+          };
+        });
+        if (targetLanguage) {
+          await insertRows('translation_drafts', rows);
+          counts.drafts += rows.length;
+        } else {
+          await insertRows('questions', rows.map(r => ({ ...r, created_at: new Date().toISOString() })));
+          counts.questions += rows.length;
+        }
+        onProgress?.(`Copied ${counts.questions + counts.drafts} question(s)`);
+      }
+    }
+  } catch (error) {
+    onProgress?.('Clone failed, removing the partial copy');
+    const newQuizKeys = [...quizKeys.values()];
+    // Children first; each entry lists the keys that still have rows after the delete
+    const leftovers: [string, string[]][] = [
+      ['translation drafts in quizzes', await deleteIn('translation_drafts', 'quizId', newQuizKeys)],
+      ['questions in quizzes', await deleteIn('questions', 'quizId', newQuizKeys)],
+      ['quizzes', await deleteIn('quizzes', 'internalQuizKey', newQuizKeys)],
+      ['categories', await deleteIn('quiz_categories', 'segmentCode', [...categoryKeys.values()])],
+      ['sections', await deleteIn('quiz_sections', 'moduleCode', [...sectionKeys.values()])],
+      ['book', counts.books ? await deleteIn('exam_book', 'book_id', [String(bookId)]) : []],
+    ];
+    const kept = leftovers.filter(([, keys]) => keys.length > 0).map(([label, keys]) => `${label} ${keys.join(', ')}`);
+    if (kept.length === 0) throw new Error(`${(error as Error).message} (nothing was kept)`);
+    throw new Error(`${(error as Error).message}. The partial copy could not be fully removed; delete these by hand: ${kept.join('; ')}`);
+  }
+
+  const rootKey =
+    level === 'book' ? bookId
+    : level === 'section' ? [...sectionKeys.values()][0]
+    : level === 'category' ? [...categoryKeys.values()][0]
+    : [...quizKeys.values()][0];
+  return { rootKey, counts };
+}
+
+/**
+ * Where a copy of the given item can go: books for a section, sections of the same book for a
+ * category, and categories of the same book for a quiz, in the requested language.
+ */
+export async function fetchCloneParents(level: CloneLevel, key: string, language: LanguageCode): Promise<CloneParent[]> {
+  if (level === 'book') return [];
+  if (level === 'section') {
+    const { data, error } = await supabase.from('exam_book').select('book_id, title').order('order');
+    if (error) throw new Error(error.message);
+    return (data || []).map(b => ({ key: b.book_id, title: b.title }));
+  }
+
+  // Find the book the item lives in
+  let moduleCode: string;
+  if (level === 'category') {
+    moduleCode = String((await selectOne('quiz_categories', 'segmentCode', key)).moduleCode);
+  } else {
+    const quiz = await selectOne('quizzes', 'internalQuizKey', key);
+    moduleCode = String((await selectOne('quiz_categories', 'segmentCode', String(quiz.segmentCode))).moduleCode);
+  }
+  const bookRef = String((await selectOne('quiz_sections', 'moduleCode', moduleCode)).bookRef);
+
+  const { data: sections, error } = await supabase
+    .from('quiz_sections')
+    .select('moduleCode, moduleTitle')
+    .eq('bookRef', bookRef)
+    .eq('languageCode', language)
+    .order('displayOrder');
+  if (error) throw new Error(error.message);
+  if (level === 'category') return (sections || []).map(s => ({ key: s.moduleCode, title: s.moduleTitle }));
+
+  const categories = await selectIn<{ segmentCode: string; segmentTitle: string; moduleCode: string }>(
+    'quiz_categories',
+    'segmentCode, segmentTitle, moduleCode',
+    'moduleCode',
+    (sections || []).map(s => s.moduleCode)
+  );
+  const sectionTitle = new Map((sections || []).map(s => [s.moduleCode, s.moduleTitle]));
+  return categories
+    .filter(c => c.segmentCode)
+    .map(c => ({ key: c.segmentCode, title: `${sectionTitle.get(c.moduleCode) || ''} › ${c.segmentTitle}` }));
+}
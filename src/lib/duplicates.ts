@@ -0,0 +1,77 @@
+import { supabase } from '../supabaseClient';
+import type { Question } from '../QuestionsPage';
+import { QUESTION_COLUMNS } from './questions';
+import { findSimilarQuestions, normalizeQuestionText, type SimilarityInput, type SimilarityMatch } from './questionSimilarity';
+
+const CANDIDATE_LIMIT = 200;
+const SEARCH_TERM_COUNT = 8;
+const PAGE_SIZE = 1000;
+
+export type DuplicateScope = {
+  quizId: string;
+  bookRef?: string;
+  excludeId?: string;
+};
+
+// The longest words of a question, OR-ed together as a websearch query over search_vector_folded
+function candidateQuery(text: string): string {
+  const words = [...new Set(normalizeQuestionText(text).split(' '))]
+    .filter(w => w.length > 2 && w !== 'or')
+    .sort((a, b) => b.length - a.length)
+    .slice(0, SEARCH_TERM_COUNT);
+  return words.join(' or ');
+}
+
+/**
+ * Looks for existing questions that resemble `values`, within the same book when one is known
+ * and otherwise within the quiz. Full-text search narrows the candidates; the final scoring
+ * happens client-side so markdown and Hindi spelling variants are folded the same way.
+ */
+export async function findDuplicateQuestions(
+  values: SimilarityInput,
+  scope: DuplicateScope
+): Promise<SimilarityMatch<Question>[]> {
+  const query = candidateQuery(values.questionText);
+  if (!query) return [];
+
+  let request = supabase
+    .from('questions')
+    .select(QUESTION_COLUMNS)
+    .textSearch('search_vector_folded', query, { type: 'websearch', config: 'simple' })
+    .limit(CANDIDATE_LIMIT);
+  request = scope.bookRef ? request.eq('bookRef', scope.bookRef) : request.eq('quizId', scope.quizId);
+  if (scope.excludeId) request = request.neq('questionId', scope.excludeId);
+
+  const { data, error } = await request;
+  if (error) throw new Error(error.message);
+  return findSimilarQuestions(values, (data as unknown as Question[]) || []);
+}
+
+// Every question in a book, fetched in pages to stay under the API row limit
+export async function fetchBookQuestions(bookRef: string): Promise<Question[]> {
+  const questions: Question[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('questions')
+      .select(QUESTION_COLUMNS)
+      .eq('bookRef', bookRef)
+      .order('created_at', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    const page = (data as unknown as Question[]) || [];
+    questions.push(...page);
+    if (page.length < PAGE_SIZE) break;
+  }
+  return questions;
+}
+
+/**
+ * Keeps `keepId` and moves the other questions of a duplicate cluster to the recycle bin.
+ * Player reports against the removed questions are moved to the kept one in the same
+ * transaction, so none are lost and nothing moves if the delete is refused.
+ */
+export async function mergeDuplicateQuestions(keepId: string, removeIds: string[]): Promise<void> {
+  if (removeIds.length === 0) return;
+  const { error } = await supabase.rpc('merge_duplicate_questions', { p_keep: keepId, p_remove: removeIds });
+  if (error) throw new Error(error.message);
+}
@@ -0,0 +1,28 @@
+import { supabase } from '../supabaseClient';
+import type { CloneLevel } from './cloneTree';
+
+// A stored counter that disagrees with the rows under it. The database keeps the counters up
+// to date with triggers, so drift means rows were changed with the triggers bypassed.
+export type CounterDrift = {
+  level: CloneLevel;
+  key: string;
+  title: string | null;
+  counter: 'questionVolume' | 'setCount' | 'total_category_hi' | 'total_category_en';
+  stored: number | null;
+  actual: number;
+};
+
+async function recalculate(apply: boolean): Promise<CounterDrift[]> {
+  const { data, error } = await supabase.rpc('recalculate_counters', { p_apply: apply });
+  if (error) throw new Error(error.message);
+  return (data || []) as CounterDrift[];
+}
+
+export function findCounterDrift(): Promise<CounterDrift[]> {
+  return recalculate(false);
+}
+
+/** Rewrites every drifted counter from the real rows. Returns the counters that were fixed. */
+export function fixCounterDrift(): Promise<CounterDrift[]> {
+  return recalculate(true);
+}
@@ -0,0 +1,58 @@
+import { supabase } from '../supabaseClient';
+import type { CloneLevel } from './cloneTree';
+
+// Levels that can be moved; a book has no parent
+export type MoveLevel = Exclude<CloneLevel, 'book'>;
+
+export type MoveTarget = { key: string; label: string };
+
+// The item being moved and the parent it currently sits under
+export type MoveSource = { level: MoveLevel; key: string; title: string; languageCode: string; parentKey: string };
+
+type BookRow = { book_id: string; title: string };
+type SectionRow = { moduleCode: string; moduleTitle: string; bookRef: string };
+type CategoryRow = { segmentCode: string; segmentTitle: string; moduleCode: string };
+
+/**
+ * Moves a quiz to another category, a category to another section or a section to another
+ * book. The database rewrites the denormalized segmentCode/bookRef on questions and fixes the
+ * displayOrder of both parents in one transaction. Returns the number of questions updated.
+ */
+export async function moveHierarchyItem(level: MoveLevel, key: string, targetKey: string): Promise<number> {
+  const { data, error } = await supabase.rpc('move_hierarchy_item', { p_level: level, p_key: key, p_target: targetKey });
+  if (error) throw new Error(error.message);
+  return (data as number) || 0;
+}
+
+/**
+ * Every parent an item of the given level and language can move to, labelled with its full
+ * path (Book › Section › Category) since titles repeat across books.
+ */
+export async function fetchMoveTargets(level: MoveLevel, languageCode: string): Promise<MoveTarget[]> {
+  const { data: books, error: booksError } = await supabase.from('exam_book').select('book_id, title').order('order');
+  if (booksError) throw new Error(booksError.message);
+  const bookRows = (books as BookRow[]) || [];
+  if (level === 'section') return bookRows.map(b => ({ key: b.book_id, label: b.title }));
+
+  const bookTitles = new Map(bookRows.map(b => [b.book_id, b.title]));
+  const { data: sections, error: sectionsError } = await supabase
+    .from('quiz_sections')
+    .select('moduleCode, moduleTitle, bookRef')
+    .eq('languageCode', languageCode)
+    .order('displayOrder');
+  if (sectionsError) throw new Error(sectionsError.message);
+  const sectionLabels = new Map(
+    ((sections as SectionRow[]) || []).map(s => [s.moduleCode, `${bookTitles.get(s.bookRef) || '?'} › ${s.moduleTitle}`])
+  );
+  if (level === 'category') return [...sectionLabels].map(([key, label]) => ({ key, label }));
+
+  const { data: categories, error: categoriesError } = await supabase
+    .from('quiz_categories')
+    .select('segmentCode, segmentTitle, moduleCode')
+    .eq('languageCode', languageCode)
+    .order('displayOrder');
+  if (categoriesError) throw new Error(categoriesError.message);
+  return ((categories as CategoryRow[]) || [])
+    .map(c => ({ key: c.segmentCode, label: `${sectionLabels.get(c.moduleCode) || '?'} › ${c.segmentTitle}` }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+}
@@ -0,0 +1,38 @@
+import katex from 'katex';
+// Registers \ce{...} and \pu{...} for chemical equations and units
+import 'katex/contrib/mhchem';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+
+// Formulas are written in LaTeX between $...$ (inline) or $$...$$ (on their own line), the same
+// syntax the player app renders. Malformed formulas are shown in red instead of breaking the page.
+
+const KATEX_OPTIONS = { throwOnError: false, strict: false } as const;
+
+export const MARKDOWN_REMARK_PLUGINS = [remarkMath];
+export const MARKDOWN_REHYPE_PLUGINS: [typeof rehypeKatex, typeof KATEX_OPTIONS][] = [[rehypeKatex, KATEX_OPTIONS]];
+
+const MATH_PATTERN = /\$\$([\s\S]+?)\$\$|\$([^$\n]+?)\$/g;
+
+export function hasMath(text: string | null | undefined): boolean {
+  return !!text && new RegExp(MATH_PATTERN.source).test(text);
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[ch] as string);
+
+/**
+ * HTML for plain text that may contain formulas, such as an answer option. Only the formulas
+ * are interpreted; everything else is escaped, so options are not suddenly parsed as markdown.
+ */
+export function mathTextToHtml(text: string): string {
+  let html = '';
+  let last = 0;
+  for (const match of text.matchAll(MATH_PATTERN)) {
+    html += escapeHtml(text.slice(last, match.index));
+    const display = match[1] !== undefined;
+    html += katex.renderToString(display ? match[1] : match[2], { ...KATEX_OPTIONS, displayMode: display });
+    last = (match.index ?? 0) + match[0].length;
+  }
+  return html + escapeHtml(text.slice(last));
+}
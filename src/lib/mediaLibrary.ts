@@ -0,0 +1,89 @@
+import { supabase } from '../supabaseClient';
+import { MEDIA_BUCKET } from './mediaUpload';
+
+export type MediaReference = {
+  // The last three are not live content but can be brought back, so they still count as uses
+  kind: 'book' | 'section' | 'quiz' | 'question' | 'recycle_bin' | 'translation_draft' | 'question_version';
+  key: string;
+  title: string | null;
+};
+
+// An object in the media bucket, as returned by list_media_assets()
+export type MediaAsset = {
+  path: string;
+  size: number | null;
+  mime_type: string | null;
+  width: number | null;
+  height: number | null;
+  original_name: string | null;
+  created_at: string;
+  refs: MediaReference[];
+};
+
+export type MediaAssetQuery = {
+  search?: string;
+  unusedOnly?: boolean;
+  // Only assets uploaded before this time; see UNUSED_GRACE_HOURS
+  uploadedBefore?: Date;
+  limit: number;
+  offset: number;
+};
+
+// A new upload stays unreferenced until the form it was dropped into is saved, so cleanup leaves
+// recent uploads alone
+export const UNUSED_GRACE_HOURS = 24;
+
+const REMOVE_CHUNK_SIZE = 100;
+
+export const MEDIA_REFERENCE_LABELS: Record<MediaReference['kind'], string> = {
+  book: 'Exam Book',
+  section: 'Section',
+  quiz: 'Quiz',
+  question: 'Question',
+  recycle_bin: 'Recycle Bin',
+  translation_draft: 'Translation Draft',
+  question_version: 'Question History',
+};
+
+export function mediaUrl(path: string): string {
+  return supabase.storage.from(MEDIA_BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+export async function fetchMediaAssets(query: MediaAssetQuery): Promise<{ assets: MediaAsset[]; total: number }> {
+  const { data, error } = await supabase.rpc('list_media_assets', {
+    p_search: query.search || null,
+    p_unused_only: !!query.unusedOnly,
+    p_uploaded_before: query.uploadedBefore?.toISOString() ?? null,
+    p_limit: query.limit,
+    p_offset: query.offset,
+  });
+  if (error) throw new Error(error.message);
+  const rows = (data || []) as (MediaAsset & { total: number })[];
+  return { assets: rows, total: rows[0]?.total ?? 0 };
+}
+
+/** Paths of every asset nothing refers to that is older than the grace period. */
+export async function fetchUnusedMediaPaths(): Promise<string[]> {
+  const uploadedBefore = new Date(Date.now() - UNUSED_GRACE_HOURS * 60 * 60 * 1000);
+  const paths: string[] = [];
+  for (let offset = 0; ; offset += 1000) {
+    const { assets } = await fetchMediaAssets({ unusedOnly: true, uploadedBefore, limit: 1000, offset });
+    paths.push(...assets.map(asset => asset.path));
+    if (assets.length < 1000) return paths;
+  }
+}
+
+/** Deletes files from the bucket for good. Content still pointing at them shows a broken image. */
+export async function deleteMediaAssets(paths: string[]): Promise<void> {
+  for (let i = 0; i < paths.length; i += REMOVE_CHUNK_SIZE) {
+    const { error } = await supabase.storage.from(MEDIA_BUCKET).remove(paths.slice(i, i + REMOVE_CHUNK_SIZE));
+    if (error) throw new Error(error.message);
+  }
+}
+
+export function formatBytes(bytes: number | null): string {
+  if (bytes == null) return '-';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
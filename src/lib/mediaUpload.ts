@@ -0,0 +1,87 @@
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '../supabaseClient';
+
+export const MEDIA_BUCKET = 'media';
+
+// Top-level folders of the bucket, one per kind of image
+export type MediaFolder = 'books' | 'sections' | 'quizzes' | 'questions';
+
+// Matches the bucket's file_size_limit
+export const MAX_MEDIA_BYTES = 5 * 1024 * 1024;
+
+// Longest side after resizing. Icons are shown at thumbnail size; covers and question images
+// can fill the screen of a phone.
+export const MEDIA_MAX_DIMENSION: Record<MediaFolder, number> = {
+  books: 512,
+  sections: 512,
+  quizzes: 1280,
+  questions: 1280,
+};
+
+const WEBP_QUALITY = 0.82;
+
+// Vector images and animations lose what makes them useful when drawn onto a canvas
+const UPLOADED_AS_IS = ['image/svg+xml', 'image/gif'];
+
+const EXTENSIONS: Record<string, string> = {
+  'image/webp': 'webp',
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+};
+
+export type CompressedImage = {
+  blob: Blob;
+  // Unknown for images that are uploaded as they are
+  width: number | null;
+  height: number | null;
+};
+
+/**
+ * Scales the image down to fit `maxDimension` and re-encodes it as WebP. Browsers that cannot
+ * encode WebP fall back to PNG; the returned blob's type says which one was produced.
+ */
+export async function compressImage(file: Blob, maxDimension: number): Promise<CompressedImage> {
+  if (UPLOADED_AS_IS.includes(file.type)) return { blob: file, width: null, height: null };
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('This browser cannot process images');
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/webp', WEBP_QUALITY));
+  if (!blob) throw new Error('Could not compress the image');
+  // Re-encoding an already small, well-compressed file can make it bigger
+  const keepOriginal = blob.size >= file.size && scale === 1 && file.type in EXTENSIONS;
+  return { blob: keepOriginal ? file : blob, width: canvas.width, height: canvas.height };
+}
+
+/** Compresses an image and uploads it to the media bucket. Returns its public URL. */
+export async function uploadMedia(file: Blob, folder: MediaFolder): Promise<string> {
+  if (!file.type.startsWith('image/')) throw new Error('Only images can be uploaded');
+  const { blob: compressed, width, height } = await compressImage(file, MEDIA_MAX_DIMENSION[folder]);
+  if (compressed.size > MAX_MEDIA_BYTES) {
+    throw new Error(`The image is larger than ${MAX_MEDIA_BYTES / 1024 / 1024} MB after compression`);
+  }
+  const extension = EXTENSIONS[compressed.type];
+  if (!extension) throw new Error(`Unsupported image type ${compressed.type}`);
+
+  const path = `${folder}/${uuidv4()}.${extension}`;
+  const { error } = await supabase.storage.from(MEDIA_BUCKET).upload(path, compressed, {
+    contentType: compressed.type,
+    cacheControl: '31536000',
+    // Read back by the media library, which cannot decode every image to measure it
+    metadata: {
+      width,
+      height,
+      originalName: file instanceof File ? file.name : null,
+    },
+  });
+  if (error) throw new Error(error.message);
+  return supabase.storage.from(MEDIA_BUCKET).getPublicUrl(path).data.publicUrl;
+}
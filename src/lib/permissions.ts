@@ -0,0 +1,51 @@
+import type { User } from '@supabase/supabase-js';
+
+// Dashboard roles, from least to most privileged
+export const ROLES = ['viewer', 'editor', 'reviewer', 'super-admin'] as const;
+export type Role = (typeof ROLES)[number];
+
+export type Permission =
+  | 'content.view'
+  | 'content.edit'
+  | 'content.delete'
+  | 'quiz.publish'
+  | 'audit.view'
+  | 'reports.resolve'
+  | 'users.view'
+  | 'users.delete';
+
+// Each role gets its own permissions plus everything granted to the roles before it
+const GRANTS: Record<Role, Permission[]> = {
+  viewer: ['content.view'],
+  editor: ['content.edit', 'reports.resolve', 'users.view'],
+  reviewer: ['content.delete', 'quiz.publish', 'audit.view'],
+  'super-admin': ['users.delete'],
+};
+
+const ROLE_PERMISSIONS = Object.fromEntries(
+  ROLES.map((role, i) => [role, new Set(ROLES.slice(0, i + 1).flatMap(r => GRANTS[r]))])
+) as Record<Role, Set<Permission>>;
+
+export const ROLE_LABELS: Record<Role, string> = {
+  viewer: 'Viewer',
+  editor: 'Editor',
+  reviewer: 'Reviewer',
+  'super-admin': 'Super Admin',
+};
+
+/**
+ * The dashboard role of a signed-in user, or null if they have no dashboard access.
+ * Roles are read from `app_metadata.role`, which only the service role can set, so users
+ * cannot grant themselves access. This is the same claim has_admin_role() checks in the
+ * database; legacy `user_metadata.is_admin` admins were moved over by the admin_roles migration.
+ */
+export function getUserRole(user: User | null | undefined): Role | null {
+  if (!user) return null;
+  const role = user.app_metadata?.role;
+  if (ROLES.includes(role)) return role as Role;
+  return null;
+}
+
+export function roleHasPermission(role: Role | null, permission: Permission): boolean {
+  return role !== null && ROLE_PERMISSIONS[role].has(permission);
+}
@@ -0,0 +1,170 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import Papa from 'papaparse';
+import katexCssUrl from 'katex/dist/katex.min.css?url';
+import { supabase } from '../supabaseClient';
+import type { Question } from '../QuestionsPage';
+import { IMPORT_COLUMNS } from './questionImport';
+import { QUESTION_COLUMNS } from './questions';
+import { MARKDOWN_REHYPE_PLUGINS, MARKDOWN_REMARK_PLUGINS, mathTextToHtml } from './math';
+
+export type ExportScope = {
+  column: 'quizId' | 'segmentCode' | 'bookRef';
+  value: string;
+};
+
+// Supabase caps a single select at 1000 rows, so large scopes are read in pages
+const FETCH_PAGE_SIZE = 1000;
+
+export async function fetchQuestionsForExport(scope: ExportScope): Promise<Question[]> {
+  const all: Question[] = [];
+  for (let from = 0; ; from += FETCH_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('questions')
+      .select(QUESTION_COLUMNS)
+      .eq(scope.column, scope.value)
+      .order('quizId')
+      .order('created_at', { ascending: true })
+      .range(from, from + FETCH_PAGE_SIZE - 1);
+    if (error) throw error;
+    all.push(...((data as unknown as Question[]) || []));
+    if (!data || data.length < FETCH_PAGE_SIZE) break;
+  }
+  return all;
+}
+
+// Titles of the quizzes a set of questions belongs to, keyed by internalQuizKey
+export async function fetchQuizTitles(questions: Question[]): Promise<Record<string, string>> {
+  const quizIds = [...new Set(questions.map(q => q.quizId))];
+  if (quizIds.length === 0) return {};
+  const { data, error } = await supabase
+    .from('quizzes')
+    .select('internalQuizKey, quizTitle')
+    .in('internalQuizKey', quizIds);
+  if (error) throw error;
+  return Object.fromEntries((data || []).map(q => [q.internalQuizKey, q.quizTitle]));
+}
+
+// Human readable name of an export scope, used for headings and file names
+export async function fetchScopeTitle(scope: ExportScope): Promise<string> {
+  if (scope.column === 'quizId') {
+    const { data } = await supabase.from('quizzes').select('quizTitle').eq('internalQuizKey', scope.value).maybeSingle();
+    return data?.quizTitle || 'Quiz';
+  }
+  if (scope.column === 'segmentCode') {
+    const { data } = await supabase.from('quiz_categories').select('segmentTitle').eq('segmentCode', scope.value).limit(1).maybeSingle();
+    return data?.segmentTitle || 'Category';
+  }
+  const { data } = await supabase.from('exam_book').select('title').eq('book_id', scope.value).maybeSingle();
+  return data?.title || 'Exam Book';
+}
+
+function downloadBlob(content: BlobPart, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Same leading columns as the import template, so an export can be edited and re-imported
+export function exportQuestionsCsv(questions: Question[], fileBase: string) {
+  const columns = [...IMPORT_COLUMNS, 'questionType', 'languageCode', 'questionId', 'quizId', 'segmentCode', 'bookRef'] as const;
+  const csv = Papa.unparse({
+    fields: [...columns],
+    data: questions.map(q => columns.map(c => q[c] ?? '')),
+  });
+  // Prefix with a BOM so Excel opens Hindi text as UTF-8
+  downloadBlob('\uFEFF' + csv, `${fileBase}.csv`, 'text/csv;charset=utf-8');
+}
+
+export function exportQuestionsJson(questions: Question[], fileBase: string) {
+  downloadBlob(JSON.stringify(questions, null, 2), `${fileBase}.json`, 'application/json');
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const markdownToHtml = (markdown: string) =>
+  renderToStaticMarkup(createElement(ReactMarkdown, {
+    remarkPlugins: MARKDOWN_REMARK_PLUGINS,
+    rehypePlugins: MARKDOWN_REHYPE_PLUGINS,
+    children: markdown,
+  }));
+
+const OPTION_KEYS = [
+  ['a', 'optionA'],
+  ['b', 'optionB'],
+  ['c', 'optionC'],
+  ['d', 'optionD'],
+] as const;
+
+// Writes a print-ready question paper followed by an answer key on a new page into
+// `win`; the browser's print dialog can save it as a PDF. The caller opens the window
+// synchronously from the click handler so pop-up blockers let it through.
+export function writePrintableQuestionPaper(
+  win: Window,
+  questions: Question[],
+  title: string,
+  quizTitles: Record<string, string> = {}
+) {
+  const multipleQuizzes = new Set(questions.map(q => q.quizId)).size > 1;
+  let lastQuizId = '';
+  const paper = questions.map((q, idx) => {
+    const heading = multipleQuizzes && q.quizId !== lastQuizId
+      ? `<h2>${escapeHtml(quizTitles[q.quizId] || q.quizId)}</h2>`
+      : '';
+    lastQuizId = q.quizId;
+    const options = OPTION_KEYS
+      .filter(([, key]) => q[key])
+      .map(([letter, key]) => `<li><span class="opt">(${letter})</span> ${mathTextToHtml(q[key] || '')}</li>`)
+      .join('');
+    return `${heading}<div class="question"><div class="stem"><span class="num">${idx + 1}.</span>${markdownToHtml(q.questionText || '')}</div><ol class="options">${options}</ol></div>`;
+  }).join('');
+  const answers = questions.map((q, idx) => {
+    const note = q.noteText ? `<div class="note">${markdownToHtml(q.noteText)}</div>` : '';
+    return `<li><strong>${idx + 1}. (${q.correctAnswer})</strong>${note}</li>`;
+  }).join('');
+
+  const html = `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<link rel="stylesheet" href="${new URL(katexCssUrl, window.location.href).href}" />
+<style>
+  body { font-family: 'Noto Sans', 'Noto Sans Devanagari', Arial, sans-serif; margin: 2cm; color: #111; }
+  h1 { text-align: center; margin-bottom: 0.2em; }
+  h2 { margin-top: 1.5em; border-bottom: 1px solid #999; }
+  .meta { text-align: center; color: #555; margin-bottom: 2em; }
+  .question { break-inside: avoid; margin-bottom: 1.2em; }
+  .stem { display: flex; gap: 0.5em; }
+  .stem p { margin: 0; }
+  .num { font-weight: bold; }
+  .options { list-style: none; padding-left: 1.5em; margin: 0.4em 0 0; }
+  .opt { font-weight: 600; margin-right: 0.3em; }
+  .answer-key { break-before: page; }
+  .answer-key ol { list-style: none; padding: 0; }
+  .answer-key li { margin-bottom: 0.6em; break-inside: avoid; }
+  .note { color: #444; font-size: 0.9em; margin-left: 1.5em; }
+  .note p { margin: 0.2em 0; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<div class="meta">${questions.length} question${questions.length === 1 ? '' : 's'}</div>
+${paper}
+<section class="answer-key">
+<h1>Answer Key</h1>
+<ol>${answers}</ol>
+</section>
+<script>window.onload = function () { window.print(); };</script>
+</body>
+</html>`;
+
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+}
@@ -0,0 +1,125 @@
+import Papa from 'papaparse';
+import readXlsxFile from 'read-excel-file';
+import { questionSchema, type QuestionForm } from '../molecules/QuestionDialog';
+
+// Spreadsheet columns understood by the importer, in template order
+export const IMPORT_COLUMNS = [
+  'questionText',
+  'optionA',
+  'optionB',
+  'optionC',
+  'optionD',
+  'correctAnswer',
+  'noteText',
+  'previouslyAskedIn',
+] as const;
+
+type ImportColumn = (typeof IMPORT_COLUMNS)[number];
+
+const REQUIRED_COLUMNS: ImportColumn[] = ['questionText', 'optionA', 'optionB', 'correctAnswer'];
+
+export type ImportRow = {
+  rowNumber: number; // 1-based spreadsheet row, header is row 1
+  questionText: string;
+  correctAnswer: string;
+  values: QuestionForm | null;
+  errors: string[];
+};
+
+// "Option A", "option_a" and "OPTIONA" all map to optionA
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z]/g, '');
+
+const cellToString = (value: unknown) => (value == null ? '' : String(value).trim());
+
+const isTrueFalsePair = (a: string, b: string) =>
+  a.toLowerCase() === 'true' && b.toLowerCase() === 'false';
+
+// One object per data row, keyed by the header row. Reads the first sheet of an .xlsx workbook,
+// anything else as CSV.
+async function readRecords(file: File): Promise<{ headers: string[]; records: Record<string, unknown>[] }> {
+  if (/\.xls$/i.test(file.name)) {
+    throw new Error('Old .xls files are not supported; save the sheet as .xlsx or CSV first');
+  }
+  if (/\.xlsx$/i.test(file.name)) {
+    const [headerRow = [], ...rows] = await readXlsxFile(file);
+    const headers = headerRow.map(cellToString);
+    return { headers, records: rows.map(row => Object.fromEntries(headers.map((h, i) => [h, row[i]]))) };
+  }
+  // Blank lines are kept so row numbers match the file; they are skipped below
+  const result = Papa.parse<Record<string, string>>((await file.text()).replace(/^\uFEFF/, ''), { header: true });
+  return { headers: result.meta.fields || [], records: result.data };
+}
+
+export async function parseQuestionFile(file: File, languageCode: 'en' | 'hi'): Promise<ImportRow[]> {
+  const { headers, records } = await readRecords(file);
+  const headerMap = new Map<ImportColumn, string>();
+  for (const column of IMPORT_COLUMNS) {
+    const match = headers.find(h => normalizeHeader(h) === normalizeHeader(column));
+    if (match) headerMap.set(column, match);
+  }
+  const missing = REQUIRED_COLUMNS.filter(c => !headerMap.has(c));
+  if (missing.length > 0) {
+    throw new Error(`Missing column(s): ${missing.join(', ')}`);
+  }
+
+  const rows: ImportRow[] = [];
+  records.forEach((record, idx) => {
+    const cell = (column: ImportColumn) => {
+      const header = headerMap.get(column);
+      return header ? cellToString(record[header]) : '';
+    };
+    const raw = Object.fromEntries(IMPORT_COLUMNS.map(c => [c, cell(c)])) as Record<ImportColumn, string>;
+    // Skip completely blank lines instead of reporting them as invalid
+    if (IMPORT_COLUMNS.every(c => raw[c] === '')) return;
+
+    const errors: string[] = [];
+    const correctAnswer = raw.correctAnswer.toLowerCase();
+    if (raw.correctAnswer && !['a', 'b', 'c', 'd'].includes(correctAnswer)) {
+      errors.push('correctAnswer must be one of a, b, c or d');
+    }
+    const questionType = !raw.optionC && !raw.optionD && isTrueFalsePair(raw.optionA, raw.optionB) ? 2 : 1;
+
+    const result = questionSchema.safeParse({
+      questionType,
+      correctAnswer: errors.length > 0 ? undefined : correctAnswer || undefined,
+      optionA: questionType === 2 ? 'True' : raw.optionA,
+      optionB: questionType === 2 ? 'False' : raw.optionB,
+      optionC: raw.optionC,
+      optionD: raw.optionD,
+      previouslyAskedIn: raw.previouslyAskedIn,
+      languageCode,
+      questionText: raw.questionText,
+      noteText: raw.noteText,
+    });
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        if (!errors.includes(issue.message)) errors.push(issue.message);
+      }
+    }
+    if (questionType === 2 && ['c', 'd'].includes(correctAnswer)) {
+      errors.push('True/False questions can only have a or b as the correct answer');
+    }
+
+    rows.push({
+      rowNumber: idx + 2,
+      questionText: raw.questionText,
+      correctAnswer: raw.correctAnswer,
+      values: errors.length === 0 && result.success ? result.data : null,
+      errors,
+    });
+  });
+  return rows;
+}
+
+export function downloadImportTemplate() {
+  const csv = Papa.unparse([
+    [...IMPORT_COLUMNS],
+    ['What is the capital of India?', 'Mumbai', 'New Delhi', 'Kolkata', 'Chennai', 'b', '', 'SSC CGL 2019'],
+  ]);
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'questions-template.csv';
+  link.click();
+  URL.revokeObjectURL(url);
+}
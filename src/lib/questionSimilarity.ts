@@ -0,0 +1,189 @@
+import type { Question } from '../QuestionsPage';
+
+export type SimilarityInput = Pick<Question, 'questionText' | 'optionA' | 'optionB' | 'optionC' | 'optionD'>;
+
+// Scores at or above this are reported as likely duplicates
+export const DUPLICATE_THRESHOLD = 0.8;
+
+// Question text carries most of the weight; identical stems with different options are
+// usually distinct questions ("Which of these is NOT ...").
+const TEXT_WEIGHT = 0.75;
+
+const DEVANAGARI_DIGITS = '०१२३४५६७८९';
+
+/**
+ * Folds a markdown/HTML question field down to comparable plain text: markup removed,
+ * case and whitespace folded, punctuation (including the Devanagari danda) dropped,
+ * Devanagari digits mapped to ASCII, and nukta/chandrabindu spelling variants unified.
+ */
+export function normalizeQuestionText(text: string | null | undefined): string {
+  if (!text) return '';
+  return text
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/&nbsp;/g, ' ')
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[०-९]/g, d => String(DEVANAGARI_DIGITS.indexOf(d)))
+    .replace(/़/g, '')
+    .replace(/ँ/g, 'ं')
+    .replace(/[^\p{L}\p{M}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export type QuestionFingerprint = {
+  text: string;
+  tokens: string[];
+  bigrams: Map<string, number>;
+  options: string[];
+};
+
+function bigramCounts(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  const chars = Array.from(text);
+  for (let i = 0; i < chars.length - 1; i++) {
+    const gram = chars[i] + chars[i + 1];
+    counts.set(gram, (counts.get(gram) || 0) + 1);
+  }
+  return counts;
+}
+
+export function fingerprintQuestion(q: SimilarityInput): QuestionFingerprint {
+  const text = normalizeQuestionText(q.questionText);
+  return {
+    text,
+    tokens: text ? text.split(' ') : [],
+    bigrams: bigramCounts(text),
+    options: [q.optionA, q.optionB, q.optionC, q.optionD]
+      .map(normalizeQuestionText)
+      .filter(Boolean)
+      .sort(),
+  };
+}
+
+// Sørensen–Dice coefficient over character bigram multisets
+function diceCoefficient(a: Map<string, number>, b: Map<string, number>): number {
+  let sizeA = 0;
+  let sizeB = 0;
+  let overlap = 0;
+  for (const count of a.values()) sizeA += count;
+  for (const count of b.values()) sizeB += count;
+  if (sizeA + sizeB === 0) return 1;
+  for (const [gram, count] of a) {
+    overlap += Math.min(count, b.get(gram) || 0);
+  }
+  return (2 * overlap) / (sizeA + sizeB);
+}
+
+// Share of options the two questions have in common, ignoring order
+function optionOverlap(a: string[], b: string[]): number {
+  if (a.length === 0 && b.length === 0) return 1;
+  const remaining = [...b];
+  let shared = 0;
+  for (const option of a) {
+    const idx = remaining.indexOf(option);
+    if (idx >= 0) {
+      shared++;
+      remaining.splice(idx, 1);
+    }
+  }
+  return (2 * shared) / (a.length + b.length);
+}
+
+// Similarity between two questions in the range 0 (unrelated) to 1 (identical after normalisation)
+export function compareFingerprints(a: QuestionFingerprint, b: QuestionFingerprint): number {
+  const textScore = a.text === b.text ? 1 : diceCoefficient(a.bigrams, b.bigrams);
+  return TEXT_WEIGHT * textScore + (1 - TEXT_WEIGHT) * optionOverlap(a.options, b.options);
+}
+
+export type SimilarityMatch<T> = {
+  question: T;
+  score: number;
+};
+
+export function findSimilarQuestions<T extends SimilarityInput>(
+  target: SimilarityInput,
+  candidates: T[],
+  threshold = DUPLICATE_THRESHOLD
+): SimilarityMatch<T>[] {
+  const targetPrint = fingerprintQuestion(target);
+  return candidates
+    .map(question => ({ question, score: compareFingerprints(targetPrint, fingerprintQuestion(question)) }))
+    .filter(match => match.score >= threshold)
+    .sort((a, b) => b.score - a.score);
+}
+
+export type DuplicateCluster<T> = {
+  questions: T[];
+  // Highest pairwise score inside the cluster
+  score: number;
+};
+
+/**
+ * Groups questions into clusters of likely duplicates. Only pairs that share at least one
+ * reasonably rare word are compared, which keeps a scan of a whole book far below n².
+ */
+export function clusterDuplicates<T extends SimilarityInput>(
+  questions: T[],
+  threshold = DUPLICATE_THRESHOLD
+): DuplicateCluster<T>[] {
+  const prints = questions.map(fingerprintQuestion);
+  const maxDocFrequency = Math.max(50, Math.ceil(questions.length * 0.05));
+
+  const index = new Map<string, number[]>();
+  prints.forEach((p, i) => {
+    for (const token of new Set(p.tokens)) {
+      const list = index.get(token);
+      if (list) list.push(i);
+      else index.set(token, [i]);
+    }
+  });
+
+  const parent = questions.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const bestScore = new Map<string, number>();
+  const compared = new Set<string>();
+
+  for (const postings of index.values()) {
+    if (postings.length < 2 || postings.length > maxDocFrequency) continue;
+    for (let x = 0; x < postings.length; x++) {
+      for (let y = x + 1; y < postings.length; y++) {
+        const i = postings[x];
+        const j = postings[y];
+        const key = `${i}:${j}`;
+        if (compared.has(key)) continue;
+        compared.add(key);
+        const score = compareFingerprints(prints[i], prints[j]);
+        if (score < threshold) continue;
+        const rootI = find(i);
+        const rootJ = find(j);
+        if (rootI !== rootJ) parent[rootI] = rootJ;
+        bestScore.set(key, score);
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  questions.forEach((_, i) => {
+    const root = find(i);
+    const group = groups.get(root);
+    if (group) group.push(i);
+    else groups.set(root, [i]);
+  });
+
+  const clusters: DuplicateCluster<T>[] = [];
+  for (const members of groups.values()) {
+    if (members.length < 2) continue;
+    let score = 0;
+    for (let x = 0; x < members.length; x++) {
+      for (let y = x + 1; y < members.length; y++) {
+        const [i, j] = members[x] < members[y] ? [members[x], members[y]] : [members[y], members[x]];
+        score = Math.max(score, bestScore.get(`${i}:${j}`) || 0);
+      }
+    }
+    clusters.push({ questions: members.map(i => questions[i]), score });
+  }
+  return clusters.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,63 @@
+import { supabase } from '../supabaseClient';
+
+// Snapshot of a question's editable fields, written by a trigger on every saved change
+export type QuestionVersion = {
+  id: number;
+  questionId: string;
+  version: number;
+  questionType: number;
+  questionText: string;
+  correctAnswer: 'a' | 'b' | 'c' | 'd';
+  optionA: string;
+  optionB: string;
+  optionC?: string | null;
+  optionD?: string | null;
+  noteText?: string | null;
+  previouslyAskedIn?: string | null;
+  languageCode: 'en' | 'hi';
+  created_at: string;
+  actor_email?: string | null;
+};
+
+// Fields shown in the history diff, in display order
+export const VERSIONED_FIELDS = [
+  { key: 'questionText', label: 'Question' },
+  { key: 'optionA', label: 'Option A' },
+  { key: 'optionB', label: 'Option B' },
+  { key: 'optionC', label: 'Option C' },
+  { key: 'optionD', label: 'Option D' },
+  { key: 'correctAnswer', label: 'Correct Answer' },
+  { key: 'noteText', label: 'Note' },
+  { key: 'previouslyAskedIn', label: 'Previously Asked In' },
+] as const;
+
+// Newest first
+export async function fetchQuestionVersions(questionId: string): Promise<QuestionVersion[]> {
+  const { data, error } = await supabase
+    .from('question_versions')
+    .select('*')
+    .eq('questionId', questionId)
+    .order('version', { ascending: false });
+  if (error) throw new Error(error.message);
+  return (data as QuestionVersion[]) || [];
+}
+
+// Writes an old version back onto the question; the trigger records it as the newest version
+export async function restoreQuestionVersion(version: QuestionVersion): Promise<void> {
+  const { error } = await supabase
+    .from('questions')
+    .update({
+      questionType: version.questionType,
+      questionText: version.questionText,
+      correctAnswer: version.correctAnswer,
+      optionA: version.optionA,
+      optionB: version.optionB,
+      optionC: version.optionC ?? null,
+      optionD: version.optionD ?? null,
+      noteText: version.noteText ?? null,
+      previouslyAskedIn: version.previouslyAskedIn ?? null,
+      languageCode: version.languageCode,
+    })
+    .eq('questionId', version.questionId);
+  if (error) throw new Error(error.message);
+}
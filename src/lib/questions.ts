@@ -0,0 +1,34 @@
+import type { Question } from '../QuestionsPage';
+import type { QuestionForm } from '../molecules/QuestionDialog';
+
+// Every column of a `questions` row the dashboard works with (excludes generated columns)
+export const QUESTION_COLUMNS =
+  'questionId, quizId, questionType, questionText, correctAnswer, optionA, optionB, optionC, optionD, noteText, previouslyAskedIn, languageCode, bookRef, segmentCode, translationGroupId, created_at';
+
+// Applies the True/False and answer-casing rules to validated form values before saving
+export function normalizeQuestionValues(values: QuestionForm): QuestionForm {
+  return {
+    ...values,
+    optionC: values.questionType === 1 ? values.optionC || '' : null,
+    optionD: values.questionType === 1 ? values.optionD || '' : null,
+    optionA: values.questionType === 2 ? 'True' : values.optionA,
+    optionB: values.questionType === 2 ? 'False' : values.optionB,
+    correctAnswer: values.correctAnswer.toLowerCase() as QuestionForm['correctAnswer'],
+  };
+}
+
+// Initial values for QuestionDialog when editing an existing question
+export function toQuestionFormValues(q: Question): Partial<QuestionForm> {
+  return {
+    questionType: q.questionType as 1 | 2,
+    correctAnswer: q.correctAnswer,
+    optionA: q.optionA,
+    optionB: q.optionB,
+    optionC: q.optionC || '',
+    optionD: q.optionD || '',
+    previouslyAskedIn: q.previouslyAskedIn || '',
+    languageCode: q.languageCode,
+    questionText: q.questionText,
+    noteText: q.noteText || '',
+  };
+}
@@ -0,0 +1,144 @@
+import { supabase } from '../supabaseClient';
+import type { Permission, Role } from './permissions';
+
+export const WORKFLOW_STATES = [
+  'draft',
+  'in_review',
+  'changes_requested',
+  'approved',
+  'scheduled',
+  'live',
+  'archived',
+] as const;
+export type WorkflowState = (typeof WORKFLOW_STATES)[number];
+
+export const WORKFLOW_LABELS: Record<WorkflowState, string> = {
+  draft: 'Draft',
+  in_review: 'In Review',
+  changes_requested: 'Changes Requested',
+  approved: 'Approved',
+  scheduled: 'Scheduled',
+  live: 'Live',
+  archived: 'Archived',
+};
+
+export const WORKFLOW_STYLES: Record<WorkflowState, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  in_review: 'bg-blue-100 text-blue-700',
+  changes_requested: 'bg-orange-100 text-orange-700',
+  approved: 'bg-teal-100 text-teal-700',
+  scheduled: 'bg-purple-100 text-purple-700',
+  live: 'bg-green-100 text-green-700',
+  archived: 'bg-yellow-100 text-yellow-700',
+};
+
+export type WorkflowTransition = {
+  from: WorkflowState;
+  to: WorkflowState;
+  label: string;
+  permission: Permission;
+  // The reviewer has to say what needs changing
+  requiresComment?: boolean;
+  // Needs a go-live time; run_scheduled_publishing() makes the quiz live at that time
+  requiresSchedule?: boolean;
+};
+
+// Every move a quiz can make; anything not listed here is not allowed
+export const WORKFLOW_TRANSITIONS: WorkflowTransition[] = [
+  { from: 'draft', to: 'in_review', label: 'Submit for review', permission: 'content.edit' },
+  { from: 'changes_requested', to: 'in_review', label: 'Resubmit for review', permission: 'content.edit' },
+  { from: 'in_review', to: 'changes_requested', label: 'Request changes', permission: 'quiz.publish', requiresComment: true },
+  { from: 'in_review', to: 'approved', label: 'Approve', permission: 'quiz.publish' },
+  { from: 'approved', to: 'live', label: 'Publish now', permission: 'quiz.publish' },
+  { from: 'approved', to: 'scheduled', label: 'Schedule', permission: 'quiz.publish', requiresSchedule: true },
+  { from: 'approved', to: 'draft', label: 'Back to draft', permission: 'content.edit' },
+  { from: 'scheduled', to: 'live', label: 'Publish now', permission: 'quiz.publish' },
+  { from: 'scheduled', to: 'approved', label: 'Unschedule', permission: 'quiz.publish' },
+  { from: 'live', to: 'archived', label: 'Archive', permission: 'quiz.publish' },
+  { from: 'archived', to: 'draft', label: 'Reopen as draft', permission: 'content.edit' },
+];
+
+export function allowedTransitions(state: WorkflowState, can: (permission: Permission) => boolean): WorkflowTransition[] {
+  return WORKFLOW_TRANSITIONS.filter(t => t.from === state && can(t.permission));
+}
+
+export type ReviewComment = {
+  id: number;
+  quizId: string;
+  body: string;
+  from_state: WorkflowState | null;
+  to_state: WorkflowState | null;
+  created_at: string;
+  author_email: string | null;
+};
+
+export type QuizSchedule = {
+  publishAt?: string | null;
+  expireAt?: string | null;
+};
+
+export type DashboardAdmin = {
+  id: string;
+  email: string;
+  role: Role;
+};
+
+/**
+ * Moves a quiz from one state to another and records the move in the review history, in one
+ * transaction. transition_quiz() checks the move and the caller's role, and only matches while
+ * the quiz is still in `from`, so two people acting on the same quiz cannot both succeed.
+ * `schedule` is saved with the move; leaving the scheduled state always drops the pending
+ * go-live time.
+ */
+export async function transitionQuiz(
+  quizId: string,
+  transition: WorkflowTransition,
+  comment: string,
+  schedule: QuizSchedule = {}
+): Promise<void> {
+  if (transition.requiresSchedule && !schedule.publishAt) throw new Error('Pick a go-live time to schedule the quiz');
+  const { error } = await supabase.rpc('transition_quiz', {
+    p_quiz_id: quizId,
+    p_from: transition.from,
+    p_to: transition.to,
+    p_comment: comment.trim(),
+    p_publish_at: schedule.publishAt ?? null,
+    p_expire_at: schedule.expireAt ?? null,
+  });
+  if (error) throw new Error(error.message);
+}
+
+// Changes the go-live/expiry times without moving the quiz, e.g. an expiry on a live quiz
+export async function updateQuizSchedule(quizId: string, schedule: QuizSchedule): Promise<void> {
+  const { error } = await supabase.from('quizzes').update(schedule).eq('internalQuizKey', quizId);
+  if (error) throw new Error(error.message);
+}
+
+// A plain comment; comments recording a move are written by transitionQuiz
+export async function addReviewComment(quizId: string, body: string): Promise<void> {
+  const { error } = await supabase
+    .from('quiz_review_comments')
+    .insert([{ quizId, body: body.trim() }]);
+  if (error) throw new Error(error.message);
+}
+
+export async function fetchReviewComments(quizId: string): Promise<ReviewComment[]> {
+  const { data, error } = await supabase
+    .from('quiz_review_comments')
+    .select('*')
+    .eq('quizId', quizId)
+    .order('created_at', { ascending: true });
+  if (error) throw new Error(error.message);
+  return (data as ReviewComment[]) || [];
+}
+
+export async function assignReviewer(quizId: string, reviewerId: string | null): Promise<void> {
+  const { error } = await supabase.from('quizzes').update({ reviewerId }).eq('internalQuizKey', quizId);
+  if (error) throw new Error(error.message);
+}
+
+export async function fetchDashboardAdmins(): Promise<DashboardAdmin[]> {
+  const { data, error } = await supabase.rpc('list_dashboard_admins');
+  if (error) throw new Error(error.message);
+  return (data as DashboardAdmin[]) || [];
+}
@@ -0,0 +1,69 @@
+import { supabase } from '../supabaseClient';
+
+// Tables whose rows are deleted into the recycle bin one by one (or in bulk). Hierarchy
+// containers go through lib/cascadeDelete, which bins the whole subtree.
+export type RecyclableTable = 'questions' | 'gk_subjects' | 'gk_topics' | 'gk_oneliner_questions' | 'profiles';
+
+// A deleted item as listed in the Recycle Bin: the root of one delete action
+export type RecycleBinItem = {
+  id: number;
+  batch_id: string;
+  table_name: string;
+  row_key: string;
+  title: string | null;
+  parent_path: string | null;
+  deleted_at: string;
+  deleted_email: string | null;
+};
+
+// Keep in sync with the default of purge_expired_recycle_bin()
+export const RECYCLE_RETENTION_DAYS = 30;
+
+export const RECYCLE_TABLE_LABELS: Record<string, string> = {
+  exam_book: 'Exam Book',
+  quiz_sections: 'Section',
+  quiz_categories: 'Category',
+  quizzes: 'Quiz',
+  questions: 'Question',
+  gk_subjects: 'GK Subject',
+  gk_topics: 'GK Topic',
+  gk_oneliner_questions: 'GK One-Liner',
+  profiles: 'User',
+};
+
+/** Moves rows to the recycle bin. Returns the batch id, which restores all of them at once. */
+export async function softDelete(table: RecyclableTable, keys: string[]): Promise<string> {
+  const { data, error } = await supabase.rpc('soft_delete', { p_table: table, p_keys: keys });
+  if (error) throw new Error(error.message);
+  return data as string;
+}
+
+/** Puts a deleted item and everything deleted with it back. Returns the number of rows restored. */
+export async function restoreDeleted(batchId: string): Promise<number> {
+  const { data, error } = await supabase.rpc('restore_deleted', { p_batch: batchId });
+  if (error) throw new Error(error.message);
+  return (data as number) || 0;
+}
+
+export async function purgeDeleted(batchId: string): Promise<void> {
+  const { error } = await supabase.rpc('purge_deleted', { p_batch: batchId });
+  if (error) throw new Error(error.message);
+}
+
+// Rows deleted together with each item (its subtree and dependent rows), keyed by batch
+export async function fetchBatchSizes(batchIds: string[]): Promise<Record<string, number>> {
+  // A batch can hold thousands of questions, so count rather than fetch them
+  const counts = await Promise.all(batchIds.map(async batchId => {
+    const { count, error } = await supabase
+      .from('recycle_bin')
+      .select('id', { count: 'exact', head: true })
+      .eq('batch_id', batchId);
+    if (error) throw new Error(error.message);
+    return [batchId, count || 0] as const;
+  }));
+  return Object.fromEntries(counts);
+}
+
+export function purgeDate(deletedAt: string): Date {
+  return new Date(new Date(deletedAt).getTime() + RECYCLE_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+}
@@ -0,0 +1,178 @@
+import { supabase } from '../supabaseClient';
+
+export const REPORT_STATUSES = ['open', 'investigating', 'fixed', 'invalid', 'duplicate'] as const;
+export type ReportStatus = (typeof REPORT_STATUSES)[number];
+
+// Reports that still need someone to look at them
+export const ACTIVE_REPORT_STATUSES: ReportStatus[] = ['open', 'investigating'];
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  open: 'Open',
+  investigating: 'Investigating',
+  fixed: 'Fixed',
+  invalid: 'Rejected (invalid)',
+  duplicate: 'Duplicate',
+};
+
+export const REPORT_STATUS_STYLES: Record<ReportStatus, string> = {
+  open: 'bg-red-100 text-red-700',
+  investigating: 'bg-yellow-100 text-yellow-700',
+  fixed: 'bg-green-100 text-green-700',
+  invalid: 'bg-gray-100 text-gray-600',
+  duplicate: 'bg-blue-100 text-blue-700',
+};
+
+export type QuestionReport = {
+  id: number;
+  questionId: string;
+  reason: string;
+  additional_message?: string | null;
+  playerId: string;
+  status: ReportStatus;
+  assignee_id: string | null;
+  internal_notes: string | null;
+  status_changed_at: string | null;
+  created_at: string;
+};
+
+// All reports about one question that match the current filters
+export type ReportGroup = {
+  questionId: string;
+  question_text: string | null;
+  quiz_id: string | null;
+  language_code: string | null;
+  report_count: number;
+  reason_counts: Record<string, number>;
+  status_counts: Partial<Record<ReportStatus, number>>;
+  report_ids: number[];
+  player_ids: string[];
+  latest_at: string;
+};
+
+export type ReportGroupFilters = {
+  // Empty means every status
+  statuses: ReportStatus[];
+  reason: string;
+  // An admin's id, 'unassigned', or empty for anyone
+  assignee: string;
+  from: string;
+  to: string;
+  sort: 'latest' | 'count';
+  // Reports filed after their reporter was muted are hidden unless this is set
+  includeMuted: boolean;
+};
+
+export type SpamSignal = 'burst' | 'repeated' | 'often_rejected';
+
+export const SPAM_SIGNAL_LABELS: Record<SpamSignal, string> = {
+  burst: '10+ reports within 10 minutes',
+  repeated: 'Same reason and message on 5+ questions',
+  often_rejected: 'Reports are mostly rejected',
+};
+
+// A player's report history, computed by the reporter_stats() function
+export type ReporterStats = {
+  player_id: string;
+  total: number;
+  valid: number;
+  rejected: number;
+  // Share of closed reports that were valid, 0-100; 50 until reports get closed
+  reputation: number;
+  max_burst: number;
+  max_repeats: number;
+  spam_signals: SpamSignal[];
+  muted: boolean;
+};
+
+// What a player was told about one of their reports (see player_notifications)
+export type ReportNotification = {
+  id: number;
+  report_id: number;
+  kind: string;
+  title: string;
+  body: string;
+  status: 'pending' | 'sending' | 'sent' | 'failed';
+  channel: string | null;
+  attempts: number;
+  last_error: string | null;
+  created_at: string;
+  sent_at: string | null;
+  read_at: string | null;
+};
+
+export type ReportChanges = Partial<Pick<QuestionReport, 'status' | 'assignee_id' | 'internal_notes'>>;
+
+export async function fetchReportGroups(
+  filters: ReportGroupFilters,
+  limit: number,
+  offset: number
+): Promise<{ groups: ReportGroup[]; total: number }> {
+  const { data, error } = await supabase.rpc('question_report_groups', {
+    p_statuses: filters.statuses.length ? filters.statuses : null,
+    p_reason: filters.reason || null,
+    p_assignee: filters.assignee && filters.assignee !== 'unassigned' ? filters.assignee : null,
+    p_unassigned: filters.assignee === 'unassigned',
+    p_from: filters.from || null,
+    p_to: filters.to || null,
+    p_sort: filters.sort,
+    p_limit: limit,
+    p_offset: offset,
+    p_include_muted: filters.includeMuted,
+  });
+  if (error) throw new Error(error.message);
+  const rows = (data || []) as (ReportGroup & { total: number })[];
+  return { groups: rows, total: rows[0]?.total ?? 0 };
+}
+
+// Every report filed against a question, whatever its status
+export async function fetchQuestionReports(questionId: string): Promise<QuestionReport[]> {
+  const { data, error } = await supabase
+    .from('question_reports')
+    .select('*')
+    .eq('questionId', questionId)
+    .order('created_at', { ascending: false });
+  if (error) throw new Error(error.message);
+  return (data as QuestionReport[]) || [];
+}
+
+export async function fetchReportNotifications(reportIds: number[]): Promise<ReportNotification[]> {
+  if (reportIds.length === 0) return [];
+  const { data, error } = await supabase
+    .from('player_notifications')
+    .select('id, report_id, kind, title, body, status, channel, attempts, last_error, created_at, sent_at, read_at')
+    .in('report_id', reportIds)
+    .order('created_at');
+  if (error) throw new Error(error.message);
+  return (data as ReportNotification[]) || [];
+}
+
+export async function fetchReportReasons(): Promise<{ reason: string; reports: number }[]> {
+  const { data, error } = await supabase.rpc('question_report_reasons');
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+/** Applies the same changes to one report or to a whole group of them. */
+export async function updateReports(ids: number[], changes: ReportChanges): Promise<void> {
+  const { error } = await supabase.from('question_reports').update(changes).in('id', ids);
+  if (error) throw new Error(error.message);
+}
+
+export async function fetchReporterStats(playerIds: string[]): Promise<Record<string, ReporterStats>> {
+  const ids = [...new Set(playerIds.filter(Boolean))];
+  if (ids.length === 0) return {};
+  const { data, error } = await supabase.rpc('reporter_stats', { p_player_ids: ids });
+  if (error) throw new Error(error.message);
+  return Object.fromEntries(((data as ReporterStats[]) || []).map(stats => [stats.player_id, stats]));
+}
+
+/** Hides the player's future reports from the triage queue. Earlier reports stay visible. */
+export async function muteReporter(playerId: string, reason: string): Promise<void> {
+  const { error } = await supabase.from('muted_reporters').insert({ player_id: playerId, reason: reason || null });
+  if (error) throw new Error(error.message);
+}
+
+export async function unmuteReporter(playerId: string): Promise<void> {
+  const { error } = await supabase.from('muted_reporters').delete().eq('player_id', playerId);
+  if (error) throw new Error(error.message);
+}
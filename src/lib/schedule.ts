@@ -0,0 +1,128 @@
+import { supabase } from '../supabaseClient';
+
+// Scheduled go-live and expiry. The times are applied by run_scheduled_publishing() (see
+// scripts/run-scheduler.mjs); this module only stores and lists them.
+
+export type ScheduleKind = 'section' | 'category' | 'quiz';
+export type ScheduleAction = 'publish' | 'expire';
+
+export type ScheduledItem = {
+  kind: ScheduleKind;
+  key: string;
+  title: string;
+  action: ScheduleAction;
+  at: string;
+  // Page where the item is managed
+  link: string;
+};
+
+export const SCHEDULE_KIND_LABELS: Record<ScheduleKind, string> = {
+  section: 'Section',
+  category: 'Category',
+  quiz: 'Quiz',
+};
+
+export const SCHEDULE_KIND_STYLES: Record<ScheduleKind, string> = {
+  section: 'bg-blue-100 text-blue-700',
+  category: 'bg-teal-100 text-teal-700',
+  quiz: 'bg-purple-100 text-purple-700',
+};
+
+/** ISO timestamp -> value for an `<input type="datetime-local">`, in the browser's time zone. */
+export function toDateTimeLocal(iso: string | null | undefined): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return '';
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/** Value from an `<input type="datetime-local">` -> ISO timestamp, or null when empty. */
+export function fromDateTimeLocal(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Checks the go-live/expiry pair entered in a form. Returns an error message for the field at
+ * fault, or null when the schedule is valid. Content with a go-live time must be saved as a
+ * draft, otherwise it would already be live before the scheduled moment.
+ */
+export function validateSchedule(
+  publishAt: string | undefined,
+  expireAt: string | undefined,
+  status: number
+): { field: 'publishAt' | 'expireAt'; message: string } | null {
+  const publish = fromDateTimeLocal(publishAt);
+  const expire = fromDateTimeLocal(expireAt);
+  if (publish && status === 1) {
+    return { field: 'publishAt', message: 'Set the status to Draft to schedule a go-live time' };
+  }
+  if (publish && expire && expire <= publish) {
+    return { field: 'expireAt', message: 'Expiry must be after the go-live time' };
+  }
+  return null;
+}
+
+type ScheduleRow = { publishAt: string | null; expireAt: string | null };
+
+function inRange(field: 'publishAt' | 'expireAt', from: string, to: string) {
+  return `and(${field}.gte.${from},${field}.lt.${to})`;
+}
+
+function toItems<T extends ScheduleRow>(
+  rows: T[],
+  kind: ScheduleKind,
+  describe: (row: T) => { key: string; title: string; link: string },
+  from: string,
+  to: string
+): ScheduledItem[] {
+  // Postgres and the browser format timestamps differently, so compare as times
+  const start = new Date(from).getTime();
+  const end = new Date(to).getTime();
+  const within = (at: string | null): at is string => !!at && new Date(at).getTime() >= start && new Date(at).getTime() < end;
+  const items: ScheduledItem[] = [];
+  for (const row of rows) {
+    const info = describe(row);
+    if (within(row.publishAt)) {
+      items.push({ kind, ...info, action: 'publish', at: row.publishAt });
+    }
+    if (within(row.expireAt)) {
+      items.push({ kind, ...info, action: 'expire', at: row.expireAt });
+    }
+  }
+  return items;
+}
+
+/** Every go-live and expiry falling in [from, to), oldest first. Bounds are ISO timestamps. */
+export async function fetchScheduledItems(from: string, to: string): Promise<ScheduledItem[]> {
+  const filter = `${inRange('publishAt', from, to)},${inRange('expireAt', from, to)}`;
+  const [sections, categories, quizzes] = await Promise.all([
+    supabase.from('quiz_sections').select('moduleCode, moduleTitle, bookRef, languageCode, publishAt, expireAt').or(filter),
+    supabase.from('quiz_categories').select('segmentCode, segmentTitle, moduleCode, languageCode, publishAt, expireAt').or(filter),
+    supabase.from('quizzes').select('internalQuizKey, quizTitle, segmentCode, languageCode, publishAt, expireAt').or(filter),
+  ]);
+  for (const result of [sections, categories, quizzes]) {
+    if (result.error) throw new Error(result.error.message);
+  }
+
+  const items = [
+    ...toItems(sections.data || [], 'section', s => ({
+      key: s.moduleCode,
+      title: s.moduleTitle,
+      link: `/sections/${s.bookRef}`,
+    }), from, to),
+    ...toItems(categories.data || [], 'category', c => ({
+      key: c.segmentCode,
+      title: c.segmentTitle,
+      link: `/categories/${c.moduleCode}?lang=${c.languageCode}`,
+    }), from, to),
+    ...toItems(quizzes.data || [], 'quiz', q => ({
+      key: q.internalQuizKey,
+      title: q.quizTitle,
+      link: `/quizzes/${q.segmentCode}?segmentCode=${q.segmentCode}&lang=${q.languageCode}`,
+    }), from, to),
+  ];
+  return items.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+}
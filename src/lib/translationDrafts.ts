@@ -0,0 +1,212 @@
+import { nanoid } from 'nanoid';
+import { supabase } from '../supabaseClient';
+import type { Question } from '../QuestionsPage';
+import { QUESTION_COLUMNS } from './questions';
+import type { TranslationProvider } from './translationProviders';
+import { fetchTranslatedQuiz, otherLanguage, selectIn, type LanguageCode } from './translations';
+
+export type DraftStatus = 'pending' | 'approved' | 'rejected';
+
+export type TranslationDraft = {
+  id: number;
+  created_at: string;
+  sourceQuestionId: string;
+  quizId: string;
+  segmentCode: string | null;
+  bookRef: string | null;
+  translationGroupId: string;
+  languageCode: LanguageCode;
+  questionType: number;
+  correctAnswer: Question['correctAnswer'];
+  questionText: string;
+  optionA: string | null;
+  optionB: string | null;
+  optionC: string | null;
+  optionD: string | null;
+  noteText: string | null;
+  previouslyAskedIn: string | null;
+  machine_translated: boolean;
+  provider: string | null;
+  status: DraftStatus;
+  created_email: string | null;
+  reviewed_at: string | null;
+  reviewed_email: string | null;
+  questionId: string | null;
+};
+
+// Fields a reviewer may correct before approving
+export type DraftEdits = Pick<TranslationDraft, 'questionText' | 'optionA' | 'optionB' | 'optionC' | 'optionD' | 'noteText'>;
+
+export type DraftGenerationResult = {
+  created: number;
+  // Already translated, or already waiting in the review queue
+  skipped: number;
+};
+
+// Questions sent to the provider per request; keeps batches small enough for slow local models
+const TRANSLATE_CHUNK_SIZE = 20;
+
+// The text fields of a question that get translated, in a fixed order
+function translatableTexts(q: Question): string[] {
+  const options = q.questionType === 1 ? [q.optionA, q.optionB, q.optionC || '', q.optionD || ''] : ['', '', '', ''];
+  return [q.questionText, ...options, q.noteText || ''];
+}
+const TEXTS_PER_QUESTION = 6;
+
+/**
+ * Machine-translates every question of a quiz that has no translation yet and puts the results
+ * in the review queue. Nothing is written to `questions`; a reviewer has to approve each draft.
+ * Drafts go into the quiz's linked translation, so the quiz has to be linked first; this is
+ * checked before anything is sent to the provider.
+ */
+export async function generateTranslationDrafts(
+  quizId: string,
+  provider: TranslationProvider,
+  onProgress?: (done: number, total: number) => void
+): Promise<DraftGenerationResult> {
+  const { data, error } = await supabase
+    .from('questions')
+    .select(QUESTION_COLUMNS)
+    .eq('quizId', quizId)
+    .order('created_at', { ascending: true });
+  if (error) throw new Error(error.message);
+  const questions = (data as unknown as Question[]) || [];
+  if (questions.length === 0) return { created: 0, skipped: 0 };
+
+  // Groups that already have a question in each language, and questions with an open draft
+  const groupIds = [...new Set(questions.map(q => q.translationGroupId).filter((id): id is string => !!id))];
+  const grouped = await selectIn<{ translationGroupId: string; languageCode: string }>(
+    'questions',
+    'translationGroupId, languageCode',
+    'translationGroupId',
+    groupIds
+  );
+  const translated = new Set(grouped.map(g => `${g.translationGroupId}:${g.languageCode}`));
+
+  const drafts = await selectIn<{ sourceQuestionId: string; status: DraftStatus }>(
+    'translation_drafts',
+    'sourceQuestionId, status',
+    'sourceQuestionId',
+    questions.map(q => q.questionId)
+  );
+  const drafted = new Set(drafts.filter(d => d.status === 'pending').map(d => d.sourceQuestionId));
+
+  const todo = questions.filter(q =>
+    q.translationGroupId &&
+    !translated.has(`${q.translationGroupId}:${otherLanguage(q.languageCode)}`) &&
+    !drafted.has(q.questionId)
+  );
+  // A quiz normally holds one language, but translate each direction separately to be safe
+  const targetQuizzes = new Map<LanguageCode, NonNullable<Awaited<ReturnType<typeof fetchTranslatedQuiz>>>>();
+  for (const from of new Set(todo.map(q => q.languageCode))) {
+    const target = await fetchTranslatedQuiz(quizId, from);
+    if (!target) throw new Error('This quiz has no translation yet. Link or create the translated quiz first.');
+    targetQuizzes.set(otherLanguage(from), target);
+  }
+
+  let created = 0;
+  onProgress?.(0, todo.length);
+  for (let i = 0; i < todo.length; i += TRANSLATE_CHUNK_SIZE) {
+    const chunk = todo.slice(i, i + TRANSLATE_CHUNK_SIZE);
+    const rows = [];
+    for (const from of ['en', 'hi'] as const) {
+      const part = chunk.filter(q => q.languageCode === from);
+      if (part.length === 0) continue;
+      const to = otherLanguage(from);
+      const target = targetQuizzes.get(to)!;
+      const output = await provider.translate(part.flatMap(translatableTexts), from, to);
+      rows.push(...part.map((q, idx) => {
+        const [questionText, optionA, optionB, optionC, optionD, noteText] = output.slice(idx * TEXTS_PER_QUESTION, (idx + 1) * TEXTS_PER_QUESTION);
+        return {
+          sourceQuestionId: q.questionId,
+          quizId: target.internalQuizKey,
+          segmentCode: target.segmentCode,
+          bookRef: q.bookRef || null,
+          translationGroupId: q.translationGroupId,
+          languageCode: to,
+          questionType: q.questionType,
+          correctAnswer: q.correctAnswer,
+          questionText,
+          // True/False options are fixed and are not translated
+          optionA: q.questionType === 1 ? optionA : q.optionA,
+          optionB: q.questionType === 1 ? optionB : q.optionB,
+          optionC: q.questionType === 1 ? optionC : null,
+          optionD: q.questionType === 1 ? optionD : null,
+          noteText: noteText || null,
+          previouslyAskedIn: q.previouslyAskedIn || null,
+          machine_translated: true,
+          provider: provider.id,
+        };
+      }));
+    }
+    const { error: insertError } = await supabase.from('translation_drafts').insert(rows);
+    if (insertError) throw new Error(insertError.message);
+    created += rows.length;
+    onProgress?.(created, todo.length);
+  }
+  return { created, skipped: questions.length - todo.length };
+}
+
+export async function fetchTranslationDrafts(status: DraftStatus, quizId?: string): Promise<TranslationDraft[]> {
+  let request = supabase
+    .from('translation_drafts')
+    .select('*')
+    .eq('status', status)
+    .order('created_at', { ascending: status === 'pending' })
+    .limit(200);
+  if (quizId) request = request.eq('quizId', quizId);
+  const { data, error } = await request;
+  if (error) throw new Error(error.message);
+  return (data as TranslationDraft[]) || [];
+}
+
+export async function updateTranslationDraft(id: number, edits: DraftEdits): Promise<void> {
+  const { error } = await supabase.from('translation_drafts').update(edits).eq('id', id).eq('status', 'pending');
+  if (error) throw new Error(error.message);
+}
+
+// Closes a pending draft; fails when someone else already approved or rejected it
+async function closeDraft(id: number, changes: Partial<TranslationDraft>): Promise<void> {
+  const { data, error } = await supabase
+    .from('translation_drafts')
+    .update(changes)
+    .eq('id', id)
+    .eq('status', 'pending')
+    .select('id');
+  if (error) throw new Error(error.message);
+  if (!data || data.length === 0) throw new Error('This draft was already reviewed. Reload and try again.');
+}
+
+/**
+ * Publishes a draft as a real question in its target quiz, joined to the source question's
+ * translation group. The draft is claimed first so two reviewers cannot both publish it.
+ */
+export async function approveTranslationDraft(draft: TranslationDraft, edits: DraftEdits): Promise<string> {
+  const questionId = nanoid();
+  // The reviewed wording is kept on the draft for the record
+  await closeDraft(draft.id, { ...edits, status: 'approved', questionId });
+
+  const { error } = await supabase.from('questions').insert([{
+    questionId,
+    quizId: draft.quizId,
+    segmentCode: draft.segmentCode,
+    bookRef: draft.bookRef,
+    translationGroupId: draft.translationGroupId,
+    languageCode: draft.languageCode,
+    questionType: draft.questionType,
+    correctAnswer: draft.correctAnswer,
+    previouslyAskedIn: draft.previouslyAskedIn,
+    ...edits,
+    created_at: new Date().toISOString(),
+  }]);
+  if (error) {
+    // Put the draft back in the queue so it is not lost
+    await supabase.from('translation_drafts').update({ status: 'pending', questionId: null }).eq('id', draft.id);
+    throw new Error(error.message);
+  }
+  return questionId;
+}
+
+export async function rejectTranslationDraft(id: number): Promise<void> {
+  await closeDraft(id, { status: 'rejected' });
+}
@@ -0,0 +1,70 @@
+import type { LanguageCode } from './translations';
+
+/**
+ * A machine-translation backend. Providers only turn text into text; drafts, review and
+ * publishing are handled by lib/translationDrafts so any provider can be swapped in.
+ */
+export interface TranslationProvider {
+  id: string;
+  label: string;
+  // Returns one translation per input, in the same order. Empty strings stay empty.
+  translate(texts: string[], from: LanguageCode, to: LanguageCode): Promise<string[]>;
+}
+
+// Offline stand-in for development builds only: tags each text with the target language so
+// drafts are easy to spot and the whole pipeline can run without a translation service
+export const stubProvider: TranslationProvider = {
+  id: 'stub',
+  label: 'Stub (offline, no real translation)',
+  async translate(texts, _from, to) {
+    return texts.map(text => (text.trim() ? `[${to}] ${text}` : text));
+  },
+};
+
+const LIBRETRANSLATE_BATCH_SIZE = 50;
+
+/**
+ * LibreTranslate-compatible HTTP API. Point it at a self-hosted instance
+ * (`docker run -p 5000:5000 libretranslate/libretranslate`) to translate with a local model.
+ */
+export function createLibreTranslateProvider(baseUrl: string, apiKey?: string): TranslationProvider {
+  return {
+    id: 'libretranslate',
+    label: `LibreTranslate (${baseUrl})`,
+    async translate(texts, from, to) {
+      const results: string[] = [];
+      for (let i = 0; i < texts.length; i += LIBRETRANSLATE_BATCH_SIZE) {
+        const batch = texts.slice(i, i + LIBRETRANSLATE_BATCH_SIZE);
+        const response = await fetch(`${baseUrl.replace(/\/$/, '')}/translate`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ q: batch, source: from, target: to, format: 'text', ...(apiKey ? { api_key: apiKey } : {}) }),
+        });
+        const body = await response.json().catch(() => null);
+        if (!response.ok) throw new Error(body?.error || `Translation service returned ${response.status}`);
+        const translated: unknown = body?.translatedText;
+        if (!Array.isArray(translated) || translated.length !== batch.length) {
+          throw new Error('Translation service returned an unexpected response');
+        }
+        results.push(...translated.map(String));
+      }
+      return results;
+    },
+  };
+}
+
+// Providers the dashboard can use, keyed by id. VITE_TRANSLATION_PROVIDER picks the default.
+// Production builds only list real services, so the list is empty when none is configured.
+export function availableTranslationProviders(): TranslationProvider[] {
+  const providers: TranslationProvider[] = import.meta.env.DEV ? [stubProvider] : [];
+  const libreUrl = import.meta.env.VITE_LIBRETRANSLATE_URL;
+  if (libreUrl) providers.push(createLibreTranslateProvider(libreUrl, import.meta.env.VITE_LIBRETRANSLATE_API_KEY));
+  return providers;
+}
+
+// The configured provider, else the first available one; empty when there is none
+export function defaultTranslationProviderId(): string {
+  const providers = availableTranslationProviders();
+  const configured = import.meta.env.VITE_TRANSLATION_PROVIDER;
+  return providers.find(p => p.id === configured)?.id || providers[0]?.id || '';
+}
@@ -0,0 +1,237 @@
+import { nanoid } from 'nanoid';
+import { supabase } from '../supabaseClient';
+import type { Question } from '../QuestionsPage';
+import type { QuestionForm } from '../molecules/QuestionDialog';
+import { QUESTION_COLUMNS } from './questions';
+
+// Rows sharing a translationGroupId are the same content in different languages
+
+export type LanguageCode = 'en' | 'hi';
+
+export const LANGUAGE_LABELS: Record<LanguageCode, string> = {
+  en: 'English',
+  hi: 'Hindi',
+};
+
+export function otherLanguage(code: string): LanguageCode {
+  return code === 'hi' ? 'en' : 'hi';
+}
+
+export type TranslatableLevel = 'section' | 'category' | 'quiz' | 'question';
+
+// Table and primary key of each level; the key is what other rows reference
+export const TRANSLATABLE_TABLES: Record<TranslatableLevel, { table: string; key: string; label: string }> = {
+  section: { table: 'quiz_sections', key: 'moduleCode', label: 'Sections' },
+  category: { table: 'quiz_categories', key: 'segmentCode', label: 'Categories' },
+  quiz: { table: 'quizzes', key: 'internalQuizKey', label: 'Quizzes' },
+  question: { table: 'questions', key: 'questionId', label: 'Questions' },
+};
+
+export type TranslationItem = {
+  level: TranslatableLevel;
+  key: string;
+  title: string;
+  languageCode: LanguageCode;
+  translationGroupId: string;
+  // Key of the parent (section for categories, category for quizzes, quiz for questions)
+  parentKey: string | null;
+};
+
+export type MissingTranslations = Record<TranslatableLevel, TranslationItem[]>;
+
+const PAGE_SIZE = 1000;
+const IN_CHUNK_SIZE = 200;
+
+/** The other-language version of a question, or null when it has not been translated. */
+export async function fetchQuestionTranslation(question: Question): Promise<Question | null> {
+  if (!question.translationGroupId) return null;
+  const { data, error } = await supabase
+    .from('questions')
+    .select(QUESTION_COLUMNS)
+    .eq('translationGroupId', question.translationGroupId)
+    .eq('languageCode', otherLanguage(question.languageCode))
+    .neq('questionId', question.questionId)
+    .limit(1)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return (data as unknown as Question) || null;
+}
+
+/**
+ * The quiz a question's translation belongs in: the linked quiz in the other language. Returns
+ * null when the quiz has not been linked to a translation yet.
+ */
+export async function fetchTranslatedQuiz(
+  quizId: string,
+  languageCode: string
+): Promise<{ internalQuizKey: string; segmentCode: string } | null> {
+  const { data: quiz, error } = await supabase
+    .from('quizzes')
+    .select('translationGroupId')
+    .eq('internalQuizKey', quizId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!quiz) return null;
+
+  const { data, error: linkError } = await supabase
+    .from('quizzes')
+    .select('internalQuizKey, segmentCode')
+    .eq('translationGroupId', quiz.translationGroupId)
+    .eq('languageCode', otherLanguage(languageCode))
+    .neq('internalQuizKey', quizId)
+    .limit(1)
+    .maybeSingle();
+  if (linkError) throw new Error(linkError.message);
+  return data || null;
+}
+
+/**
+ * Saves the other-language version of `source`. An existing translation is updated in place;
+ * otherwise a new question joins the source's group in the linked quiz. Without a linked quiz
+ * there is nowhere to put it, since the source's own quiz is in the other language.
+ * `values` must already be normalized.
+ */
+export async function saveQuestionTranslation(
+  source: Pick<Question, 'quizId' | 'languageCode' | 'translationGroupId' | 'bookRef'>,
+  values: QuestionForm,
+  existingId: string | null
+): Promise<void> {
+  if (existingId) {
+    const { error } = await supabase.from('questions').update(values).eq('questionId', existingId);
+    if (error) throw new Error(error.message);
+    return;
+  }
+
+  const quiz = await fetchTranslatedQuiz(source.quizId, source.languageCode);
+  if (!quiz) throw new Error('This quiz has no translation yet. Link or create the translated quiz first.');
+  const { error } = await supabase.from('questions').insert([{
+    ...values,
+    questionId: nanoid(),
+    quizId: quiz.internalQuizKey,
+    segmentCode: quiz.segmentCode,
+    bookRef: source.bookRef || null,
+    translationGroupId: source.translationGroupId,
+    created_at: new Date().toISOString(),
+  }]);
+  if (error) throw new Error(error.message);
+}
+
+/** Marks `targetKey` as the translation of `sourceKey` by moving it into the source's group. */
+export async function linkTranslation(level: TranslatableLevel, sourceKey: string, targetKey: string): Promise<void> {
+  const { table, key } = TRANSLATABLE_TABLES[level];
+  const { data: source, error } = await supabase.from(table).select('translationGroupId').eq(key, sourceKey).maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!source) throw new Error('The item to link was not found');
+
+  const { error: updateError } = await supabase
+    .from(table)
+    .update({ translationGroupId: source.translationGroupId })
+    .eq(key, targetKey);
+  if (updateError) throw new Error(updateError.message);
+}
+
+// Rows of `table` whose `column` is one of `values`, chunked to keep the URL short
+export async function selectIn<T>(table: string, columns: string, column: string, values: string[]): Promise<T[]> {
+  const rows: T[] = [];
+  for (let i = 0; i < values.length; i += IN_CHUNK_SIZE) {
+    const { data, error } = await supabase.from(table).select(columns).in(column, values.slice(i, i + IN_CHUNK_SIZE));
+    if (error) throw new Error(error.message);
+    rows.push(...((data as unknown as T[]) || []));
+  }
+  return rows;
+}
+
+type SectionRow = { moduleCode: string; moduleTitle: string; languageCode: LanguageCode; translationGroupId: string };
+type CategoryRow = { segmentCode: string; segmentTitle: string; moduleCode: string; languageCode: LanguageCode; translationGroupId: string };
+type QuizRow = { internalQuizKey: string; quizTitle: string; segmentCode: string; languageCode: LanguageCode; translationGroupId: string };
+type QuestionRow = { questionId: string; questionText: string; quizId: string; languageCode: LanguageCode; translationGroupId: string };
+
+async function fetchBookQuestionRows(bookRef: string): Promise<QuestionRow[]> {
+  const rows: QuestionRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('questions')
+      .select('questionId, questionText, quizId, languageCode, translationGroupId')
+      .eq('bookRef', bookRef)
+      .order('created_at', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    rows.push(...((data as QuestionRow[]) || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+// Items whose group has no row in the other language
+function untranslated(items: TranslationItem[]): TranslationItem[] {
+  const languagesByGroup = new Map<string, Set<string>>();
+  for (const item of items) {
+    const languages = languagesByGroup.get(item.translationGroupId) || new Set<string>();
+    languages.add(item.languageCode);
+    languagesByGroup.set(item.translationGroupId, languages);
+  }
+  return items.filter(item => !languagesByGroup.get(item.translationGroupId)?.has(otherLanguage(item.languageCode)));
+}
+
+/**
+ * Everything in a book that has no counterpart in the other language, level by level. Only
+ * translations inside the same book count.
+ */
+export async function fetchMissingTranslations(bookRef: string): Promise<MissingTranslations> {
+  const { data: sectionData, error } = await supabase
+    .from('quiz_sections')
+    .select('moduleCode, moduleTitle, languageCode, translationGroupId')
+    .eq('bookRef', bookRef)
+    .order('displayOrder');
+  if (error) throw new Error(error.message);
+  const sections = (sectionData as SectionRow[]) || [];
+
+  const categories = await selectIn<CategoryRow>(
+    'quiz_categories',
+    'segmentCode, segmentTitle, moduleCode, languageCode, translationGroupId',
+    'moduleCode',
+    sections.map(s => s.moduleCode)
+  );
+  const quizzes = await selectIn<QuizRow>(
+    'quizzes',
+    'internalQuizKey, quizTitle, segmentCode, languageCode, translationGroupId',
+    'segmentCode',
+    categories.map(c => c.segmentCode)
+  );
+  const questions = await fetchBookQuestionRows(bookRef);
+
+  return {
+    section: untranslated(sections.map(s => ({
+      level: 'section',
+      key: s.moduleCode,
+      title: s.moduleTitle,
+      languageCode: s.languageCode,
+      translationGroupId: s.translationGroupId,
+      parentKey: null,
+    }))),
+    category: untranslated(categories.map(c => ({
+      level: 'category',
+      key: c.segmentCode,
+      title: c.segmentTitle,
+      languageCode: c.languageCode,
+      translationGroupId: c.translationGroupId,
+      parentKey: c.moduleCode,
+    }))),
+    quiz: untranslated(quizzes.map(q => ({
+      level: 'quiz',
+      key: q.internalQuizKey,
+      title: q.quizTitle,
+      languageCode: q.languageCode,
+      translationGroupId: q.translationGroupId,
+      parentKey: q.segmentCode,
+    }))),
+    question: untranslated(questions.map(q => ({
+      level: 'question',
+      key: q.questionId,
+      title: q.questionText.replace(/<[^>]*>/g, ''),
+      languageCode: q.languageCode,
+      translationGroupId: q.translationGroupId,
+      parentKey: q.quizId,
+    }))),
+  };
+}
@@ -0,0 +1,154 @@
+import { supabase } from '../supabaseClient';
+import { fetchQuizBreadcrumbs, type BreadcrumbPart } from './breadcrumbs';
+import { fetchReporterStats, type QuestionReport, type ReporterStats } from './reportTriage';
+
+// One finished quiz attempt, written by the player app
+export type UserProgress = {
+  userId: string;
+  quizId: string;
+  // Correct answers out of totalQuestions
+  score: number;
+  totalQuestions: number;
+  created_at: string;
+};
+
+// All of a player's attempts on one quiz, added up by user_activity_summary()
+export type QuizAttemptTotals = {
+  quizId: string;
+  attempts: number;
+  correct: number;
+  total: number;
+};
+
+export type UserActivity = {
+  quizzes: QuizAttemptTotals[];
+  // Days with at least one attempt, as YYYY-MM-DD in the admin's time zone
+  days: string[];
+  lastPlayed: string | null;
+  lastReported: string | null;
+  breadcrumbs: Record<string, BreadcrumbPart[]>;
+  reporter: ReporterStats | null;
+};
+
+// Accuracy of a player's attempts in one book or section
+export type AccuracyRow = {
+  label: string;
+  to: string;
+  attempts: number;
+  correct: number;
+  total: number;
+};
+
+export type Streaks = {
+  // Consecutive days up to today (or yesterday, if nothing was played yet today)
+  current: number;
+  longest: number;
+};
+
+export type ActivityPage<T> = {
+  rows: T[];
+  count: number;
+};
+
+export async function fetchUserActivity(userId: string): Promise<UserActivity> {
+  const [summaryResult, reporterStats] = await Promise.all([
+    supabase.rpc('user_activity_summary', {
+      p_user_id: userId,
+      p_time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    }),
+    fetchReporterStats([userId]),
+  ]);
+  if (summaryResult.error) throw new Error(summaryResult.error.message);
+
+  const summary = summaryResult.data as Omit<UserActivity, 'breadcrumbs' | 'reporter'>;
+  return {
+    ...summary,
+    breadcrumbs: await fetchQuizBreadcrumbs(summary.quizzes.map(q => q.quizId)),
+    reporter: reporterStats[userId] || null,
+  };
+}
+
+// One page of attempts, newest first
+export async function fetchUserAttempts(userId: string, page: number, pageSize: number): Promise<ActivityPage<UserProgress>> {
+  const { data, count, error } = await supabase
+    .from('user_progress')
+    .select('*', { count: 'exact' })
+    .eq('userId', userId)
+    .order('created_at', { ascending: false })
+    .range((page - 1) * pageSize, page * pageSize - 1);
+  if (error) throw new Error(error.message);
+  return { rows: (data as UserProgress[]) || [], count: count || 0 };
+}
+
+// One page of the reports the player filed, newest first
+export async function fetchUserReports(userId: string, page: number, pageSize: number): Promise<ActivityPage<QuestionReport>> {
+  const { data, count, error } = await supabase
+    .from('question_reports')
+    .select('*', { count: 'exact' })
+    .eq('playerId', userId)
+    .order('created_at', { ascending: false })
+    .range((page - 1) * pageSize, page * pageSize - 1);
+  if (error) throw new Error(error.message);
+  return { rows: (data as QuestionReport[]) || [], count: count || 0 };
+}
+
+/**
+ * Groups attempts by one level of their quiz's breadcrumb: 0 for the book, 1 for the section.
+ * Attempts on quizzes that no longer exist are left out.
+ */
+export function accuracyBy(activity: UserActivity, level: 0 | 1): AccuracyRow[] {
+  const rows = new Map<string, AccuracyRow>();
+  for (const quiz of activity.quizzes) {
+    const parts = activity.breadcrumbs[quiz.quizId];
+    // The last part is the quiz itself, e.g. when its book or section is missing
+    if (!parts || level >= parts.length - 1) continue;
+    const part = parts[level];
+    const row = rows.get(part.to) || { label: part.label, to: part.to, attempts: 0, correct: 0, total: 0 };
+    row.attempts += quiz.attempts;
+    row.correct += quiz.correct;
+    row.total += quiz.total;
+    rows.set(part.to, row);
+  }
+  return [...rows.values()].sort((a, b) => b.attempts - a.attempts);
+}
+
+// Local midnight, so days follow the admin's calendar and daylight saving changes do not matter
+const startOfDay = (date: Date) => new Date(date).setHours(0, 0, 0, 0);
+
+// A YYYY-MM-DD day at local midnight; new Date('YYYY-MM-DD') would read it as UTC
+const parseDay = (day: string) => {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date).getTime();
+};
+
+const shiftDay = (day: number, offset: number) => {
+  const date = new Date(day);
+  date.setDate(date.getDate() + offset);
+  return date.getTime();
+};
+
+export function computeStreaks(playedDays: string[]): Streaks {
+  const days = new Set(playedDays.map(parseDay));
+
+  let longest = 0;
+  for (const day of days) {
+    // Only count from the first day of each run
+    if (days.has(shiftDay(day, -1))) continue;
+    let run = 1;
+    while (days.has(shiftDay(day, run))) run += 1;
+    longest = Math.max(longest, run);
+  }
+
+  let day = startOfDay(new Date());
+  if (!days.has(day)) day = shiftDay(day, -1);
+  let current = 0;
+  while (days.has(day)) {
+    current += 1;
+    day = shiftDay(day, -1);
+  }
+  return { current, longest };
+}
+
+export function accuracyPercent(correct: number, total: number): string {
+  return total > 0 ? `${Math.round((correct / total) * 100)}%` : '-';
+}
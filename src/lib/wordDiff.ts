@@ -0,0 +1,61 @@
+export type DiffPart = {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+};
+
+// Above this many token pairs the LCS table gets too large to build in the browser
+const MAX_LCS_CELLS = 400_000;
+
+// Words and the whitespace between them, so the joined parts reproduce the input exactly
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter(Boolean);
+}
+
+// Merges neighbouring parts of the same type so the renderer outputs fewer spans
+function pushPart(parts: DiffPart[], type: DiffPart['type'], text: string) {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) last.text += text;
+  else parts.push({ type, text });
+}
+
+/**
+ * Word-level diff of two strings based on the longest common subsequence of their tokens.
+ * Very long inputs fall back to a single removed/added pair instead of a detailed diff.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  if (before === after) return before ? [{ type: 'same', text: before }] : [];
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const parts: DiffPart[] = [];
+
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    if (before) parts.push({ type: 'removed', text: before });
+    if (after) parts.push({ type: 'added', text: after });
+    return parts;
+  }
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushPart(parts, 'same', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      pushPart(parts, 'removed', a[i++]);
+    } else {
+      pushPart(parts, 'added', b[j++]);
+    }
+  }
+  while (i < a.length) pushPart(parts, 'removed', a[i++]);
+  while (j < b.length) pushPart(parts, 'added', b[j++]);
+  return parts;
+}
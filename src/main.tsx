@@ -3,6 +3,7 @@ import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
 import '@toast-ui/editor/dist/toastui-editor.css';
+import 'katex/dist/katex.min.css';
 
 
 createRoot(document.getElementById('root')!).render(
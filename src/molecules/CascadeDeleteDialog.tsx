@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { AlertTriangle, Loader2, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from '../components/ui/dialog';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { cascadeDelete, previewCascadeDelete, type CascadeCounts, type CascadeSource } from '../lib/cascadeDelete';
+import { RECYCLE_RETENTION_DAYS } from '../lib/recycleBin';
+
+type CascadeDeleteDialogProps = {
+  // The item to delete; null keeps the dialog closed
+  source: CascadeSource | null;
+  onOpenChange: (open: boolean) => void;
+  onDeleted?: () => void;
+};
+
+const LEVEL_LABELS: Record<CascadeSource['level'], string> = {
+  book: 'Exam Book',
+  section: 'Section',
+  category: 'Category',
+  quiz: 'Quiz',
+};
+
+const COUNT_LABELS: [Exclude<keyof CascadeCounts, 'title'>, string][] = [
+  ['books', 'Exam books'],
+  ['sections', 'Sections'],
+  ['categories', 'Categories'],
+  ['quizzes', 'Quizzes'],
+  ['questions', 'Questions'],
+  ['drafts', 'Translation drafts'],
+  ['reports', 'Player reports'],
+];
+
+const CascadeDeleteDialog: React.FC<CascadeDeleteDialogProps> = ({ source, onOpenChange, onDeleted }) => {
+  const [preview, setPreview] = useState<CascadeCounts | null>(null);
+  const [confirmText, setConfirmText] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+
+  useEffect(() => {
+    if (!source) return;
+    let cancelled = false;
+    setPreview(null);
+    setConfirmText('');
+    setLoading(true);
+    previewCascadeDelete(source.level, source.key)
+      .then(counts => {
+        if (!cancelled) setPreview(counts);
+      })
+      .catch(error => toast.error('Failed to load what would be deleted: ' + (error as Error).message))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [source]);
+
+  if (!source) return null;
+
+  // The database title is authoritative; the row on screen may be stale
+  const expected = (preview?.title ?? source.title).trim();
+  const confirmed = !!preview && confirmText.trim() === expected;
+
+  const handleDelete = async () => {
+    if (!confirmed) return;
+    setDeleting(true);
+    try {
+      const deleted = await cascadeDelete(source.level, source.key, confirmText);
+      toast.success(`${LEVEL_LABELS[source.level]}${deleted.questions ? ` and ${deleted.questions} questions` : ''} moved to the Recycle Bin`);
+      onOpenChange(false);
+      onDeleted?.();
+    } catch (error) {
+      toast.error('Delete failed: ' + (error as Error).message);
+    }
+    setDeleting(false);
+  };
+
+  return (
+    <Dialog open={!!source} onOpenChange={deleting ? undefined : onOpenChange}>
+      <DialogContent showCloseButton={!deleting}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-red-700">
+            <AlertTriangle className="w-5 h-5" /> Delete {LEVEL_LABELS[source.level]}
+          </DialogTitle>
+          <DialogDescription>
+            “{source.title}” and everything under it will be moved to the Recycle Bin, where it can be
+            restored for {RECYCLE_RETENTION_DAYS} days.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+            </div>
+          ) : preview && (
+            <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm">
+              <div className="font-medium mb-1">This will delete:</div>
+              <ul className="grid grid-cols-2 gap-x-4">
+                {COUNT_LABELS.filter(([key]) => preview[key] > 0).map(([key, label]) => (
+                  <li key={key}>{label}: <span className="font-semibold">{preview[key]}</span></li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <div>
+            <label className="block mb-1 text-sm text-gray-700">
+              Type <span className="font-semibold select-all">{expected}</span> to confirm
+            </label>
+            <Input
+              value={confirmText}
+              onChange={e => setConfirmText(e.target.value)}
+              disabled={!preview || deleting}
+              autoComplete="off"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button type="button" variant="outline" disabled={deleting}>Cancel</Button>
+          </DialogClose>
+          <Button type="button" variant="destructive" onClick={handleDelete} disabled={!confirmed || deleting}>
+            {deleting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+            Move to Recycle Bin
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CascadeDeleteDialog;
@@ -0,0 +1,232 @@
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Copy, Eye, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from '../components/ui/dialog';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import {
+  executeClone,
+  fetchCloneParents,
+  planClone,
+  type CloneCounts,
+  type CloneLevel,
+  type CloneOptions,
+  type CloneParent,
+  type CloneSource,
+} from '../lib/cloneTree';
+import { LANGUAGE_LABELS, otherLanguage, type LanguageCode } from '../lib/translations';
+
+type CloneDialogProps = {
+  // The item to clone; null keeps the dialog closed
+  source: CloneSource | null;
+  onOpenChange: (open: boolean) => void;
+  onCloned?: (rootKey: string) => void;
+};
+
+const LEVEL_LABELS: Record<CloneLevel, string> = {
+  book: 'Exam Book',
+  section: 'Section',
+  category: 'Category',
+  quiz: 'Quiz',
+};
+
+const PARENT_LABELS: Record<CloneLevel, string> = {
+  book: '',
+  section: 'Exam Book',
+  category: 'Section',
+  quiz: 'Category',
+};
+
+const COUNT_LABELS: [keyof CloneCounts, string][] = [
+  ['books', 'Exam books'],
+  ['sections', 'Sections'],
+  ['categories', 'Categories'],
+  ['quizzes', 'Quizzes'],
+  ['questions', 'Questions'],
+  ['drafts', 'Translation drafts'],
+];
+
+const CloneDialog: React.FC<CloneDialogProps> = ({ source, onOpenChange, onCloned }) => {
+  const [title, setTitle] = useState('');
+  const [language, setLanguage] = useState<LanguageCode | ''>('');
+  const [parentKey, setParentKey] = useState('');
+  const [parents, setParents] = useState<CloneParent[]>([]);
+  const [includeQuestions, setIncludeQuestions] = useState(true);
+  const [plan, setPlan] = useState<CloneCounts | null>(null);
+  const [progress, setProgress] = useState('');
+  const [running, setRunning] = useState(false);
+
+  const sourceLanguage = (source?.languageCode === 'hi' ? 'hi' : 'en') as LanguageCode;
+  const targetLanguage = language || sourceLanguage;
+
+  useEffect(() => {
+    if (!source) return;
+    setTitle(`${source.title} (Copy)`);
+    setLanguage('');
+    setParentKey(source.parentKey || '');
+    setIncludeQuestions(true);
+    setPlan(null);
+    setProgress('');
+  }, [source]);
+
+  // Parents in the target language; a copy in the other language goes under the linked translation
+  useEffect(() => {
+    if (!source || source.level === 'book') return;
+    let cancelled = false;
+    fetchCloneParents(source.level, source.key, targetLanguage)
+      .then(loaded => {
+        if (cancelled) return;
+        setParents(loaded);
+        setParentKey(prev => (loaded.some(p => p.key === prev) ? prev : loaded[0]?.key || ''));
+      })
+      .catch(error => toast.error('Failed to load destinations: ' + (error as Error).message));
+    return () => {
+      cancelled = true;
+    };
+  }, [source, targetLanguage]);
+
+  // Any change invalidates the preview
+  useEffect(() => setPlan(null), [title, language, parentKey, includeQuestions]);
+
+  if (!source) return null;
+
+  const options = (): CloneOptions => ({
+    level: source.level,
+    key: source.key,
+    title: title.trim(),
+    parentKey: parentKey || undefined,
+    targetLanguage: language && language !== sourceLanguage ? language : undefined,
+    includeQuestions,
+  });
+
+  const handlePreview = async () => {
+    setRunning(true);
+    try {
+      setPlan(await planClone(options()));
+    } catch (error) {
+      toast.error('Preview failed: ' + (error as Error).message);
+    }
+    setRunning(false);
+  };
+
+  const handleClone = async () => {
+    if (!title.trim()) {
+      toast.error('Title is required');
+      return;
+    }
+    if (source.level !== 'book' && !parentKey) {
+      toast.error(`Choose a ${PARENT_LABELS[source.level].toLowerCase()} for the copy`);
+      return;
+    }
+    setRunning(true);
+    try {
+      const { rootKey, counts } = await executeClone(options(), setProgress);
+      const total = Object.values(counts).reduce((sum, n) => sum + n, 0);
+      toast.success(`${LEVEL_LABELS[source.level]} cloned (${total} rows created)`);
+      onOpenChange(false);
+      onCloned?.(rootKey);
+    } catch (error) {
+      toast.error('Clone failed: ' + (error as Error).message);
+    }
+    setRunning(false);
+    setProgress('');
+  };
+
+  return (
+    <Dialog open={!!source} onOpenChange={running ? undefined : onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Clone {LEVEL_LABELS[source.level]}</DialogTitle>
+          <DialogDescription>
+            Copies “{source.title}” and everything under it. Copies start as drafts so the new
+            edition can be prepared without players seeing it.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <label className="block mb-1 font-medium text-gray-700">Title of the copy</label>
+            <Input value={title} onChange={e => setTitle(e.target.value)} disabled={running} />
+          </div>
+          {source.level !== 'book' && (
+            <>
+              <div>
+                <label className="block mb-1 font-medium text-gray-700">Language</label>
+                <select
+                  className="w-full border rounded-md px-3 py-2 bg-white"
+                  value={language || sourceLanguage}
+                  onChange={e => setLanguage(e.target.value as LanguageCode)}
+                  disabled={running}
+                >
+                  <option value={sourceLanguage}>{LANGUAGE_LABELS[sourceLanguage]} (same as original)</option>
+                  <option value={otherLanguage(sourceLanguage)}>{LANGUAGE_LABELS[otherLanguage(sourceLanguage)]} (as its translation)</option>
+                </select>
+                {targetLanguage !== sourceLanguage && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    The copy is linked to the original as its translation. Questions go to the
+                    translation review queue as drafts, still in the original wording.
+                  </p>
+                )}
+              </div>
+              <div>
+                <label className="block mb-1 font-medium text-gray-700">{PARENT_LABELS[source.level]}</label>
+                <select
+                  className="w-full border rounded-md px-3 py-2 bg-white"
+                  value={parentKey}
+                  onChange={e => setParentKey(e.target.value)}
+                  disabled={running}
+                >
+                  {parents.length === 0 && <option value="">Nothing available in this language</option>}
+                  {parents.map(p => (
+                    <option key={p.key} value={p.key}>{p.title}</option>
+                  ))}
+                </select>
+              </div>
+            </>
+          )}
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={includeQuestions}
+              onChange={e => setIncludeQuestions(e.target.checked)}
+              disabled={running}
+            />
+            Include questions
+          </label>
+          {plan && (
+            <div className="rounded-md border bg-gray-50 p-3 text-sm">
+              <div className="font-medium mb-1">This will create:</div>
+              <ul className="grid grid-cols-2 gap-x-4">
+                {COUNT_LABELS.filter(([key]) => plan[key] > 0).map(([key, label]) => (
+                  <li key={key}>{label}: <span className="font-semibold">{plan[key]}</span></li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {progress && <div className="text-sm text-gray-600">{progress}…</div>}
+        </div>
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button type="button" variant="secondary" disabled={running}>Cancel</Button>
+          </DialogClose>
+          <Button type="button" variant="outline" onClick={handlePreview} disabled={running}>
+            <Eye className="w-4 h-4" /> Preview
+          </Button>
+          <Button type="button" onClick={handleClone} disabled={running}>
+            {running ? <Loader2 className="w-4 h-4 animate-spin" /> : <Copy className="w-4 h-4" />}
+            Clone
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CloneDialog;
@@ -0,0 +1,108 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Link } from 'react-router-dom';
+import { Loader2, Sparkles } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from '../components/ui/dialog';
+import { Button } from '../components/ui/button';
+import { availableTranslationProviders, defaultTranslationProviderId } from '../lib/translationProviders';
+import { generateTranslationDrafts, type DraftGenerationResult } from '../lib/translationDrafts';
+
+type MachineTranslateDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  quizId: string;
+};
+
+const MachineTranslateDialog: React.FC<MachineTranslateDialogProps> = ({ open, onOpenChange, quizId }) => {
+  const providers = useMemo(() => availableTranslationProviders(), []);
+  const [providerId, setProviderId] = useState(defaultTranslationProviderId);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [result, setResult] = useState<DraftGenerationResult | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setProgress(null);
+      setResult(null);
+    }
+  }, [open]);
+
+  const handleGenerate = async () => {
+    const provider = providers.find(p => p.id === providerId);
+    if (!provider) return;
+    setRunning(true);
+    try {
+      const generated = await generateTranslationDrafts(quizId, provider, (done, total) => setProgress({ done, total }));
+      setResult(generated);
+      if (generated.created === 0) toast('Every question already has a translation or a draft');
+    } catch (error) {
+      toast.error('Translation failed: ' + (error as Error).message);
+    }
+    setRunning(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={running ? undefined : onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Machine Translate</DialogTitle>
+          <DialogDescription>
+            Creates translation drafts for every question in this quiz that has no translation yet.
+            Drafts wait in the review queue and are only published once someone approves them.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <label className="block mb-1 font-medium text-gray-700">Provider</label>
+            <select
+              className="w-full border rounded-md px-3 py-2 bg-white"
+              value={providerId}
+              onChange={e => setProviderId(e.target.value)}
+              disabled={running}
+            >
+              {providers.map(p => (
+                <option key={p.id} value={p.id}>{p.label}</option>
+              ))}
+            </select>
+          </div>
+          {progress && (
+            <div className="text-sm text-gray-600">
+              {running ? 'Translating' : 'Translated'} {progress.done} of {progress.total} question{progress.total === 1 ? '' : 's'}
+              <div className="mt-1 h-2 rounded bg-gray-100 overflow-hidden">
+                <div
+                  className="h-full bg-blue-500 transition-all"
+                  style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 100}%` }}
+                />
+              </div>
+            </div>
+          )}
+          {result && (
+            <div className="rounded-md border bg-gray-50 p-3 text-sm">
+              {result.created} draft{result.created === 1 ? '' : 's'} created, {result.skipped} skipped.{' '}
+              <Link to="/translation-review" className="text-blue-600 hover:underline">Open the review queue</Link>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button type="button" variant="secondary" disabled={running}>Close</Button>
+          </DialogClose>
+          <Button type="button" onClick={handleGenerate} disabled={running}>
+            {running ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+            Create drafts
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MachineTranslateDialog;
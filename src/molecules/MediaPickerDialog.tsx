@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from '../components/ui/dialog';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { fetchMediaAssets, formatBytes, mediaUrl, type MediaAsset } from '../lib/mediaLibrary';
+
+type MediaPickerDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (url: string) => void;
+};
+
+const PAGE_SIZE = 24;
+
+// Picks an image that was uploaded before, for any image field
+const MediaPickerDialog: React.FC<MediaPickerDialogProps> = ({ open, onOpenChange, onSelect }) => {
+  const [search, setSearch] = useState('');
+  const [assets, setAssets] = useState<MediaAsset[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+
+  const load = async (offset: number) => {
+    setLoading(true);
+    try {
+      const page = await fetchMediaAssets({ search, limit: PAGE_SIZE, offset });
+      setAssets(previous => (offset === 0 ? page.assets : [...previous, ...page.assets]));
+      setTotal(page.total);
+    } catch (error) {
+      toast.error('Failed to load the media library: ' + (error as Error).message);
+    }
+    setLoading(false);
+  };
+
+  // Reload from the start whenever the dialog opens or the search settles
+  useEffect(() => {
+    if (!open) return;
+    const timer = setTimeout(() => load(0), 300);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line
+  }, [open, search]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Media Library</DialogTitle>
+          <DialogDescription>Choose an image that has already been uploaded.</DialogDescription>
+        </DialogHeader>
+        <Input
+          placeholder="Search by file name or where it is used..."
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+        />
+        <div className="max-h-[55vh] overflow-y-auto">
+          {assets.length === 0 && !loading ? (
+            <div className="py-8 text-center text-gray-400">No images found.</div>
+          ) : (
+            <div className="grid grid-cols-3 sm:grid-cols-4 gap-3">
+              {assets.map(asset => (
+                <button
+                  key={asset.path}
+                  type="button"
+                  className="group rounded-lg border p-2 text-left hover:border-blue-500 hover:bg-blue-50 transition"
+                  onClick={() => {
+                    onSelect(mediaUrl(asset.path));
+                    onOpenChange(false);
+                  }}
+                >
+                  <div className="aspect-square flex items-center justify-center bg-gray-50 rounded overflow-hidden">
+                    <img src={mediaUrl(asset.path)} alt="" loading="lazy" className="max-w-full max-h-full object-contain" />
+                  </div>
+                  <div className="mt-1 truncate text-xs text-gray-700" title={asset.original_name || asset.path}>
+                    {asset.original_name || asset.path.split('/').pop()}
+                  </div>
+                  <div className="text-[11px] text-gray-400">
+                    {asset.width && asset.height ? `${asset.width}×${asset.height} · ` : ''}{formatBytes(asset.size)}
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+          {loading && (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          {assets.length < total && (
+            <Button type="button" variant="outline" disabled={loading} onClick={() => load(assets.length)}>
+              Load more
+            </Button>
+          )}
+          <DialogClose asChild>
+            <Button type="button" variant="secondary">Cancel</Button>
+          </DialogClose>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MediaPickerDialog;
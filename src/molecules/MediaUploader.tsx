@@ -0,0 +1,108 @@
+import React, { useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import { ImagePlus, Images, Loader2, X } from 'lucide-react';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import MediaPickerDialog from './MediaPickerDialog';
+import { uploadMedia, type MediaFolder } from '../lib/mediaUpload';
+
+type MediaUploaderProps = {
+  // Public URL of the current image; empty when there is none
+  value: string;
+  onChange: (url: string) => void;
+  folder: MediaFolder;
+  disabled?: boolean;
+};
+
+// Image field for forms: drop or pick a file to upload it, reuse one from the media library, or
+// paste the URL of a hosted image
+const MediaUploader: React.FC<MediaUploaderProps> = ({ value, onChange, folder, disabled }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [pickerOpen, setPickerOpen] = useState(false);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setUploading(true);
+    try {
+      onChange(await uploadMedia(file, folder));
+    } catch (error) {
+      toast.error('Upload failed: ' + (error as Error).message);
+    }
+    setUploading(false);
+  };
+
+  const busy = disabled || uploading;
+
+  return (
+    <div className="space-y-2">
+      <div
+        className={`flex items-center gap-3 rounded-lg border-2 border-dashed p-3 transition ${
+          dragging ? 'border-blue-500 bg-blue-50' : 'border-gray-300'
+        } ${busy ? 'opacity-60' : 'cursor-pointer hover:border-blue-400'}`}
+        onClick={() => !busy && inputRef.current?.click()}
+        onDragOver={e => {
+          e.preventDefault();
+          if (!busy) setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={e => {
+          e.preventDefault();
+          setDragging(false);
+          if (!busy) handleFile(e.dataTransfer.files[0]);
+        }}
+      >
+        <div className="w-16 h-16 flex-shrink-0 flex items-center justify-center rounded border bg-gray-50 overflow-hidden">
+          {uploading ? (
+            <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+          ) : value ? (
+            <img src={value} alt="preview" className="w-full h-full object-contain" />
+          ) : (
+            <ImagePlus className="w-6 h-6 text-gray-400" />
+          )}
+        </div>
+        <div className="flex-1 text-sm text-gray-600">
+          {uploading ? 'Uploading…' : 'Drop an image here or click to choose one. It is resized and converted to WebP.'}
+        </div>
+        {value && !busy && (
+          <button
+            type="button"
+            className="text-gray-400 hover:text-red-600"
+            aria-label="Remove image"
+            onClick={e => {
+              e.stopPropagation();
+              onChange('');
+            }}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={e => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      <div className="flex gap-2">
+        <Input
+          value={value}
+          onChange={e => onChange(e.target.value)}
+          placeholder="…or paste an image URL"
+          disabled={busy}
+        />
+        <Button type="button" variant="outline" disabled={busy} onClick={() => setPickerOpen(true)}>
+          <Images className="w-4 h-4" /> Library
+        </Button>
+      </div>
+      <MediaPickerDialog open={pickerOpen} onOpenChange={setPickerOpen} onSelect={onChange} />
+    </div>
+  );
+};
+
+export default MediaUploader;
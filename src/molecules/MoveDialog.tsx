@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { FolderInput, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from '../components/ui/dialog';
+import { Button } from '../components/ui/button';
+import { fetchMoveTargets, moveHierarchyItem, type MoveLevel, type MoveSource, type MoveTarget } from '../lib/hierarchyMoves';
+
+type MoveDialogProps = {
+  // The item to move; null keeps the dialog closed
+  source: MoveSource | null;
+  onOpenChange: (open: boolean) => void;
+  onMoved?: () => void;
+};
+
+const LEVEL_LABELS: Record<MoveLevel, string> = {
+  section: 'Section',
+  category: 'Category',
+  quiz: 'Quiz',
+};
+
+const TARGET_LABELS: Record<MoveLevel, string> = {
+  section: 'Exam Book',
+  category: 'Section',
+  quiz: 'Category',
+};
+
+const MoveDialog: React.FC<MoveDialogProps> = ({ source, onOpenChange, onMoved }) => {
+  const [targets, setTargets] = useState<MoveTarget[]>([]);
+  const [targetKey, setTargetKey] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [moving, setMoving] = useState(false);
+
+  useEffect(() => {
+    if (!source) return;
+    let cancelled = false;
+    setTargetKey('');
+    setLoading(true);
+    fetchMoveTargets(source.level, source.languageCode)
+      .then(loaded => {
+        if (!cancelled) setTargets(loaded.filter(t => t.key !== source.parentKey));
+      })
+      .catch(error => toast.error('Failed to load destinations: ' + (error as Error).message))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [source]);
+
+  if (!source) return null;
+
+  const handleMove = async () => {
+    if (!targetKey) return;
+    setMoving(true);
+    try {
+      const questionCount = await moveHierarchyItem(source.level, source.key, targetKey);
+      toast.success(`${LEVEL_LABELS[source.level]} moved${questionCount ? ` (${questionCount} questions updated)` : ''}`);
+      onOpenChange(false);
+      onMoved?.();
+    } catch (error) {
+      toast.error('Move failed: ' + (error as Error).message);
+    }
+    setMoving(false);
+  };
+
+  return (
+    <Dialog open={!!source} onOpenChange={moving ? undefined : onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Move {LEVEL_LABELS[source.level]}</DialogTitle>
+          <DialogDescription>
+            Moves “{source.title}” with everything under it. Its questions keep their content and
+            history; only their place in the hierarchy changes. It goes to the end of the new list.
+          </DialogDescription>
+        </DialogHeader>
+        <div>
+          <label className="block mb-1 font-medium text-gray-700">New {TARGET_LABELS[source.level]}</label>
+          <select
+            className="w-full border rounded-md px-3 py-2 bg-white"
+            value={targetKey}
+            onChange={e => setTargetKey(e.target.value)}
+            disabled={loading || moving}
+          >
+            <option value="">{loading ? 'Loading…' : `Select ${TARGET_LABELS[source.level].toLowerCase()}`}</option>
+            {targets.map(t => (
+              <option key={t.key} value={t.key}>{t.label}</option>
+            ))}
+          </select>
+        </div>
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button type="button" variant="secondary" disabled={moving}>Cancel</Button>
+          </DialogClose>
+          <Button type="button" onClick={handleMove} disabled={!targetKey || moving}>
+            {moving ? <Loader2 className="w-4 h-4 animate-spin" /> : <FolderInput className="w-4 h-4" />}
+            Move
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MoveDialog;
@@ -14,6 +14,14 @@ import {
 } from '../components/ui/dialog';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
+import { AlertTriangle, Languages } from 'lucide-react';
+import type { Question } from '../QuestionsPage';
+import type { SimilarityMatch } from '../lib/questionSimilarity';
+import { LANGUAGE_LABELS, otherLanguage } from '../lib/translations';
+import { uploadMedia } from '../lib/mediaUpload';
+import { hasMath } from '../lib/math';
+import MathMarkdown from '../atoms/MathMarkdown';
+import MathText from '../atoms/MathText';
 
 export const questionSchema = z.object({
   questionType: z.union([z.literal(1), z.literal(2)]),
@@ -45,6 +53,28 @@ export const questionSchema = z.object({
 });
 export type QuestionForm = z.infer<typeof questionSchema>;
 
+// The editors' image button uploads to the media bucket instead of inlining a base64 data URL
+const editorHooks = {
+  addImageBlobHook: (blob: Blob | File, callback: (url: string, altText: string) => void) => {
+    uploadMedia(blob, 'questions')
+      .then(url => callback(url, blob instanceof File ? blob.name.replace(/\.[^.]+$/, '') : ''))
+      .catch(error => toast.error('Image upload failed: ' + (error as Error).message));
+  },
+};
+
+// The editors' own preview shows formulas as LaTeX source, so the rendered version goes below them
+function FormulaPreview({ text }: { text: string }) {
+  if (!hasMath(text)) return null;
+  return (
+    <div className="mt-2 rounded border border-dashed bg-gray-50 px-3 py-2">
+      <div className="text-xs text-gray-500 mb-1">Formula preview</div>
+      <MathMarkdown className="prose prose-sm max-w-none">{text}</MathMarkdown>
+    </div>
+  );
+}
+
+const FORMULA_HINT = 'Formulas: $x^2$ inline, $$\\frac{a}{b}$$ on its own line, $\\ce{H2O}$ for chemistry';
+
 const languageOptions = [
   { label: 'English', value: 'en' },
   { label: 'Hindi', value: 'hi' },
@@ -54,15 +84,37 @@ const questionTypeOptions = [
   { label: 'True/False', value: 2 },
 ];
 
+// Language-specific fields edited in the translation column; type and answer are shared
+type TranslationFields = Pick<QuestionForm, 'optionA' | 'optionB' | 'optionC' | 'optionD' | 'previouslyAskedIn'>;
+
+const emptyTranslation = (values?: Partial<QuestionForm> | null): TranslationFields => ({
+  optionA: values?.optionA ?? '',
+  optionB: values?.optionB ?? '',
+  optionC: values?.optionC ?? '',
+  optionD: values?.optionD ?? '',
+  previouslyAskedIn: values?.previouslyAskedIn ?? '',
+});
+
 type QuestionDialogProps = {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onSubmit: (values: QuestionForm) => Promise<void>;
+  // `translation` is only passed when the side-by-side mode was used
+  onSubmit: (values: QuestionForm, translation?: QuestionForm) => Promise<void>;
   loading?: boolean;
   initialValues?: Partial<QuestionForm>;
   mode?: 'add' | 'edit';
+  // Called before saving; any matches are shown and the user must confirm to save anyway
+  checkDuplicates?: (values: QuestionForm) => Promise<SimilarityMatch<Question>[]>;
+  // Enables the side-by-side mode for editing both languages at once
+  bilingual?: boolean;
+  // The existing translation, if any; the side-by-side mode starts open when there is one
+  translationValues?: Partial<QuestionForm> | null;
 };
 
+// Fields that, when changed after a duplicate warning, trigger a fresh check
+const duplicateKey = (values: QuestionForm) =>
+  JSON.stringify([values.questionText, values.optionA, values.optionB, values.optionC, values.optionD]);
+
 const QuestionDialog: React.FC<QuestionDialogProps> = ({
   open,
   onOpenChange,
@@ -70,12 +122,24 @@ const QuestionDialog: React.FC<QuestionDialogProps> = ({
   loading = false,
   initialValues = {},
   mode = 'add',
+  checkDuplicates,
+  bilingual = false,
+  translationValues = null,
 }) => {
   const questionEditorRef = useRef<any>(null);
   const noteEditorRef = useRef<any>(null);
+  const translationEditorRef = useRef<Editor>(null);
+  const translationNoteEditorRef = useRef<Editor>(null);
+  const [sideBySide, setSideBySide] = useState(false);
+  const [translation, setTranslation] = useState<TranslationFields>(emptyTranslation());
+  const [translationTextError, setTranslationTextError] = useState('');
   const [questionText, setQuestionText] = useState(initialValues.questionText || '');
   const [noteText, setNoteText] = useState(initialValues.noteText || '');
+  const [translationText, setTranslationText] = useState('');
+  const [translationNoteText, setTranslationNoteText] = useState('');
   const [questionTextError, setQuestionTextError] = useState('');
+  const [duplicates, setDuplicates] = useState<{ key: string; matches: SimilarityMatch<Question>[] } | null>(null);
+  const [checkingDuplicates, setCheckingDuplicates] = useState(false);
 
   const {
     register,
@@ -110,6 +174,10 @@ const QuestionDialog: React.FC<QuestionDialogProps> = ({
     console.log('Initial values:', initialValues); // Debug log
     
     if (open) {
+      setDuplicates(null);
+      setSideBySide(bilingual && !!translationValues);
+      setTranslation(emptyTranslation(translationValues));
+      setTranslationTextError('');
       setQuestionText(initialValues.questionText || '');
       setNoteText(initialValues.noteText || '');
       reset({
@@ -127,12 +195,41 @@ const QuestionDialog: React.FC<QuestionDialogProps> = ({
       setTimeout(() => {
         if (questionEditorRef.current) questionEditorRef.current.getInstance().setMarkdown(initialValues.questionText || '');
         if (noteEditorRef.current) noteEditorRef.current.getInstance().setMarkdown(initialValues.noteText || '');
+        if (translationEditorRef.current) translationEditorRef.current.getInstance().setMarkdown(translationValues?.questionText || '');
+        if (translationNoteEditorRef.current) translationNoteEditorRef.current.getInstance().setMarkdown(translationValues?.noteText || '');
       }, 0);
     }
     // eslint-disable-next-line
   }, [open, mode]);
 
   const questionType = watch('questionType');
+  const primaryLanguage = watch('languageCode');
+  const translationLanguage = otherLanguage(primaryLanguage);
+
+  // The translation column shares type and answer with the primary question
+  const buildTranslation = (values: QuestionForm): QuestionForm | null => {
+    const text = translationEditorRef.current?.getInstance().getMarkdown() || '';
+    const note = translationNoteEditorRef.current?.getInstance().getMarkdown() || '';
+    if (!text.replace(/<[^>]*>/g, '').trim()) {
+      setTranslationTextError(`${LANGUAGE_LABELS[translationLanguage]} question text is required`);
+      return null;
+    }
+    const result: QuestionForm = {
+      ...values,
+      ...translation,
+      languageCode: translationLanguage,
+      questionText: text,
+      noteText: note,
+    };
+    if (values.questionType === 1) {
+      const answerKey = ({ a: 'optionA', b: 'optionB', c: 'optionC', d: 'optionD' } as const)[values.correctAnswer];
+      if (!result.optionA.trim() || !result.optionB.trim() || !result[answerKey]?.trim()) {
+        toast.error(`Fill in the ${LANGUAGE_LABELS[translationLanguage]} options, including the correct answer`);
+        return null;
+      }
+    }
+    return result;
+  };
 
   const handleFormSubmit = async (values: QuestionForm) => {
     console.log('Form submission started'); // Debug log
@@ -158,10 +255,28 @@ const QuestionDialog: React.FC<QuestionDialogProps> = ({
       return;
     }
     
+    setTranslationTextError('');
+    const translated = sideBySide ? buildTranslation(values) : null;
+    if (sideBySide && !translated) return;
+
+    // Warn about likely duplicates once per distinct question; submitting again saves anyway
+    if (checkDuplicates && duplicates?.key !== duplicateKey(values)) {
+      setCheckingDuplicates(true);
+      let matches: SimilarityMatch<Question>[] = [];
+      try {
+        matches = await checkDuplicates(values);
+      } catch (error) {
+        toast.error('Could not check for duplicates: ' + (error as Error).message);
+      }
+      setCheckingDuplicates(false);
+      setDuplicates({ key: duplicateKey(values), matches });
+      if (matches.length > 0) return;
+    }
+
     console.log('All validations passed, calling onSubmit'); // Debug log
     
     try {
-      await onSubmit(values);
+      await onSubmit(values, translated || undefined);
       console.log('onSubmit completed successfully'); // Debug log
     } catch (error) {
       console.error('Form submission error:', error);
@@ -171,9 +286,21 @@ const QuestionDialog: React.FC<QuestionDialogProps> = ({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className='sm:max-w-lg lg:max-w-3xl xl:max-w-4xl'>
-        <DialogHeader>
+      <DialogContent className={sideBySide ? 'sm:max-w-lg lg:max-w-6xl xl:max-w-7xl' : 'sm:max-w-lg lg:max-w-3xl xl:max-w-4xl'}>
+        <DialogHeader className="flex-row items-center justify-between gap-2 pr-8">
           <DialogTitle>{mode === 'edit' ? 'Edit Question' : 'Add Question'}</DialogTitle>
+          {bilingual && (
+            <Button
+              type="button"
+              size="sm"
+              variant={sideBySide ? 'default' : 'outline'}
+              onClick={() => setSideBySide(v => !v)}
+              disabled={loading}
+            >
+              <Languages className="w-4 h-4" />
+              {sideBySide ? 'Side-by-side on' : `Edit with ${LANGUAGE_LABELS[translationLanguage]}`}
+            </Button>
+          )}
         </DialogHeader>
         <form 
           onSubmit={(e) => {
@@ -221,76 +348,177 @@ const QuestionDialog: React.FC<QuestionDialogProps> = ({
               {errors.languageCode && <p className="text-red-500 text-xs mt-1">{errors.languageCode.message}</p>}
             </div>
           </div>
-          <div>
-            <label className="block mb-1 font-medium">Question Text</label>
-            <Editor
-              ref={questionEditorRef}
-              initialValue={questionText}
-              height="200px"
-              usageStatistics={false}
-              previewStyle="vertical"
-              initialEditType="wysiwyg"
-              className="my-editor"
-              onChange={() => setQuestionText(questionEditorRef.current?.getInstance().getMarkdown() || '')}
-            />
-            {(questionTextError) && <p className="text-red-500 text-xs mt-1">{questionTextError}</p>}
-          </div>
-          <div>
-            <div className="font-semibold mb-2">Options <span className="text-red-500">*</span></div>
+          <div className={sideBySide ? 'grid grid-cols-1 lg:grid-cols-2 gap-6' : ''}>
+            <div className="space-y-5">
+              {sideBySide && <div className="font-semibold text-blue-700">{LANGUAGE_LABELS[primaryLanguage]}</div>}
+              <div>
+                <label className="block mb-1 font-medium">Question Text</label>
+                <Editor
+                  ref={questionEditorRef}
+                  initialValue={questionText}
+                  height="200px"
+                  usageStatistics={false}
+                  previewStyle="vertical"
+                  initialEditType="markdown"
+                  hooks={editorHooks}
+                  className="my-editor"
+                  onChange={() => setQuestionText(questionEditorRef.current?.getInstance().getMarkdown() || '')}
+                />
+                <p className="text-xs text-gray-500 mt-1">{FORMULA_HINT}</p>
+                <FormulaPreview text={questionText} />
+                {(questionTextError) && <p className="text-red-500 text-xs mt-1">{questionTextError}</p>}
+              </div>
+              <div>
+                <div className="font-semibold mb-2">Options <span className="text-red-500">*</span></div>
           
-            <div className="flex flex-col space-y-3">
-              {['a', 'b', 'c', 'd'].map((opt, idx) => {
-                if (questionType === 2 && (opt === 'c' || opt === 'd')) return null;
-                const regKey = ({ a: 'optionA', b: 'optionB', c: 'optionC', d: 'optionD' } as const)[opt];
-                if (!regKey) return null;
-                return (
-                  <div key={opt} className="flex items-center gap-3 px-3 rounded-lg hover:bg-gray-50 transition-colors">
-                    <input 
-                      type="radio" 
-                      value={opt} 
-                      {...register('correctAnswer')} 
-                      className="w-6 h-6 text-blue-600 bg-gray-100 border-gray-300 focus:ring-blue-500 focus:ring-2 cursor-pointer" 
-                      disabled={loading} 
-                      id={`correct-${opt}`}
+                <div className="flex flex-col space-y-3">
+                  {['a', 'b', 'c', 'd'].map((opt, idx) => {
+                    if (questionType === 2 && (opt === 'c' || opt === 'd')) return null;
+                    const regKey = ({ a: 'optionA', b: 'optionB', c: 'optionC', d: 'optionD' } as const)[opt];
+                    if (!regKey) return null;
+                    return (
+                      <div key={opt} className="flex items-center gap-3 px-3 rounded-lg hover:bg-gray-50 transition-colors">
+                        <input 
+                          type="radio" 
+                          value={opt} 
+                          {...register('correctAnswer')} 
+                          className="w-6 h-6 text-blue-600 bg-gray-100 border-gray-300 focus:ring-blue-500 focus:ring-2 cursor-pointer" 
+                          disabled={loading} 
+                          id={`correct-${opt}`}
+                        />
+                        <label htmlFor={`correct-${opt}`} className="flex-1 cursor-pointer">
+                          <Input
+                            {...register(regKey)}
+                            disabled={questionType === 2 && (opt === 'a' ? false : opt === 'b' ? false : true) || loading}
+                            value={questionType === 2 ? (opt === 'a' ? 'True' : opt === 'b' ? 'False' : undefined) : undefined}
+                            placeholder={questionType === 2 ? (opt === 'a' ? 'True' : opt === 'b' ? 'False' : '') : `Option ${opt.toUpperCase()}`}
+                            className="cursor-text"
+                          />
+                          {questionType === 1 && hasMath(watch(regKey)) && (
+                            <div className="mt-1 text-sm"><MathText text={watch(regKey) || ''} /></div>
+                          )}
+                        </label>
+                      </div>
+                    );
+                  })}
+                  {errors.correctAnswer && <p className="text-red-500 text-sm mt-2 font-medium">{errors.correctAnswer.message}</p>}
+                  {errors.optionA && <p className="text-red-500 text-xs mt-1">{errors.optionA.message}</p>}
+                  {errors.optionB && <p className="text-red-500 text-xs mt-1">{errors.optionB.message}</p>}
+                  {questionType === 1 && errors.optionC && <p className="text-red-500 text-xs mt-1">{errors.optionC.message}</p>}
+                  {questionType === 1 && errors.optionD && <p className="text-red-500 text-xs mt-1">{errors.optionD.message}</p>}
+                </div>
+              </div>
+              <div className="border-t pt-4 mt-4">
+                <div>
+                  <label className="block mb-1 font-medium">Note (Markdown)</label>
+                  <Editor
+                    ref={noteEditorRef}
+                    initialValue={noteText}
+                    height="150px"
+                    usageStatistics={false}
+                    previewStyle="vertical"
+                    initialEditType="markdown"
+                    hooks={editorHooks}
+                    onChange={() => setNoteText(noteEditorRef.current?.getInstance().getMarkdown() || '')}
+                  />
+                  <FormulaPreview text={noteText} />
+                </div>
+                <div>
+                  <label className="block mb-1 font-medium">Previously Asked In</label>
+                  <Input {...register('previouslyAskedIn')} placeholder="(optional)" disabled={loading} />
+                  {errors.previouslyAskedIn && <p className="text-red-500 text-xs mt-1">{errors.previouslyAskedIn.message}</p>}
+                </div>
+              </div>
+            </div>
+            {bilingual && (
+              <div className={sideBySide ? 'space-y-5 lg:border-l lg:pl-6' : 'hidden'}>
+                <div className="font-semibold text-blue-700">{LANGUAGE_LABELS[translationLanguage]}</div>
+                <div>
+                  <label className="block mb-1 font-medium">Question Text</label>
+                  <Editor
+                    ref={translationEditorRef}
+                    initialValue={translationValues?.questionText || ''}
+                    height="200px"
+                    usageStatistics={false}
+                    previewStyle="vertical"
+                    initialEditType="markdown"
+                    hooks={editorHooks}
+                    className="my-editor"
+                    onChange={() => setTranslationText(translationEditorRef.current?.getInstance().getMarkdown() || '')}
+                  />
+                  <FormulaPreview text={translationText} />
+                  {translationTextError && <p className="text-red-500 text-xs mt-1">{translationTextError}</p>}
+                </div>
+                <div>
+                  <div className="font-semibold mb-2">Options</div>
+                  <div className="flex flex-col space-y-3">
+                    {(['a', 'b', 'c', 'd'] as const).map(opt => {
+                      if (questionType === 2 && (opt === 'c' || opt === 'd')) return null;
+                      const key = ({ a: 'optionA', b: 'optionB', c: 'optionC', d: 'optionD' } as const)[opt];
+                      return (
+                        <div key={opt} className="flex items-center gap-3 px-3">
+                          <span className={`w-6 text-center font-semibold ${watch('correctAnswer') === opt ? 'text-green-600' : 'text-gray-400'}`}>
+                            {opt.toUpperCase()}
+                          </span>
+                          <Input
+                            value={questionType === 2 ? (opt === 'a' ? 'True' : 'False') : translation[key] || ''}
+                            onChange={e => setTranslation(prev => ({ ...prev, [key]: e.target.value }))}
+                            disabled={questionType === 2 || loading}
+                            placeholder={`Option ${opt.toUpperCase()}`}
+                          />
+                          {questionType === 1 && hasMath(translation[key]) && (
+                            <span className="text-sm whitespace-nowrap"><MathText text={translation[key] || ''} /></span>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+                <div className="border-t pt-4 mt-4">
+                  <div>
+                    <label className="block mb-1 font-medium">Note (Markdown)</label>
+                    <Editor
+                      ref={translationNoteEditorRef}
+                      initialValue={translationValues?.noteText || ''}
+                      height="150px"
+                      usageStatistics={false}
+                      previewStyle="vertical"
+                      initialEditType="markdown"
+                      hooks={editorHooks}
+                      onChange={() => setTranslationNoteText(translationNoteEditorRef.current?.getInstance().getMarkdown() || '')}
                     />
-                    <label htmlFor={`correct-${opt}`} className="flex-1 cursor-pointer">
-                      <Input
-                        {...register(regKey)}
-                        disabled={questionType === 2 && (opt === 'a' ? false : opt === 'b' ? false : true) || loading}
-                        value={questionType === 2 ? (opt === 'a' ? 'True' : opt === 'b' ? 'False' : undefined) : undefined}
-                        placeholder={questionType === 2 ? (opt === 'a' ? 'True' : opt === 'b' ? 'False' : '') : `Option ${opt.toUpperCase()}`}
-                        className="cursor-text"
-                      />
-                    </label>
+                    <FormulaPreview text={translationNoteText} />
                   </div>
-                );
-              })}
-              {errors.correctAnswer && <p className="text-red-500 text-sm mt-2 font-medium">{errors.correctAnswer.message}</p>}
-              {errors.optionA && <p className="text-red-500 text-xs mt-1">{errors.optionA.message}</p>}
-              {errors.optionB && <p className="text-red-500 text-xs mt-1">{errors.optionB.message}</p>}
-              {questionType === 1 && errors.optionC && <p className="text-red-500 text-xs mt-1">{errors.optionC.message}</p>}
-              {questionType === 1 && errors.optionD && <p className="text-red-500 text-xs mt-1">{errors.optionD.message}</p>}
-            </div>
+                  <div>
+                    <label className="block mb-1 font-medium">Previously Asked In</label>
+                    <Input
+                      value={translation.previouslyAskedIn || ''}
+                      onChange={e => setTranslation(prev => ({ ...prev, previouslyAskedIn: e.target.value }))}
+                      placeholder="(optional)"
+                      disabled={loading}
+                    />
+                  </div>
+                </div>
+              </div>
+            )}
           </div>
-          <div className="border-t pt-4 mt-4">
-            <div>
-              <label className="block mb-1 font-medium">Note (Markdown)</label>
-              <Editor
-                ref={noteEditorRef}
-                initialValue={noteText}
-                height="150px"
-                usageStatistics={false}
-                previewStyle="vertical"
-                initialEditType="wysiwyg"
-                onChange={() => setNoteText(noteEditorRef.current?.getInstance().getMarkdown() || '')}
-              />
-            </div>
-            <div>
-              <label className="block mb-1 font-medium">Previously Asked In</label>
-              <Input {...register('previouslyAskedIn')} placeholder="(optional)" disabled={loading} />
-              {errors.previouslyAskedIn && <p className="text-red-500 text-xs mt-1">{errors.previouslyAskedIn.message}</p>}
+          {duplicates && duplicates.matches.length > 0 && (
+            <div className="rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm">
+              <div className="flex items-center gap-2 font-semibold text-amber-800 mb-2">
+                <AlertTriangle className="w-4 h-4" />
+                {duplicates.matches.length === 1 ? 'A similar question already exists' : `${duplicates.matches.length} similar questions already exist`}
+              </div>
+              <ul className="space-y-1 max-h-40 overflow-y-auto">
+                {duplicates.matches.map(({ question, score }) => (
+                  <li key={question.questionId} className="flex gap-2">
+                    <span className="font-mono text-amber-700 shrink-0">{Math.round(score * 100)}%</span>
+                    <span className="text-gray-700 truncate">{question.questionText.replace(/<[^>]*>/g, '')}</span>
+                  </li>
+                ))}
+              </ul>
+              <p className="text-amber-700 mt-2">Review the matches above, or save anyway if this is a different question.</p>
             </div>
-          </div>
+          )}
           <DialogFooter>
             <DialogClose asChild>
               <Button type="button" variant="secondary" onClick={() => onOpenChange(false)} disabled={loading}>
@@ -299,10 +527,16 @@ const QuestionDialog: React.FC<QuestionDialogProps> = ({
             </DialogClose>
             <Button 
               type="submit" 
-              disabled={loading}
+              disabled={loading || checkingDuplicates}
               onClick={() => console.log('Submit button clicked')} // Debug log
             >
-              {loading ? (mode === 'edit' ? 'Updating...' : 'Adding...') : (mode === 'edit' ? 'Update' : 'Add')}
+              {loading
+                ? (mode === 'edit' ? 'Updating...' : 'Adding...')
+                : checkingDuplicates
+                  ? 'Checking...'
+                  : duplicates && duplicates.matches.length > 0
+                    ? 'Save anyway'
+                    : (mode === 'edit' ? 'Update' : 'Add')}
             </Button>
           </DialogFooter>
         </form>
@@ -0,0 +1,135 @@
+import React, { useEffect, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Download, FileJson, FileSpreadsheet, Loader2, Printer } from 'lucide-react';
+import { Button } from '../components/ui/button';
+import {
+  exportQuestionsCsv,
+  exportQuestionsJson,
+  fetchQuestionsForExport,
+  fetchQuizTitles,
+  fetchScopeTitle,
+  writePrintableQuestionPaper,
+  type ExportScope,
+} from '../lib/questionExport';
+
+type ExportFormat = 'csv' | 'json' | 'print';
+
+type QuestionExportMenuProps = {
+  quizId?: string;
+  segmentCode?: string;
+  bookRef?: string;
+};
+
+const formatOptions: { value: ExportFormat; label: string; icon: React.ReactNode }[] = [
+  { value: 'csv', label: 'CSV', icon: <FileSpreadsheet className="w-4 h-4 text-green-600" /> },
+  { value: 'json', label: 'JSON', icon: <FileJson className="w-4 h-4 text-orange-500" /> },
+  { value: 'print', label: 'Question paper (PDF)', icon: <Printer className="w-4 h-4 text-blue-600" /> },
+];
+
+const toFileBase = (title: string) =>
+  title.trim().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'questions';
+
+const QuestionExportMenu: React.FC<QuestionExportMenuProps> = ({ quizId, segmentCode, bookRef }) => {
+  const [open, setOpen] = useState(false);
+  const [scopeColumn, setScopeColumn] = useState<ExportScope['column']>('quizId');
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const scopeOptions = [
+    { column: 'quizId' as const, label: 'This quiz', value: quizId },
+    { column: 'segmentCode' as const, label: 'Whole category', value: segmentCode },
+    { column: 'bookRef' as const, label: 'Whole book', value: bookRef },
+  ].filter(opt => !!opt.value);
+
+  // Close the menu when clicking anywhere outside of it
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const handleExport = async (format: ExportFormat) => {
+    const scope = scopeOptions.find(opt => opt.column === scopeColumn);
+    if (!scope?.value) return;
+    // Open the print window before any await so the browser does not treat it as a pop-up
+    const printWindow = format === 'print' ? window.open('', '_blank') : null;
+    if (format === 'print' && !printWindow) {
+      toast.error('Pop-up blocked. Please allow pop-ups to print the question paper.');
+      return;
+    }
+    setExporting(format);
+    try {
+      const exportScope: ExportScope = { column: scope.column, value: scope.value };
+      const [questions, title] = await Promise.all([
+        fetchQuestionsForExport(exportScope),
+        fetchScopeTitle(exportScope),
+      ]);
+      if (questions.length === 0) {
+        printWindow?.close();
+        toast.error('No questions to export');
+      } else if (format === 'csv') {
+        exportQuestionsCsv(questions, toFileBase(title));
+      } else if (format === 'json') {
+        exportQuestionsJson(questions, toFileBase(title));
+      } else if (printWindow) {
+        const quizTitles = scope.column === 'quizId' ? {} : await fetchQuizTitles(questions);
+        writePrintableQuestionPaper(printWindow, questions, title, quizTitles);
+      }
+      if (questions.length > 0) {
+        toast.success(`Exported ${questions.length} question${questions.length === 1 ? '' : 's'}`);
+        setOpen(false);
+      }
+    } catch (error) {
+      printWindow?.close();
+      toast.error(error instanceof Error ? error.message : 'Export failed');
+    }
+    setExporting(null);
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <Button variant="outline" onClick={() => setOpen(o => !o)} className="px-4 py-2 font-semibold">
+        <Download className="w-4 h-4" /> Export
+      </Button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-64 rounded-lg border bg-white shadow-lg z-30 p-3 space-y-3">
+          <div>
+            <div className="text-xs font-semibold uppercase text-gray-500 mb-1">Scope</div>
+            {scopeOptions.map(opt => (
+              <label key={opt.column} className="flex items-center gap-2 py-1 text-sm cursor-pointer">
+                <input
+                  type="radio"
+                  name="export-scope"
+                  checked={scopeColumn === opt.column}
+                  onChange={() => setScopeColumn(opt.column)}
+                  disabled={!!exporting}
+                />
+                {opt.label}
+              </label>
+            ))}
+          </div>
+          <div className="border-t pt-2">
+            <div className="text-xs font-semibold uppercase text-gray-500 mb-1">Format</div>
+            {formatOptions.map(opt => (
+              <button
+                key={opt.value}
+                type="button"
+                className="flex w-full items-center gap-2 px-2 py-2 rounded text-sm hover:bg-gray-100 disabled:opacity-50"
+                onClick={() => handleExport(opt.value)}
+                disabled={!!exporting}
+              >
+                {exporting === opt.value ? <Loader2 className="w-4 h-4 animate-spin" /> : opt.icon}
+                {opt.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuestionExportMenu;
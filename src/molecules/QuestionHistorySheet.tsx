@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '../components/ui/sheet';
+import { Button } from '../components/ui/button';
+import WordDiff from '../atoms/WordDiff';
+import { useAuth } from '../hooks/useAuth';
+import {
+  fetchQuestionVersions,
+  restoreQuestionVersion,
+  VERSIONED_FIELDS,
+  type QuestionVersion,
+} from '../lib/questionVersions';
+
+interface QuestionHistorySheetProps {
+  questionId: string | null;
+  onOpenChange: (open: boolean) => void;
+  // Called after a version has been restored so the page can reload the question
+  onRestored: () => void;
+}
+
+export default function QuestionHistorySheet({ questionId, onOpenChange, onRestored }: QuestionHistorySheetProps) {
+  const { can } = useAuth();
+  const [versions, setVersions] = useState<QuestionVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [restoringId, setRestoringId] = useState<number | null>(null);
+
+  const loadVersions = useCallback(async (id: string) => {
+    setLoading(true);
+    try {
+      setVersions(await fetchQuestionVersions(id));
+    } catch (error) {
+      toast.error('Failed to load history: ' + (error as Error).message);
+      setVersions([]);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (questionId) loadVersions(questionId);
+    else setVersions([]);
+  }, [questionId, loadVersions]);
+
+  const handleRestore = async (version: QuestionVersion) => {
+    setRestoringId(version.id);
+    try {
+      await restoreQuestionVersion(version);
+      toast.success(`Restored version ${version.version}`);
+      onRestored();
+      await loadVersions(version.questionId);
+    } catch (error) {
+      toast.error('Restore failed: ' + (error as Error).message);
+    }
+    setRestoringId(null);
+  };
+
+  return (
+    <Sheet open={!!questionId} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="sm:max-w-xl w-full overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" /> Version History
+          </SheetTitle>
+          <SheetDescription>Each saved edit is kept. Changes are shown against the version before it.</SheetDescription>
+        </SheetHeader>
+        <div className="px-4 pb-4 space-y-4">
+          {loading ? (
+            <div className="flex justify-center py-8 text-gray-400">
+              <Loader2 className="w-6 h-6 animate-spin" />
+            </div>
+          ) : versions.length === 0 ? (
+            <div className="text-center py-8 text-gray-400">No saved versions yet.</div>
+          ) : (
+            versions.map((version, idx) => {
+              const previous = versions[idx + 1];
+              const changed = VERSIONED_FIELDS.filter(({ key }) => (version[key] || '') !== (previous?.[key] || ''));
+              return (
+                <div key={version.id} className="rounded-lg border bg-white p-3 shadow-sm">
+                  <div className="flex items-center justify-between gap-2 mb-2">
+                    <div>
+                      <div className="font-semibold">
+                        Version {version.version}
+                        {idx === 0 && <span className="ml-2 px-2 py-0.5 rounded bg-blue-100 text-blue-700 text-xs">Current</span>}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {new Date(version.created_at).toLocaleString()}
+                        {version.actor_email && ` · ${version.actor_email}`}
+                      </div>
+                    </div>
+                    {idx > 0 && can('content.edit') && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={restoringId !== null}
+                        onClick={() => handleRestore(version)}
+                      >
+                        {restoringId === version.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+                  {!previous ? (
+                    <div className="text-sm text-gray-500">Original version.</div>
+                  ) : changed.length === 0 ? (
+                    <div className="text-sm text-gray-500">No visible changes.</div>
+                  ) : (
+                    <dl className="space-y-2 text-sm">
+                      {changed.map(({ key, label }) => (
+                        <div key={key}>
+                          <dt className="text-xs font-medium text-gray-500">{label}</dt>
+                          <dd><WordDiff before={previous[key] || ''} after={version[key] || ''} /></dd>
+                        </div>
+                      ))}
+                    </dl>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
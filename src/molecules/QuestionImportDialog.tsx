@@ -0,0 +1,177 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import toast from 'react-hot-toast';
+import { CheckCircle2, FileSpreadsheet, Loader2, XCircle } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from '../components/ui/dialog';
+import { Button } from '../components/ui/button';
+import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from '../components/ui/table';
+import type { QuestionForm } from './QuestionDialog';
+import { downloadImportTemplate, parseQuestionFile, type ImportRow } from '../lib/questionImport';
+
+type QuestionImportDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (values: QuestionForm[]) => Promise<void>;
+  loading?: boolean;
+  languageCode: 'en' | 'hi';
+};
+
+const QuestionImportDialog: React.FC<QuestionImportDialogProps> = ({
+  open,
+  onOpenChange,
+  onImport,
+  loading = false,
+  languageCode,
+}) => {
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [parsing, setParsing] = useState(false);
+  const [parseError, setParseError] = useState('');
+
+  // Start from a clean slate every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setFileName('');
+      setRows([]);
+      setParseError('');
+    }
+  }, [open]);
+
+  const validValues = useMemo(
+    () => rows.flatMap(r => (r.values ? [r.values] : [])),
+    [rows]
+  );
+  const invalidCount = rows.length - validValues.length;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setFileName(file.name);
+    setRows([]);
+    setParseError('');
+    setParsing(true);
+    try {
+      const parsed = await parseQuestionFile(file, languageCode);
+      if (parsed.length === 0) {
+        setParseError('No question rows found in the file');
+      }
+      setRows(parsed);
+    } catch (error) {
+      setParseError(error instanceof Error ? error.message : 'Failed to read the file');
+    }
+    setParsing(false);
+  };
+
+  const handleImport = async () => {
+    if (validValues.length === 0) {
+      toast.error('There are no valid rows to import');
+      return;
+    }
+    await onImport(validValues);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg lg:max-w-3xl xl:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Import Questions</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or Excel (.xlsx) file with the columns questionText, optionA–optionD, correctAnswer, noteText and previouslyAskedIn.
+            Only rows that pass validation will be imported.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="inline-flex items-center gap-2 px-4 py-2 border-2 border-dashed rounded-lg cursor-pointer hover:bg-gray-50">
+            <FileSpreadsheet className="w-5 h-5 text-green-600" />
+            <span className="font-medium">{fileName || 'Choose file…'}</span>
+            <input
+              type="file"
+              accept=".csv,.xlsx"
+              className="hidden"
+              onChange={handleFileChange}
+              disabled={parsing || loading}
+            />
+          </label>
+          <Button type="button" variant="link" onClick={downloadImportTemplate}>
+            Download template
+          </Button>
+        </div>
+        {parseError && <p className="text-red-500 text-sm">{parseError}</p>}
+        {parsing && (
+          <div className="flex items-center justify-center py-6 text-gray-400">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        )}
+        {rows.length > 0 && (
+          <>
+            <div className="flex gap-4 text-sm">
+              <span className="text-green-700 font-semibold">{validValues.length} valid</span>
+              <span className="text-red-600 font-semibold">{invalidCount} with errors</span>
+            </div>
+            <div className="max-h-[45vh] overflow-y-auto rounded border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Question</TableHead>
+                    <TableHead>Answer</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(row => (
+                    <TableRow key={row.rowNumber} className={row.values ? '' : 'bg-red-50'}>
+                      <TableCell className="font-semibold text-gray-600">{row.rowNumber}</TableCell>
+                      <TableCell>
+                        <div className="max-w-[320px] overflow-hidden text-ellipsis whitespace-nowrap">
+                          {row.questionText || <span className="text-gray-400">—</span>}
+                        </div>
+                      </TableCell>
+                      <TableCell>{row.correctAnswer || '-'}</TableCell>
+                      <TableCell>
+                        {row.values ? (
+                          <span className="inline-flex items-center gap-1 text-green-700">
+                            <CheckCircle2 className="w-4 h-4" /> Valid
+                          </span>
+                        ) : (
+                          <div className="flex flex-col gap-1 whitespace-normal">
+                            {row.errors.map(err => (
+                              <span key={err} className="inline-flex items-center gap-1 text-red-600 text-xs">
+                                <XCircle className="w-3 h-3 shrink-0" /> {err}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button type="button" variant="secondary" disabled={loading}>
+              Cancel
+            </Button>
+          </DialogClose>
+          <Button type="button" onClick={handleImport} disabled={loading || parsing || validValues.length === 0}>
+            {loading && <Loader2 className="w-4 h-4 animate-spin" />}
+            {loading ? 'Importing...' : `Import ${validValues.length} question${validValues.length === 1 ? '' : 's'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default QuestionImportDialog;
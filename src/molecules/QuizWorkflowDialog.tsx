@@ -0,0 +1,272 @@
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { ArrowRight, CalendarClock, Loader2, MessageSquare } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '../components/ui/dialog';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Textarea } from '../components/ui/textarea';
+import { useAuth } from '../hooks/useAuth';
+import type { Quiz } from '../QuizzesPage';
+import {
+  addReviewComment,
+  allowedTransitions,
+  assignReviewer,
+  fetchDashboardAdmins,
+  fetchReviewComments,
+  transitionQuiz,
+  updateQuizSchedule,
+  WORKFLOW_LABELS,
+  WORKFLOW_STYLES,
+  type DashboardAdmin,
+  type ReviewComment,
+  type WorkflowTransition,
+} from '../lib/quizWorkflow';
+import { fromDateTimeLocal, toDateTimeLocal, validateSchedule } from '../lib/schedule';
+
+interface QuizWorkflowDialogProps {
+  quiz: Quiz | null;
+  onOpenChange: (open: boolean) => void;
+  // Called after the quiz's state or reviewer changed so the list can refresh
+  onChanged: () => void;
+}
+
+export default function QuizWorkflowDialog({ quiz, onOpenChange, onChanged }: QuizWorkflowDialogProps) {
+  const { can } = useAuth();
+  const [comments, setComments] = useState<ReviewComment[]>([]);
+  const [reviewers, setReviewers] = useState<DashboardAdmin[]>([]);
+  const [comment, setComment] = useState('');
+  const [publishAt, setPublishAt] = useState('');
+  const [expireAt, setExpireAt] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const quizId = quiz?.internalQuizKey;
+  const savedPublishAt = quiz?.publishAt;
+  const savedExpireAt = quiz?.expireAt;
+
+  useEffect(() => {
+    setPublishAt(toDateTimeLocal(savedPublishAt));
+    setExpireAt(toDateTimeLocal(savedExpireAt));
+  }, [quizId, savedPublishAt, savedExpireAt]);
+
+  useEffect(() => {
+    if (!quizId) return;
+    setComment('');
+    setLoading(true);
+    Promise.all([fetchReviewComments(quizId), fetchDashboardAdmins()])
+      .then(([loadedComments, admins]) => {
+        setComments(loadedComments);
+        setReviewers(admins.filter(a => a.role === 'reviewer' || a.role === 'super-admin'));
+      })
+      .catch(error => toast.error('Failed to load workflow: ' + error.message))
+      .finally(() => setLoading(false));
+  }, [quizId]);
+
+  if (!quiz) return null;
+
+  const state = quiz.workflowState;
+  const transitions = allowedTransitions(state, can);
+  // Go-live times only make sense before the quiz is live; expiry also applies once it is
+  const canSchedule = can('quiz.publish') && (state === 'approved' || state === 'scheduled' || state === 'live');
+
+  const handleTransition = async (transition: WorkflowTransition) => {
+    if (transition.requiresComment && !comment.trim()) {
+      toast.error('Add a comment explaining what needs to change');
+      return;
+    }
+    // Quizzes publishing straight away keep their expiry but ignore the go-live field
+    const problem = validateSchedule(transition.requiresSchedule ? publishAt : undefined, expireAt, 0);
+    if (problem) {
+      toast.error(problem.message);
+      return;
+    }
+    setSaving(true);
+    try {
+      await transitionQuiz(quiz.internalQuizKey, transition, comment, {
+        publishAt: fromDateTimeLocal(publishAt),
+        expireAt: fromDateTimeLocal(expireAt),
+      });
+      toast.success(`Quiz moved to ${WORKFLOW_LABELS[transition.to]}`);
+      onChanged();
+      onOpenChange(false);
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+    setSaving(false);
+  };
+
+  const handleSaveSchedule = async () => {
+    const problem = validateSchedule(state === 'scheduled' ? publishAt : undefined, expireAt, 0);
+    if (problem) {
+      toast.error(problem.message);
+      return;
+    }
+    if (state === 'scheduled' && !publishAt) {
+      toast.error('Pick a go-live time, or unschedule the quiz');
+      return;
+    }
+    setSaving(true);
+    try {
+      await updateQuizSchedule(quiz.internalQuizKey, {
+        ...(state === 'scheduled' ? { publishAt: fromDateTimeLocal(publishAt) } : {}),
+        expireAt: fromDateTimeLocal(expireAt),
+      });
+      toast.success('Schedule saved');
+      onChanged();
+    } catch (error) {
+      toast.error('Failed to save schedule: ' + (error as Error).message);
+    }
+    setSaving(false);
+  };
+
+  const handleComment = async () => {
+    setSaving(true);
+    try {
+      await addReviewComment(quiz.internalQuizKey, comment);
+      setComment('');
+      setComments(await fetchReviewComments(quiz.internalQuizKey));
+    } catch (error) {
+      toast.error('Failed to add comment: ' + (error as Error).message);
+    }
+    setSaving(false);
+  };
+
+  const handleReviewerChange = async (reviewerId: string) => {
+    setSaving(true);
+    try {
+      await assignReviewer(quiz.internalQuizKey, reviewerId || null);
+      toast.success(reviewerId ? 'Reviewer assigned' : 'Reviewer removed');
+      onChanged();
+    } catch (error) {
+      toast.error('Failed to assign reviewer: ' + (error as Error).message);
+    }
+    setSaving(false);
+  };
+
+  return (
+    <Dialog open={!!quiz} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Workflow: {quiz.quizTitle}</DialogTitle>
+          <DialogDescription className="flex items-center gap-2">
+            Current state
+            <span className={`px-2 py-1 rounded text-xs font-semibold ${WORKFLOW_STYLES[state]}`}>{WORKFLOW_LABELS[state]}</span>
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 max-h-[70vh] overflow-y-auto pr-1">
+          <div>
+            <label className="block mb-1 font-medium text-gray-700">Reviewer</label>
+            <select
+              className="w-full border rounded-md px-3 py-2 bg-white"
+              value={quiz.reviewerId || ''}
+              onChange={e => handleReviewerChange(e.target.value)}
+              disabled={saving || loading || !can('content.edit')}
+            >
+              <option value="">Unassigned</option>
+              {reviewers.map(r => (
+                <option key={r.id} value={r.id}>{r.email}</option>
+              ))}
+            </select>
+          </div>
+
+          {canSchedule && (
+            <div className="rounded-md border bg-purple-50/50 p-3">
+              <div className="flex items-center gap-2 mb-2 font-medium text-gray-700">
+                <CalendarClock className="w-4 h-4" /> Schedule
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                {state !== 'live' && (
+                  <div>
+                    <label className="block mb-1 text-sm text-gray-600">Go live at</label>
+                    <Input type="datetime-local" value={publishAt} onChange={e => setPublishAt(e.target.value)} disabled={saving} />
+                  </div>
+                )}
+                <div>
+                  <label className="block mb-1 text-sm text-gray-600">Expire at (optional)</label>
+                  <Input type="datetime-local" value={expireAt} onChange={e => setExpireAt(e.target.value)} disabled={saving} />
+                </div>
+              </div>
+              <div className="flex items-center justify-between gap-2 mt-2">
+                <p className="text-xs text-gray-500">
+                  {state === 'approved'
+                    ? 'Pick a go-live time, then use Schedule below.'
+                    : 'Scheduled changes are applied by the publishing job.'}
+                </p>
+                {state !== 'approved' && (
+                  <Button size="sm" variant="outline" disabled={saving} onClick={handleSaveSchedule}>
+                    Save schedule
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label className="block mb-1 font-medium text-gray-700">Comment</label>
+            <Textarea
+              value={comment}
+              onChange={e => setComment(e.target.value)}
+              placeholder="Notes for the editor or reviewer (required when requesting changes)"
+              rows={3}
+              disabled={saving || !can('content.edit')}
+            />
+            <div className="flex flex-wrap gap-2 mt-2">
+              {transitions.map(t => (
+                <Button
+                  key={t.to}
+                  size="sm"
+                  variant={t.to === 'changes_requested' ? 'destructive' : 'default'}
+                  disabled={saving}
+                  onClick={() => handleTransition(t)}
+                >
+                  {t.label} <ArrowRight className="w-4 h-4" />
+                </Button>
+              ))}
+              <Button size="sm" variant="outline" disabled={saving || !comment.trim() || !can('content.edit')} onClick={handleComment}>
+                <MessageSquare className="w-4 h-4" /> Comment only
+              </Button>
+            </div>
+            {transitions.length === 0 && (
+              <p className="text-xs text-gray-500 mt-2">Your role cannot move this quiz out of {WORKFLOW_LABELS[state]}.</p>
+            )}
+          </div>
+
+          <div>
+            <div className="font-medium text-gray-700 mb-2">History</div>
+            {loading ? (
+              <div className="flex justify-center py-4 text-gray-400">
+                <Loader2 className="w-5 h-5 animate-spin" />
+              </div>
+            ) : comments.length === 0 ? (
+              <div className="text-sm text-gray-400">No comments yet.</div>
+            ) : (
+              <ul className="space-y-2">
+                {comments.map(c => (
+                  <li key={c.id} className="rounded-md border bg-gray-50 p-2 text-sm">
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500 mb-1">
+                      <span className="font-medium text-gray-700">{c.author_email || 'Unknown'}</span>
+                      <span>{new Date(c.created_at).toLocaleString()}</span>
+                      {c.from_state && c.to_state && (
+                        <span>
+                          {WORKFLOW_LABELS[c.from_state]} → {WORKFLOW_LABELS[c.to_state]}
+                        </span>
+                      )}
+                    </div>
+                    {c.body && <div className="whitespace-pre-wrap">{c.body}</div>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { CheckCircle2, Loader2, RefreshCw } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from '../components/ui/dialog';
+import { Button } from '../components/ui/button';
+import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from '../components/ui/table';
+import { findCounterDrift, fixCounterDrift, type CounterDrift } from '../lib/hierarchyCounters';
+
+type RecalculateCountersDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onFixed?: () => void;
+};
+
+const LEVEL_LABELS: Record<CounterDrift['level'], string> = {
+  book: 'Exam Book',
+  section: 'Section',
+  category: 'Category',
+  quiz: 'Quiz',
+};
+
+const COUNTER_LABELS: Record<CounterDrift['counter'], string> = {
+  questionVolume: 'Questions',
+  setCount: 'Sets',
+  total_category_hi: 'Categories (HI)',
+  total_category_en: 'Categories (EN)',
+};
+
+const RecalculateCountersDialog: React.FC<RecalculateCountersDialogProps> = ({ open, onOpenChange, onFixed }) => {
+  const [drift, setDrift] = useState<CounterDrift[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [fixing, setFixing] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setDrift(null);
+    setLoading(true);
+    findCounterDrift()
+      .then(rows => {
+        if (!cancelled) setDrift(rows);
+      })
+      .catch(error => toast.error('Failed to check counters: ' + (error as Error).message))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  const handleFix = async () => {
+    setFixing(true);
+    try {
+      const fixed = await fixCounterDrift();
+      toast.success(`Fixed ${fixed.length} counter${fixed.length === 1 ? '' : 's'}`);
+      onOpenChange(false);
+      onFixed?.();
+    } catch (error) {
+      toast.error('Recalculation failed: ' + (error as Error).message);
+    }
+    setFixing(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={fixing ? undefined : onOpenChange}>
+      <DialogContent className="sm:max-w-2xl" showCloseButton={!fixing}>
+        <DialogHeader>
+          <DialogTitle>Recalculate Counters</DialogTitle>
+          <DialogDescription>
+            Question volumes, set counts and category totals are kept up to date automatically. This
+            compares them with the actual content and lists any that are out of date.
+          </DialogDescription>
+        </DialogHeader>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+          </div>
+        ) : drift && drift.length === 0 ? (
+          <div className="flex items-center gap-2 py-4 text-green-700">
+            <CheckCircle2 className="w-5 h-5" /> All counters are correct.
+          </div>
+        ) : drift && (
+          <div className="max-h-80 overflow-y-auto rounded border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Counter</TableHead>
+                  <TableHead>Stored</TableHead>
+                  <TableHead>Actual</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {drift.map(row => (
+                  <TableRow key={`${row.level}:${row.key}:${row.counter}`}>
+                    <TableCell className="max-w-xs truncate" title={row.title || row.key}>
+                      <span className="text-xs text-gray-500 mr-1">{LEVEL_LABELS[row.level]}</span>
+                      {row.title || row.key}
+                    </TableCell>
+                    <TableCell>{COUNTER_LABELS[row.counter]}</TableCell>
+                    <TableCell className="text-red-600">{row.stored ?? '-'}</TableCell>
+                    <TableCell className="font-semibold">{row.actual}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button type="button" variant="outline" disabled={fixing}>Close</Button>
+          </DialogClose>
+          <Button type="button" onClick={handleFix} disabled={!drift?.length || fixing}>
+            {fixing ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            Fix {drift?.length || ''} counter{drift?.length === 1 ? '' : 's'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecalculateCountersDialog;
@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Machine-translation provider for translation drafts, e.g. 'libretranslate'. Defaults to the
+  // first configured one; with none, production builds disable Translate. 'stub' (offline, no
+  // real translation) is only available in development.
+  readonly VITE_TRANSLATION_PROVIDER?: string;
+  readonly VITE_LIBRETRANSLATE_URL?: string;
+  readonly VITE_LIBRETRANSLATE_API_KEY?: string;
+}
@@ -0,0 +1,27 @@
+-- Full-text search over MCQ questions and GK one-liners for the global search page.
+-- The 'simple' configuration is used because content is a mix of English and Hindi,
+-- and the language-specific stemmers would mangle Devanagari text.
+
+alter table public.questions
+  add column if not exists search_vector tsvector
+  generated always as (
+    to_tsvector(
+      'simple',
+      coalesce("questionText", '') || ' ' ||
+      coalesce("optionA", '') || ' ' ||
+      coalesce("optionB", '') || ' ' ||
+      coalesce("optionC", '') || ' ' ||
+      coalesce("optionD", '') || ' ' ||
+      coalesce("noteText", '')
+    )
+  ) stored;
+
+create index if not exists questions_search_vector_idx
+  on public.questions using gin (search_vector);
+
+alter table public.gk_oneliner_questions
+  add column if not exists search_vector tsvector
+  generated always as (to_tsvector('simple', coalesce(question, ''))) stored;
+
+create index if not exists gk_oneliner_questions_search_vector_idx
+  on public.gk_oneliner_questions using gin (search_vector);
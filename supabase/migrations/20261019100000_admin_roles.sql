@@ -0,0 +1,34 @@
+-- Dashboard roles (viewer, editor, reviewer, super-admin) stored in auth.users.raw_app_meta_data,
+-- which only the service role can change. Grant a role with:
+--   update auth.users
+--     set raw_app_meta_data = raw_app_meta_data || '{"role": "super-admin"}'
+--     where email = 'someone@example.com';
+
+-- Existing admins keep the access they had before roles existed. This runs once: the dashboard no
+-- longer reads user_metadata.is_admin, which users can edit themselves.
+update auth.users
+  set raw_app_meta_data = coalesce(raw_app_meta_data, '{}'::jsonb) || '{"role": "editor"}'::jsonb
+  where raw_user_meta_data ->> 'is_admin' = 'true'
+    and not coalesce(raw_app_meta_data, '{}'::jsonb) ? 'role';
+
+-- Role of the calling user, taken from their JWT
+create or replace function public.admin_role()
+returns text
+language sql
+stable
+as $$
+  select auth.jwt() -> 'app_metadata' ->> 'role';
+$$;
+
+-- True when the caller's role is at least `min_role` in the viewer < editor < reviewer < super-admin order
+create or replace function public.has_admin_role(min_role text)
+returns boolean
+language sql
+stable
+as $$
+  select coalesce(
+    array_position(array['viewer', 'editor', 'reviewer', 'super-admin'], public.admin_role())
+      >= array_position(array['viewer', 'editor', 'reviewer', 'super-admin'], min_role),
+    false
+  );
+$$;
@@ -0,0 +1,116 @@
+-- Audit trail of every insert, update and delete on the content tables. Rows are written by
+-- triggers, so changes are captured no matter which page (or RPC) makes them, and the actor
+-- is taken from the caller's JWT rather than trusted from the client.
+
+create table if not exists public.audit_log (
+  id bigint generated always as identity primary key,
+  created_at timestamptz not null default now(),
+  actor_id uuid default auth.uid(),
+  actor_email text default (auth.jwt() ->> 'email'),
+  table_name text not null,
+  row_key text not null,
+  action text not null check (action in ('insert', 'update', 'delete')),
+  -- {"column": {"old": ..., "new": ...}} for every column that changed
+  changes jsonb not null default '{}'::jsonb
+);
+
+create index if not exists audit_log_created_at_idx on public.audit_log (created_at desc);
+create index if not exists audit_log_table_row_idx on public.audit_log (table_name, row_key);
+create index if not exists audit_log_actor_email_idx on public.audit_log (actor_email);
+
+alter table public.audit_log enable row level security;
+
+drop policy if exists "Reviewers can read the audit log" on public.audit_log;
+create policy "Reviewers can read the audit log"
+  on public.audit_log for select
+  using (public.has_admin_role('reviewer'));
+
+-- tg_argv[0] is the column that identifies a row of the audited table
+create or replace function public.audit_row_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  key_column text := tg_argv[0];
+  old_row jsonb;
+  new_row jsonb;
+  diff jsonb := '{}'::jsonb;
+  col text;
+begin
+  if tg_op <> 'INSERT' then
+    old_row := to_jsonb(old) - 'search_vector';
+  end if;
+  if tg_op <> 'DELETE' then
+    new_row := to_jsonb(new) - 'search_vector';
+  end if;
+
+  for col in select jsonb_object_keys(coalesce(new_row, old_row)) loop
+    if old_row -> col is distinct from new_row -> col then
+      diff := diff || jsonb_build_object(col, jsonb_build_object('old', old_row -> col, 'new', new_row -> col));
+    end if;
+  end loop;
+
+  -- Saving a form without changing anything is not worth a log entry
+  if tg_op = 'UPDATE' and diff = '{}'::jsonb then
+    return null;
+  end if;
+
+  insert into public.audit_log (table_name, row_key, action, changes)
+  values (tg_table_name, coalesce(new_row, old_row) ->> key_column, lower(tg_op), diff);
+  return null;
+end;
+$$;
+
+drop trigger if exists audit_exam_book on public.exam_book;
+create trigger audit_exam_book
+  after insert or update or delete on public.exam_book
+  for each row execute function public.audit_row_change('id');
+
+drop trigger if exists audit_quiz_sections on public.quiz_sections;
+create trigger audit_quiz_sections
+  after insert or update or delete on public.quiz_sections
+  for each row execute function public.audit_row_change('id');
+
+drop trigger if exists audit_quiz_categories on public.quiz_categories;
+create trigger audit_quiz_categories
+  after insert or update or delete on public.quiz_categories
+  for each row execute function public.audit_row_change('id');
+
+drop trigger if exists audit_quizzes on public.quizzes;
+create trigger audit_quizzes
+  after insert or update or delete on public.quizzes
+  for each row execute function public.audit_row_change('internalQuizKey');
+
+drop trigger if exists audit_questions on public.questions;
+create trigger audit_questions
+  after insert or update or delete on public.questions
+  for each row execute function public.audit_row_change('questionId');
+
+drop trigger if exists audit_gk_subjects on public.gk_subjects;
+create trigger audit_gk_subjects
+  after insert or update or delete on public.gk_subjects
+  for each row execute function public.audit_row_change('id');
+
+drop trigger if exists audit_gk_topics on public.gk_topics;
+create trigger audit_gk_topics
+  after insert or update or delete on public.gk_topics
+  for each row execute function public.audit_row_change('id');
+
+drop trigger if exists audit_gk_oneliner_questions on public.gk_oneliner_questions;
+create trigger audit_gk_oneliner_questions
+  after insert or update or delete on public.gk_oneliner_questions
+  for each row execute function public.audit_row_change('id');
+
+-- Not content, but changed from the dashboard too: report resolution and account deletion.
+-- Players create reports and maintain their own profiles, so only the dashboard's side is logged.
+drop trigger if exists audit_question_reports on public.question_reports;
+create trigger audit_question_reports
+  after update or delete on public.question_reports
+  for each row execute function public.audit_row_change('questionId');
+
+drop trigger if exists audit_profiles on public.profiles;
+create trigger audit_profiles
+  after delete on public.profiles
+  for each row execute function public.audit_row_change('id');
@@ -0,0 +1,77 @@
+-- Every saved revision of a question. A trigger snapshots the editable fields whenever a
+-- question is inserted or its content changes, so restoring an old version (which is just
+-- another update) also shows up as a new revision.
+
+create table if not exists public.question_versions (
+  id bigint generated always as identity primary key,
+  "questionId" text not null,
+  version integer not null,
+  "questionType" smallint,
+  "questionText" text,
+  "correctAnswer" text,
+  "optionA" text,
+  "optionB" text,
+  "optionC" text,
+  "optionD" text,
+  "noteText" text,
+  "previouslyAskedIn" text,
+  "languageCode" text,
+  created_at timestamptz not null default now(),
+  actor_id uuid default auth.uid(),
+  actor_email text default (auth.jwt() ->> 'email'),
+  unique ("questionId", version)
+);
+
+alter table public.question_versions enable row level security;
+
+drop policy if exists "Admins can read question versions" on public.question_versions;
+create policy "Admins can read question versions"
+  on public.question_versions for select
+  using (public.has_admin_role('viewer'));
+
+create or replace function public.record_question_version()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' and (
+    old."questionType", old."questionText", old."correctAnswer", old."optionA", old."optionB",
+    old."optionC", old."optionD", old."noteText", old."previouslyAskedIn", old."languageCode"
+  ) is not distinct from (
+    new."questionType", new."questionText", new."correctAnswer", new."optionA", new."optionB",
+    new."optionC", new."optionD", new."noteText", new."previouslyAskedIn", new."languageCode"
+  ) then
+    return null;
+  end if;
+
+  insert into public.question_versions (
+    "questionId", version, "questionType", "questionText", "correctAnswer", "optionA", "optionB",
+    "optionC", "optionD", "noteText", "previouslyAskedIn", "languageCode"
+  )
+  values (
+    new."questionId",
+    coalesce((select max(version) from public.question_versions where "questionId" = new."questionId"), 0) + 1,
+    new."questionType", new."questionText", new."correctAnswer", new."optionA", new."optionB",
+    new."optionC", new."optionD", new."noteText", new."previouslyAskedIn", new."languageCode"
+  );
+  return null;
+end;
+$$;
+
+drop trigger if exists record_question_version on public.questions;
+create trigger record_question_version
+  after insert or update on public.questions
+  for each row execute function public.record_question_version();
+
+-- Existing questions start their history at version 1, dated when they were created
+insert into public.question_versions (
+  "questionId", version, "questionType", "questionText", "correctAnswer", "optionA", "optionB",
+  "optionC", "optionD", "noteText", "previouslyAskedIn", "languageCode", created_at, actor_id, actor_email
+)
+select
+  q."questionId", 1, q."questionType", q."questionText", q."correctAnswer", q."optionA", q."optionB",
+  q."optionC", q."optionD", q."noteText", q."previouslyAskedIn", q."languageCode", coalesce(q.created_at, now()), null, null
+from public.questions q
+where not exists (select 1 from public.question_versions v where v."questionId" = q."questionId");
@@ -0,0 +1,71 @@
+-- Editorial workflow for quizzes. "workflowState" is the source of truth; the player app still
+-- reads "quizStatus", so a trigger keeps it at 1 exactly when the quiz is live.
+
+alter table public.quizzes
+  add column if not exists "workflowState" text not null default 'draft'
+    check ("workflowState" in ('draft', 'in_review', 'changes_requested', 'approved', 'scheduled', 'live', 'archived')),
+  add column if not exists "reviewerId" uuid;
+
+update public.quizzes
+  set "workflowState" = case when "quizStatus" = 1 then 'live' else 'draft' end;
+
+create or replace function public.sync_quiz_status()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' or new."workflowState" is distinct from old."workflowState" then
+    new."quizStatus" := case when new."workflowState" = 'live' then 1 else 0 end;
+  elsif new."quizStatus" is distinct from old."quizStatus" then
+    -- Older clients that still flip quizStatus directly
+    new."workflowState" := case when new."quizStatus" = 1 then 'live' else 'draft' end;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists sync_quiz_status on public.quizzes;
+create trigger sync_quiz_status
+  before insert or update on public.quizzes
+  for each row execute function public.sync_quiz_status();
+
+-- Review discussion on a quiz; transition comments record the states they moved between
+create table if not exists public.quiz_review_comments (
+  id bigint generated always as identity primary key,
+  "quizId" text not null,
+  body text not null,
+  from_state text,
+  to_state text,
+  created_at timestamptz not null default now(),
+  author_id uuid default auth.uid(),
+  author_email text default (auth.jwt() ->> 'email')
+);
+
+create index if not exists quiz_review_comments_quiz_idx on public.quiz_review_comments ("quizId", created_at);
+
+alter table public.quiz_review_comments enable row level security;
+
+drop policy if exists "Admins can read review comments" on public.quiz_review_comments;
+create policy "Admins can read review comments"
+  on public.quiz_review_comments for select
+  using (public.has_admin_role('viewer'));
+
+drop policy if exists "Editors can add review comments" on public.quiz_review_comments;
+create policy "Editors can add review comments"
+  on public.quiz_review_comments for insert
+  with check (public.has_admin_role('editor'));
+
+-- Dashboard accounts, for picking a reviewer. auth.users is not readable from the client.
+create or replace function public.list_dashboard_admins()
+returns table (id uuid, email text, role text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select u.id, u.email::text, u.raw_app_meta_data ->> 'role'
+  from auth.users u
+  where public.has_admin_role('viewer')
+    and u.raw_app_meta_data ->> 'role' in ('viewer', 'editor', 'reviewer', 'super-admin')
+  order by u.email;
+$$;
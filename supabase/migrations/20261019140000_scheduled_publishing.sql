@@ -0,0 +1,91 @@
+-- Scheduled go-live and expiry for sections, categories and quizzes.
+-- "publishAt" / "expireAt" hold the planned times; run_scheduled_publishing() applies every
+-- schedule that is due. Call it from the local runner (npm run scheduler) or, on a hosted
+-- project with pg_cron enabled:
+--   select cron.schedule('scheduled-publishing', '* * * * *', 'select public.run_scheduled_publishing()');
+
+alter table public.quiz_sections
+  add column if not exists "publishAt" timestamptz,
+  add column if not exists "expireAt" timestamptz;
+
+alter table public.quiz_categories
+  add column if not exists "publishAt" timestamptz,
+  add column if not exists "expireAt" timestamptz;
+
+alter table public.quizzes
+  add column if not exists "publishAt" timestamptz,
+  add column if not exists "expireAt" timestamptz;
+
+create index if not exists quiz_sections_schedule_idx on public.quiz_sections ("publishAt", "expireAt");
+create index if not exists quiz_categories_schedule_idx on public.quiz_categories ("publishAt", "expireAt");
+create index if not exists quizzes_schedule_idx on public.quizzes ("publishAt", "expireAt");
+
+-- Applies due schedules and returns what changed. Publishing clears "publishAt" so a later
+-- manual unpublish is not undone; expiry clears "expireAt" for the same reason.
+create or replace function public.run_scheduled_publishing()
+returns table (kind text, key text, action text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  return query
+  with published as (
+    update public.quiz_sections
+      set "sectionStatus" = 1, "liveTimestamp" = now(), "publishAt" = null
+      where "publishAt" <= now() and "sectionStatus" = 0
+      returning id::text as row_key
+  )
+  select 'section'::text, row_key, 'published'::text from published;
+
+  return query
+  with expired as (
+    update public.quiz_sections
+      set "sectionStatus" = 0, "expireAt" = null
+      where "expireAt" <= now() and "sectionStatus" = 1
+      returning id::text as row_key
+  )
+  select 'section'::text, row_key, 'expired'::text from expired;
+
+  return query
+  with published as (
+    update public.quiz_categories
+      set "categoryStatus" = 1, "publishAt" = null
+      where "publishAt" <= now() and "categoryStatus" = 0
+      returning id::text as row_key
+  )
+  select 'category'::text, row_key, 'published'::text from published;
+
+  return query
+  with expired as (
+    update public.quiz_categories
+      set "categoryStatus" = 0, "expireAt" = null
+      where "expireAt" <= now() and "categoryStatus" = 1
+      returning id::text as row_key
+  )
+  select 'category'::text, row_key, 'expired'::text from expired;
+
+  -- Quizzes follow the review workflow: only approved quizzes that were scheduled go live,
+  -- and expired quizzes are archived. The quizStatus sync trigger flips quizStatus.
+  return query
+  with published as (
+    update public.quizzes
+      set "workflowState" = 'live', "publishAt" = null
+      where "publishAt" <= now() and "workflowState" = 'scheduled'
+      returning "internalQuizKey" as row_key
+  )
+  select 'quiz'::text, row_key, 'published'::text from published;
+
+  return query
+  with expired as (
+    update public.quizzes
+      set "workflowState" = 'archived', "expireAt" = null
+      where "expireAt" <= now() and "workflowState" = 'live'
+      returning "internalQuizKey" as row_key
+  )
+  select 'quiz'::text, row_key, 'expired'::text from expired;
+end;
+$$;
+
+revoke execute on function public.run_scheduled_publishing() from public, anon, authenticated;
+grant execute on function public.run_scheduled_publishing() to service_role;
@@ -0,0 +1,18 @@
+-- Links content to its translation. Rows sharing a "translationGroupId" are the same item in
+-- different languages; every row starts in a group of its own, so an item whose group has no
+-- row in the other language is untranslated. Adding the column with a volatile default fills
+-- existing rows without firing the audit and version triggers.
+
+alter table public.quiz_sections
+  add column if not exists "translationGroupId" uuid not null default gen_random_uuid();
+alter table public.quiz_categories
+  add column if not exists "translationGroupId" uuid not null default gen_random_uuid();
+alter table public.quizzes
+  add column if not exists "translationGroupId" uuid not null default gen_random_uuid();
+alter table public.questions
+  add column if not exists "translationGroupId" uuid not null default gen_random_uuid();
+
+create index if not exists quiz_sections_translation_idx on public.quiz_sections ("translationGroupId");
+create index if not exists quiz_categories_translation_idx on public.quiz_categories ("translationGroupId");
+create index if not exists quizzes_translation_idx on public.quizzes ("translationGroupId");
+create index if not exists questions_translation_idx on public.questions ("translationGroupId");
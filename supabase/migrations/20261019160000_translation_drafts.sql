@@ -0,0 +1,75 @@
+-- Machine-translated question drafts waiting for a human. Nothing here is visible to players:
+-- approving a draft copies it into public.questions, rejecting it only closes the draft.
+
+create table if not exists public.translation_drafts (
+  id bigint generated always as identity primary key,
+  created_at timestamptz not null default now(),
+  "sourceQuestionId" text not null,
+  "quizId" text not null,
+  "segmentCode" text,
+  "bookRef" text,
+  "translationGroupId" uuid not null,
+  "languageCode" text not null,
+  "questionType" smallint not null,
+  "correctAnswer" text not null,
+  "questionText" text not null,
+  "optionA" text,
+  "optionB" text,
+  "optionC" text,
+  "optionD" text,
+  "noteText" text,
+  "previouslyAskedIn" text,
+  machine_translated boolean not null default true,
+  provider text,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected')),
+  created_by uuid default auth.uid(),
+  created_email text default (auth.jwt() ->> 'email'),
+  reviewed_at timestamptz,
+  reviewed_by uuid,
+  reviewed_email text,
+  -- Set once approved
+  "questionId" text
+);
+
+-- One open draft per source question and language
+create unique index if not exists translation_drafts_pending_idx
+  on public.translation_drafts ("sourceQuestionId", "languageCode")
+  where status = 'pending';
+create index if not exists translation_drafts_quiz_idx on public.translation_drafts ("quizId", status);
+
+alter table public.translation_drafts enable row level security;
+
+drop policy if exists "Admins can read translation drafts" on public.translation_drafts;
+create policy "Admins can read translation drafts"
+  on public.translation_drafts for select
+  using (public.has_admin_role('viewer'));
+
+drop policy if exists "Editors can create translation drafts" on public.translation_drafts;
+create policy "Editors can create translation drafts"
+  on public.translation_drafts for insert
+  with check (public.has_admin_role('editor'));
+
+drop policy if exists "Editors can update translation drafts" on public.translation_drafts;
+create policy "Editors can update translation drafts"
+  on public.translation_drafts for update
+  using (public.has_admin_role('editor'));
+
+-- Stamps who closed a draft and when
+create or replace function public.stamp_translation_review()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status is distinct from old.status and new.status <> 'pending' then
+    new.reviewed_at := now();
+    new.reviewed_by := auth.uid();
+    new.reviewed_email := auth.jwt() ->> 'email';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists stamp_translation_review on public.translation_drafts;
+create trigger stamp_translation_review
+  before update on public.translation_drafts
+  for each row execute function public.stamp_translation_review();
@@ -0,0 +1,133 @@
+-- Moving a quiz to another category, a category to another section or a section to another book.
+-- Children keep denormalized copies of their ancestors (segmentTitle, moduleTitle, and
+-- segmentCode/bookRef on questions and translation drafts), so a move rewrites them in the same
+-- transaction. The moved item goes to the end of its new parent and the siblings it left are
+-- renumbered 1..n, matching the drag-and-drop ordering on the list pages.
+--
+-- Runs with the caller's rights, so row level security and the audit triggers apply as for any
+-- other edit. Returns the number of questions that were updated.
+
+create or replace function public.move_hierarchy_item(p_level text, p_key text, p_target text)
+returns integer
+language plpgsql
+as $$
+declare
+  v_old_parent text;
+  v_book text;
+  v_title text;
+  v_language text;
+  v_target_language text;
+  v_questions integer := 0;
+begin
+  if p_level = 'quiz' then
+    select "segmentCode", "languageCode" into v_old_parent, v_language
+      from public.quizzes where "internalQuizKey" = p_key;
+    if not found then raise exception 'Quiz not found'; end if;
+    select c."segmentTitle", c."languageCode", s."bookRef" into v_title, v_target_language, v_book
+      from public.quiz_categories c
+      left join public.quiz_sections s on s."moduleCode" = c."moduleCode"
+      where c."segmentCode" = p_target;
+    if not found then raise exception 'Target category not found'; end if;
+    if v_target_language is distinct from v_language then
+      raise exception 'A quiz can only move to a category in the same language';
+    end if;
+    if v_old_parent = p_target then return 0; end if;
+
+    update public.quizzes set
+      "segmentCode" = p_target,
+      "segmentTitle" = v_title,
+      "displayOrder" = coalesce((select max("displayOrder") from public.quizzes where "segmentCode" = p_target), 0) + 1
+    where "internalQuizKey" = p_key;
+
+    update public.questions set "segmentCode" = p_target, "bookRef" = coalesce(v_book, "bookRef")
+      where "quizId" = p_key;
+    get diagnostics v_questions = row_count;
+    update public.translation_drafts set "segmentCode" = p_target, "bookRef" = coalesce(v_book, "bookRef")
+      where "quizId" = p_key and status = 'pending';
+
+    update public.quizzes q set "displayOrder" = o.position
+      from (
+        select "internalQuizKey", row_number() over (order by "displayOrder", "internalQuizKey") as position
+        from public.quizzes where "segmentCode" = v_old_parent
+      ) o
+      where q."internalQuizKey" = o."internalQuizKey" and q."displayOrder" is distinct from o.position;
+
+  elsif p_level = 'category' then
+    select "moduleCode", "languageCode" into v_old_parent, v_language from public.quiz_categories where "segmentCode" = p_key;
+    if not found then raise exception 'Category not found'; end if;
+    select "moduleTitle", "bookRef", "languageCode" into v_title, v_book, v_target_language
+      from public.quiz_sections where "moduleCode" = p_target;
+    if not found then raise exception 'Target section not found'; end if;
+    if v_target_language is distinct from v_language then
+      raise exception 'A category can only move to a section in the same language';
+    end if;
+    if v_old_parent = p_target then return 0; end if;
+
+    update public.quiz_categories set
+      "moduleCode" = p_target,
+      "moduleTitle" = v_title,
+      "displayOrder" = coalesce((select max("displayOrder") from public.quiz_categories where "moduleCode" = p_target), 0) + 1
+    where "segmentCode" = p_key;
+
+    update public.questions set "bookRef" = v_book
+      where "quizId" in (select "internalQuizKey" from public.quizzes where "segmentCode" = p_key)
+        and "bookRef" is distinct from v_book;
+    get diagnostics v_questions = row_count;
+    update public.translation_drafts set "bookRef" = v_book
+      where "quizId" in (select "internalQuizKey" from public.quizzes where "segmentCode" = p_key)
+        and status = 'pending';
+
+    update public.quiz_categories c set "displayOrder" = o.position
+      from (
+        select "segmentCode", row_number() over (order by "displayOrder", "segmentCode") as position
+        from public.quiz_categories where "moduleCode" = v_old_parent
+      ) o
+      where c."segmentCode" = o."segmentCode" and c."displayOrder" is distinct from o.position;
+
+  elsif p_level = 'section' then
+    select "bookRef", "languageCode" into v_old_parent, v_language from public.quiz_sections where "moduleCode" = p_key;
+    if not found then raise exception 'Section not found'; end if;
+    perform 1 from public.exam_book where book_id::text = p_target;
+    if not found then raise exception 'Target book not found'; end if;
+    if v_old_parent = p_target then return 0; end if;
+
+    -- Sections are ordered per book and language
+    update public.quiz_sections set
+      "bookRef" = p_target,
+      "displayOrder" = coalesce((
+        select max("displayOrder") from public.quiz_sections
+        where "bookRef" = p_target and "languageCode" = v_language
+      ), 0) + 1
+    where "moduleCode" = p_key;
+
+    update public.questions set "bookRef" = p_target
+      where "quizId" in (
+        select q."internalQuizKey" from public.quizzes q
+        join public.quiz_categories c on c."segmentCode" = q."segmentCode"
+        where c."moduleCode" = p_key
+      );
+    get diagnostics v_questions = row_count;
+    update public.translation_drafts set "bookRef" = p_target
+      where "quizId" in (
+        select q."internalQuizKey" from public.quizzes q
+        join public.quiz_categories c on c."segmentCode" = q."segmentCode"
+        where c."moduleCode" = p_key
+      ) and status = 'pending';
+
+    update public.quiz_sections s set "displayOrder" = o.position
+      from (
+        select "moduleCode", row_number() over (order by "displayOrder", "moduleCode") as position
+        from public.quiz_sections where "bookRef" = v_old_parent and "languageCode" = v_language
+      ) o
+      where s."moduleCode" = o."moduleCode" and s."displayOrder" is distinct from o.position;
+
+  else
+    raise exception 'Unknown level %', p_level;
+  end if;
+
+  return v_questions;
+end;
+$$;
+
+revoke execute on function public.move_hierarchy_item(text, text, text) from public, anon;
+grant execute on function public.move_hierarchy_item(text, text, text) to authenticated;
@@ -0,0 +1,158 @@
+-- Deleting a book, section, category or quiz together with everything under it. The old dialogs
+-- only trusted the denormalized counters (setCount, questionVolume, total_category_*), which
+-- drift; these functions walk the real subtree instead. The preview and the delete share the
+-- same walk so the counts a user confirms are the rows that get removed.
+--
+-- Player reports, translation drafts and review comments of removed content go with it. Question
+-- version history and the audit log are records and are kept.
+
+-- Keys of every container in the subtree rooted at (p_level, p_key), including the root
+create or replace function public.cascade_subtree(
+  p_level text,
+  p_key text,
+  out title text,
+  out book_keys text[],
+  out section_keys text[],
+  out category_keys text[],
+  out quiz_keys text[]
+)
+language plpgsql
+stable
+set search_path = public
+as $$
+begin
+  book_keys := '{}';
+  section_keys := '{}';
+  category_keys := '{}';
+  quiz_keys := '{}';
+
+  if p_level = 'book' then
+    select b.title into title from exam_book b where b.book_id::text = p_key;
+    if not found then raise exception 'Exam book not found'; end if;
+    book_keys := array[p_key];
+    select coalesce(array_agg("moduleCode"), '{}') into section_keys from quiz_sections where "bookRef" = p_key;
+  elsif p_level = 'section' then
+    select "moduleTitle" into title from quiz_sections where "moduleCode" = p_key;
+    if not found then raise exception 'Section not found'; end if;
+    section_keys := array[p_key];
+  elsif p_level = 'category' then
+    select "segmentTitle" into title from quiz_categories where "segmentCode" = p_key;
+    if not found then raise exception 'Category not found'; end if;
+    category_keys := array[p_key];
+  elsif p_level = 'quiz' then
+    select "quizTitle" into title from quizzes where "internalQuizKey" = p_key;
+    if not found then raise exception 'Quiz not found'; end if;
+    quiz_keys := array[p_key];
+  else
+    raise exception 'Unknown level %', p_level;
+  end if;
+
+  if p_level in ('book', 'section') then
+    select coalesce(array_agg("segmentCode"), '{}') into category_keys
+      from quiz_categories where "moduleCode" = any(section_keys);
+  end if;
+  if p_level <> 'quiz' then
+    select coalesce(array_agg("internalQuizKey"), '{}') into quiz_keys
+      from quizzes where "segmentCode" = any(category_keys);
+  end if;
+end;
+$$;
+
+create or replace function public.preview_cascade_delete(p_level text, p_key text)
+returns table (
+  title text,
+  books integer,
+  sections integer,
+  categories integer,
+  quizzes integer,
+  questions integer,
+  drafts integer,
+  reports integer
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_tree record;
+begin
+  if not public.has_admin_role('viewer') then
+    raise exception 'Not allowed';
+  end if;
+  select * into v_tree from public.cascade_subtree(p_level, p_key);
+
+  return query select
+    v_tree.title,
+    cardinality(v_tree.book_keys),
+    cardinality(v_tree.section_keys),
+    cardinality(v_tree.category_keys),
+    cardinality(v_tree.quiz_keys),
+    (select count(*)::integer from questions q where q."quizId" = any(v_tree.quiz_keys)),
+    (select count(*)::integer from translation_drafts d where d."quizId" = any(v_tree.quiz_keys)),
+    (select count(*)::integer from question_reports r
+      where r."questionId" in (select q."questionId" from questions q where q."quizId" = any(v_tree.quiz_keys)));
+end;
+$$;
+
+-- Deletes the subtree in one transaction. p_confirm must repeat the root's title, so a stale or
+-- mistyped request cannot remove the wrong content. Returns what was deleted.
+create or replace function public.cascade_delete(p_level text, p_key text, p_confirm text)
+returns table (
+  title text,
+  books integer,
+  sections integer,
+  categories integer,
+  quizzes integer,
+  questions integer,
+  drafts integer,
+  reports integer
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_tree record;
+  v_questions integer;
+  v_drafts integer;
+  v_reports integer;
+begin
+  if not public.has_admin_role('reviewer') then
+    raise exception 'Only reviewers can delete content';
+  end if;
+  select * into v_tree from public.cascade_subtree(p_level, p_key);
+  if trim(coalesce(p_confirm, '')) <> trim(v_tree.title) then
+    raise exception 'The confirmation text does not match the title';
+  end if;
+
+  delete from question_reports r
+    where r."questionId" in (select q."questionId" from questions q where q."quizId" = any(v_tree.quiz_keys));
+  get diagnostics v_reports = row_count;
+  delete from translation_drafts d where d."quizId" = any(v_tree.quiz_keys);
+  get diagnostics v_drafts = row_count;
+  delete from quiz_review_comments c where c."quizId" = any(v_tree.quiz_keys);
+  delete from questions q where q."quizId" = any(v_tree.quiz_keys);
+  get diagnostics v_questions = row_count;
+  delete from quizzes z where z."internalQuizKey" = any(v_tree.quiz_keys);
+  delete from quiz_categories c where c."segmentCode" = any(v_tree.category_keys);
+  delete from quiz_sections s where s."moduleCode" = any(v_tree.section_keys);
+  delete from exam_book b where b.book_id::text = any(v_tree.book_keys);
+
+  return query select
+    v_tree.title,
+    cardinality(v_tree.book_keys),
+    cardinality(v_tree.section_keys),
+    cardinality(v_tree.category_keys),
+    cardinality(v_tree.quiz_keys),
+    v_questions,
+    v_drafts,
+    v_reports;
+end;
+$$;
+
+revoke execute on function public.cascade_subtree(text, text) from public, anon, authenticated;
+revoke execute on function public.preview_cascade_delete(text, text) from public, anon;
+grant execute on function public.preview_cascade_delete(text, text) to authenticated;
+revoke execute on function public.cascade_delete(text, text, text) from public, anon;
+grant execute on function public.cascade_delete(text, text, text) to authenticated;
@@ -0,0 +1,369 @@
+-- Recycle bin. Deleting content or a profile moves the rows into recycle_bin (as jsonb) instead
+-- of dropping them, so they can be restored until the retention period ends. Moving rows out of
+-- their tables keeps every existing reader working unchanged: the dashboard lists and the player
+-- app never see deleted rows, and nothing has to learn to filter on a deleted flag.
+--
+-- Everything removed by one action shares a batch_id. The item the user deleted is the batch's
+-- root (is_root); the rest are its subtree and dependent rows (player reports, translation
+-- drafts, review comments). Restoring a batch puts all of it back.
+
+create table if not exists public.recycle_bin (
+  id bigint generated always as identity primary key,
+  batch_id uuid not null,
+  is_root boolean not null default false,
+  table_name text not null,
+  key_column text not null,
+  row_key text not null,
+  title text,
+  -- Where the root lived, e.g. "Book › Section › Category", captured at deletion time
+  parent_path text,
+  row_data jsonb not null,
+  deleted_at timestamptz not null default now(),
+  deleted_by uuid default auth.uid(),
+  deleted_email text default (auth.jwt() ->> 'email')
+);
+
+create index if not exists recycle_bin_batch_idx on public.recycle_bin (batch_id);
+create index if not exists recycle_bin_roots_idx on public.recycle_bin (deleted_at desc) where is_root;
+
+alter table public.recycle_bin enable row level security;
+
+-- Only readable; rows get in and out through the functions below. Deleted profiles are
+-- personal data and stay visible to super-admins only.
+drop policy if exists "Reviewers can read the recycle bin" on public.recycle_bin;
+create policy "Reviewers can read the recycle bin"
+  on public.recycle_bin for select
+  using (
+    public.has_admin_role('reviewer')
+    and (table_name <> 'profiles' or public.has_admin_role('super-admin'))
+  );
+
+-- Column shown as the title of a binned row
+create or replace function public.recycle_title_column(p_table text)
+returns text
+language sql
+immutable
+as $$
+  select case p_table
+    when 'exam_book' then 'title'
+    when 'quiz_sections' then 'moduleTitle'
+    when 'quiz_categories' then 'segmentTitle'
+    when 'quizzes' then 'quizTitle'
+    when 'questions' then 'questionText'
+    when 'gk_subjects' then 'title'
+    when 'gk_topics' then 'title'
+    when 'gk_oneliner_questions' then 'question'
+    when 'profiles' then 'email'
+    when 'question_reports' then 'reason'
+    when 'translation_drafts' then 'questionText'
+    when 'quiz_review_comments' then 'body'
+  end;
+$$;
+
+-- "Book › Section › Category" style path of the parents of a row
+create or replace function public.recycle_parent_path(p_table text, p_row jsonb)
+returns text
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_path text[] := '{}';
+  v_quiz quizzes%rowtype;
+  v_category quiz_categories%rowtype;
+  v_section quiz_sections%rowtype;
+  v_topic gk_topics%rowtype;
+begin
+  if p_table = 'questions' then
+    select * into v_quiz from quizzes where "internalQuizKey" = p_row ->> 'quizId';
+    if found then v_path := array[v_quiz."quizTitle"]; end if;
+    p_row := jsonb_build_object('segmentCode', v_quiz."segmentCode");
+  end if;
+  if p_table in ('questions', 'quizzes') then
+    select * into v_category from quiz_categories where "segmentCode" = p_row ->> 'segmentCode';
+    if found then v_path := v_category."segmentTitle" || v_path; end if;
+    p_row := jsonb_build_object('moduleCode', v_category."moduleCode");
+  end if;
+  if p_table in ('questions', 'quizzes', 'quiz_categories') then
+    select * into v_section from quiz_sections where "moduleCode" = p_row ->> 'moduleCode';
+    if found then v_path := v_section."moduleTitle" || v_path; end if;
+    p_row := jsonb_build_object('bookRef', v_section."bookRef");
+  end if;
+  if p_table in ('questions', 'quizzes', 'quiz_categories', 'quiz_sections') then
+    v_path := coalesce((select title from exam_book where book_id::text = p_row ->> 'bookRef'), '?') || v_path;
+  end if;
+
+  if p_table = 'gk_oneliner_questions' then
+    select * into v_topic from gk_topics where id::text = p_row ->> 'topic_id';
+    if found then v_path := array[v_topic.title]; end if;
+    p_row := jsonb_build_object('subject_id', v_topic.subject_id);
+  end if;
+  if p_table in ('gk_oneliner_questions', 'gk_topics') then
+    v_path := coalesce((select title from gk_subjects where id::text = p_row ->> 'subject_id'), '?') || v_path;
+  end if;
+
+  return nullif(array_to_string(v_path, ' › '), '');
+end;
+$$;
+
+-- Moves rows whose p_key_column is in p_keys into the bin under p_batch. Rows whose key is in
+-- p_root_keys become roots of the batch. Returns the number of rows moved.
+create or replace function public.stash_rows(
+  p_batch uuid,
+  p_table text,
+  p_key_column text,
+  p_keys text[],
+  p_root_keys text[] default '{}'
+)
+returns integer
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  if cardinality(p_keys) = 0 then return 0; end if;
+  execute format(
+    'with moved as (delete from public.%1$I t where t.%2$I::text = any($1) returning t.*)
+     insert into public.recycle_bin (batch_id, is_root, table_name, key_column, row_key, title, parent_path, row_data)
+     select $2, m.%2$I::text = any($3), %1$L, %2$L, m.%2$I::text, left(to_jsonb(m) ->> %3$L, 300),
+       case when m.%2$I::text = any($3) then public.recycle_parent_path(%1$L, to_jsonb(m)) end,
+       to_jsonb(m)
+     from moved m',
+    p_table, p_key_column, public.recycle_title_column(p_table)
+  ) using p_keys, p_batch, p_root_keys;
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+-- Deletes standalone rows into the bin: questions (with their player reports), GK subjects,
+-- topics and one-liners (with everything under them) and profiles. Every key is a root of the
+-- returned batch, so a bulk delete restores in one go.
+create or replace function public.soft_delete(p_table text, p_keys text[])
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_batch uuid := gen_random_uuid();
+  v_topics text[];
+  v_questions text[];
+begin
+  if p_table = 'profiles' then
+    if not public.has_admin_role('super-admin') then raise exception 'Only super-admins can delete users'; end if;
+    perform public.stash_rows(v_batch, 'profiles', 'id', p_keys, p_keys);
+  elsif not public.has_admin_role('reviewer') then
+    raise exception 'Only reviewers can delete content';
+  elsif p_table = 'questions' then
+    perform public.stash_rows(v_batch, 'questions', 'questionId', p_keys, p_keys);
+    perform public.stash_rows(v_batch, 'question_reports', 'questionId', p_keys);
+  elsif p_table = 'gk_subjects' then
+    select coalesce(array_agg(id::text), '{}') into v_topics from gk_topics where subject_id::text = any(p_keys);
+    select coalesce(array_agg(id::text), '{}') into v_questions from gk_oneliner_questions where topic_id::text = any(v_topics);
+    perform public.stash_rows(v_batch, 'gk_subjects', 'id', p_keys, p_keys);
+    perform public.stash_rows(v_batch, 'gk_topics', 'id', v_topics);
+    perform public.stash_rows(v_batch, 'gk_oneliner_questions', 'id', v_questions);
+  elsif p_table = 'gk_topics' then
+    select coalesce(array_agg(id::text), '{}') into v_questions from gk_oneliner_questions where topic_id::text = any(p_keys);
+    perform public.stash_rows(v_batch, 'gk_topics', 'id', p_keys, p_keys);
+    perform public.stash_rows(v_batch, 'gk_oneliner_questions', 'id', v_questions);
+  elsif p_table = 'gk_oneliner_questions' then
+    perform public.stash_rows(v_batch, 'gk_oneliner_questions', 'id', p_keys, p_keys);
+  else
+    raise exception 'Rows of % cannot be deleted this way', p_table;
+  end if;
+  return v_batch;
+end;
+$$;
+
+-- Cascading delete of a hierarchy subtree (see 20261019180000) now moves it to the bin
+create or replace function public.cascade_delete(p_level text, p_key text, p_confirm text)
+returns table (
+  title text,
+  books integer,
+  sections integer,
+  categories integer,
+  quizzes integer,
+  questions integer,
+  drafts integer,
+  reports integer
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_tree record;
+  v_batch uuid := gen_random_uuid();
+  v_question_keys text[];
+  v_questions integer;
+  v_drafts integer;
+  v_reports integer;
+begin
+  if not public.has_admin_role('reviewer') then
+    raise exception 'Only reviewers can delete content';
+  end if;
+  select * into v_tree from public.cascade_subtree(p_level, p_key);
+  if trim(coalesce(p_confirm, '')) <> trim(v_tree.title) then
+    raise exception 'The confirmation text does not match the title';
+  end if;
+
+  select coalesce(array_agg(q."questionId"), '{}') into v_question_keys
+    from questions q where q."quizId" = any(v_tree.quiz_keys);
+
+  -- Parents first, so the root's path is captured before anything above it could change
+  perform public.stash_rows(v_batch, 'exam_book', 'book_id', v_tree.book_keys, array[p_key]);
+  perform public.stash_rows(v_batch, 'quiz_sections', 'moduleCode', v_tree.section_keys, array[p_key]);
+  perform public.stash_rows(v_batch, 'quiz_categories', 'segmentCode', v_tree.category_keys, array[p_key]);
+  perform public.stash_rows(v_batch, 'quizzes', 'internalQuizKey', v_tree.quiz_keys, array[p_key]);
+  v_questions := public.stash_rows(v_batch, 'questions', 'questionId', v_question_keys);
+  v_reports := public.stash_rows(v_batch, 'question_reports', 'questionId', v_question_keys);
+  v_drafts := public.stash_rows(v_batch, 'translation_drafts', 'quizId', v_tree.quiz_keys);
+  perform public.stash_rows(v_batch, 'quiz_review_comments', 'quizId', v_tree.quiz_keys);
+
+  return query select
+    v_tree.title,
+    cardinality(v_tree.book_keys),
+    cardinality(v_tree.section_keys),
+    cardinality(v_tree.category_keys),
+    cardinality(v_tree.quiz_keys),
+    v_questions,
+    v_drafts,
+    v_reports;
+end;
+$$;
+
+-- Order rows are put back in, so parents exist before their children
+create or replace function public.recycle_restore_rank(p_table text)
+returns integer
+language sql
+immutable
+as $$
+  select case p_table
+    when 'exam_book' then 1
+    when 'gk_subjects' then 1
+    when 'profiles' then 1
+    when 'quiz_sections' then 2
+    when 'gk_topics' then 2
+    when 'quiz_categories' then 3
+    when 'gk_oneliner_questions' then 3
+    when 'quizzes' then 4
+    when 'questions' then 5
+    else 6
+  end;
+$$;
+
+-- Puts a whole batch back. Fails when the root's parent no longer exists (it was deleted on its
+-- own and has to be restored first) or when its key has been reused in the meantime.
+create or replace function public.restore_deleted(p_batch uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row recycle_bin%rowtype;
+  v_columns text;
+  v_parent_ok boolean;
+  v_count integer := 0;
+begin
+  if not exists (select 1 from recycle_bin where batch_id = p_batch) then
+    raise exception 'Nothing to restore; the batch was already restored or purged';
+  end if;
+  if exists (select 1 from recycle_bin where batch_id = p_batch and table_name = 'profiles') then
+    if not public.has_admin_role('super-admin') then raise exception 'Only super-admins can restore users'; end if;
+  elsif not public.has_admin_role('reviewer') then
+    raise exception 'Only reviewers can restore content';
+  end if;
+
+  for v_row in
+    select * from recycle_bin where batch_id = p_batch
+    order by public.recycle_restore_rank(table_name), id
+  loop
+    if v_row.is_root then
+      v_parent_ok := case v_row.table_name
+        when 'quiz_sections' then exists (select 1 from exam_book where book_id::text = v_row.row_data ->> 'bookRef')
+        when 'quiz_categories' then exists (select 1 from quiz_sections where "moduleCode" = v_row.row_data ->> 'moduleCode')
+        when 'quizzes' then exists (select 1 from quiz_categories where "segmentCode" = v_row.row_data ->> 'segmentCode')
+        when 'questions' then exists (select 1 from quizzes where "internalQuizKey" = v_row.row_data ->> 'quizId')
+        when 'gk_topics' then exists (select 1 from gk_subjects where id::text = v_row.row_data ->> 'subject_id')
+        when 'gk_oneliner_questions' then exists (select 1 from gk_topics where id::text = v_row.row_data ->> 'topic_id')
+        else true
+      end;
+      if not v_parent_ok then
+        raise exception '"%" was inside % which no longer exists. Restore that first.',
+          coalesce(v_row.title, v_row.row_key), coalesce(v_row.parent_path, 'a parent');
+      end if;
+    end if;
+
+    -- Generated columns (search_vector) are recomputed; identity values are kept
+    select string_agg(quote_ident(column_name), ', ' order by ordinal_position) into v_columns
+      from information_schema.columns
+      where table_schema = 'public' and table_name = v_row.table_name and is_generated = 'NEVER';
+    begin
+      execute format(
+        'insert into public.%1$I (%2$s) overriding system value select %2$s from jsonb_populate_record(null::public.%1$I, $1)',
+        v_row.table_name, v_columns
+      ) using v_row.row_data;
+    exception when unique_violation then
+      raise exception '"%" cannot be restored because something with the same key exists again',
+        coalesce(v_row.title, v_row.row_key);
+    end;
+    v_count := v_count + 1;
+  end loop;
+
+  delete from recycle_bin where batch_id = p_batch;
+  return v_count;
+end;
+$$;
+
+-- Permanently removes one batch ("Delete forever")
+create or replace function public.purge_deleted(p_batch uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  if exists (select 1 from recycle_bin where batch_id = p_batch and table_name = 'profiles') then
+    if not public.has_admin_role('super-admin') then raise exception 'Only super-admins can purge users'; end if;
+  elsif not public.has_admin_role('reviewer') then
+    raise exception 'Only reviewers can purge content';
+  end if;
+  delete from recycle_bin where batch_id = p_batch;
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+-- Retention: batches deleted more than p_retention ago are removed for good. Called by the
+-- local scheduler (scripts/run-scheduler.mjs) with the service role.
+create or replace function public.purge_expired_recycle_bin(p_retention interval default interval '30 days')
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  delete from recycle_bin
+    where batch_id in (select batch_id from recycle_bin where is_root and deleted_at < now() - p_retention);
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+revoke execute on function public.stash_rows(uuid, text, text, text[], text[]) from public, anon, authenticated;
+revoke execute on function public.soft_delete(text, text[]) from public, anon;
+grant execute on function public.soft_delete(text, text[]) to authenticated;
+revoke execute on function public.restore_deleted(uuid) from public, anon;
+grant execute on function public.restore_deleted(uuid) to authenticated;
+revoke execute on function public.purge_deleted(uuid) from public, anon;
+grant execute on function public.purge_deleted(uuid) to authenticated;
+revoke execute on function public.purge_expired_recycle_bin(interval) from public, anon, authenticated;
+grant execute on function public.purge_expired_recycle_bin(interval) to service_role;
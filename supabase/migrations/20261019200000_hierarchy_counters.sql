@@ -0,0 +1,437 @@
+-- Derived counters on the hierarchy: quizzes."questionVolume", quiz_categories and quiz_sections
+-- "setCount"/"questionVolume", and exam_book.total_category_hi/en. They used to be typed in by
+-- hand and drifted; now they are recomputed from the real rows whenever a child is added,
+-- removed or moved, and recalculate_counters() reports and repairs any drift left over.
+--
+-- A "set" is a quiz, so a section's "setCount" counts the quizzes in all of its categories.
+-- A book's total_category_* counts the categories of that language in all of its sections.
+
+alter table public.quizzes alter column "questionVolume" set default 0;
+alter table public.quiz_categories alter column "setCount" set default 0;
+alter table public.quiz_categories alter column "questionVolume" set default 0;
+alter table public.quiz_sections alter column "setCount" set default 0;
+alter table public.quiz_sections alter column "questionVolume" set default 0;
+alter table public.exam_book alter column total_category_hi set default 0;
+alter table public.exam_book alter column total_category_en set default 0;
+
+-- Every counter next to the value it should have. The only definition of what the counters
+-- mean; both the triggers and recalculate_counters() go through it.
+create or replace view public.hierarchy_counters as
+  select 'quiz'::text as level, q."internalQuizKey"::text as key, q."quizTitle"::text as title,
+    'questionVolume'::text as counter, q."questionVolume"::integer as stored,
+    (select count(*)::integer from public.questions x where x."quizId" = q."internalQuizKey") as actual
+  from public.quizzes q
+  union all
+  select 'category', c."segmentCode", c."segmentTitle", 'setCount', c."setCount"::integer,
+    (select count(*)::integer from public.quizzes q where q."segmentCode" = c."segmentCode")
+  from public.quiz_categories c
+  union all
+  select 'category', c."segmentCode", c."segmentTitle", 'questionVolume', c."questionVolume"::integer,
+    (select count(*)::integer from public.questions x
+      join public.quizzes q on q."internalQuizKey" = x."quizId"
+      where q."segmentCode" = c."segmentCode")
+  from public.quiz_categories c
+  union all
+  select 'section', s."moduleCode", s."moduleTitle", 'setCount', s."setCount"::integer,
+    (select count(*)::integer from public.quizzes q
+      join public.quiz_categories c on c."segmentCode" = q."segmentCode"
+      where c."moduleCode" = s."moduleCode")
+  from public.quiz_sections s
+  union all
+  select 'section', s."moduleCode", s."moduleTitle", 'questionVolume', s."questionVolume"::integer,
+    (select count(*)::integer from public.questions x
+      join public.quizzes q on q."internalQuizKey" = x."quizId"
+      join public.quiz_categories c on c."segmentCode" = q."segmentCode"
+      where c."moduleCode" = s."moduleCode")
+  from public.quiz_sections s
+  union all
+  select 'book', b.book_id::text, b.title, 'total_category_hi', b.total_category_hi::integer,
+    (select count(*)::integer from public.quiz_categories c
+      join public.quiz_sections s on s."moduleCode" = c."moduleCode"
+      where s."bookRef" = b.book_id::text and c."languageCode" = 'hi')
+  from public.exam_book b
+  union all
+  select 'book', b.book_id::text, b.title, 'total_category_en', b.total_category_en::integer,
+    (select count(*)::integer from public.quiz_categories c
+      join public.quiz_sections s on s."moduleCode" = c."moduleCode"
+      where s."bookRef" = b.book_id::text and c."languageCode" = 'en')
+  from public.exam_book b;
+
+revoke all on public.hierarchy_counters from public, anon, authenticated;
+
+-- Recomputes the counters of the given items and of every ancestor above them. Callers pass
+-- the parents of deleted rows themselves, since those rows can no longer be looked up.
+create or replace function public.refresh_hierarchy_counters(
+  p_quizzes text[] default '{}',
+  p_categories text[] default '{}',
+  p_sections text[] default '{}',
+  p_books text[] default '{}'
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update quizzes q set "questionVolume" = v.actual
+    from hierarchy_counters v
+    where v.level = 'quiz' and v.key = any(p_quizzes) and v.key = q."internalQuizKey"
+      and v.stored is distinct from v.actual;
+
+  p_categories := p_categories || array(
+    select "segmentCode"::text from quizzes where "internalQuizKey" = any(p_quizzes)
+  );
+  update quiz_categories c set "setCount" = v.sets, "questionVolume" = v.questions
+    from (
+      select key,
+        max(actual) filter (where counter = 'setCount') as sets,
+        max(actual) filter (where counter = 'questionVolume') as questions,
+        bool_or(stored is distinct from actual) as drifted
+      from hierarchy_counters
+      where level = 'category' and key = any(p_categories)
+      group by key
+    ) v
+    where v.key = c."segmentCode" and v.drifted;
+
+  p_sections := p_sections || array(
+    select "moduleCode"::text from quiz_categories where "segmentCode" = any(p_categories)
+  );
+  update quiz_sections s set "setCount" = v.sets, "questionVolume" = v.questions
+    from (
+      select key,
+        max(actual) filter (where counter = 'setCount') as sets,
+        max(actual) filter (where counter = 'questionVolume') as questions,
+        bool_or(stored is distinct from actual) as drifted
+      from hierarchy_counters
+      where level = 'section' and key = any(p_sections)
+      group by key
+    ) v
+    where v.key = s."moduleCode" and v.drifted;
+
+  p_books := p_books || array(
+    select "bookRef"::text from quiz_sections where "moduleCode" = any(p_sections)
+  );
+  update exam_book b set total_category_hi = v.hi, total_category_en = v.en
+    from (
+      select key,
+        max(actual) filter (where counter = 'total_category_hi') as hi,
+        max(actual) filter (where counter = 'total_category_en') as en,
+        bool_or(stored is distinct from actual) as drifted
+      from hierarchy_counters
+      where level = 'book' and key = any(p_books)
+      group by key
+    ) v
+    where v.key = b.book_id::text and v.drifted;
+end;
+$$;
+
+revoke execute on function public.refresh_hierarchy_counters(text[], text[], text[], text[]) from public, anon, authenticated;
+
+-- Statement-level triggers with transition tables, so a bulk import or a cascade delete
+-- recounts each affected parent once rather than once per row. An update only matters when it
+-- moves a row to another parent; the counter writes made here never do, which keeps the
+-- triggers from recursing.
+
+create or replace function public.count_question_changes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_quizzes text[];
+begin
+  if tg_op = 'INSERT' then
+    select array_agg(distinct "quizId"::text) into v_quizzes from new_rows;
+  elsif tg_op = 'DELETE' then
+    select array_agg(distinct "quizId"::text) into v_quizzes from old_rows;
+  else
+    select array_agg(distinct "quizId"::text) into v_quizzes from (
+      (select "questionId", "quizId" from old_rows except select "questionId", "quizId" from new_rows)
+      union all
+      (select "questionId", "quizId" from new_rows except select "questionId", "quizId" from old_rows)
+    ) moved;
+  end if;
+  if v_quizzes is not null then
+    perform public.refresh_hierarchy_counters(p_quizzes => v_quizzes);
+  end if;
+  return null;
+end;
+$$;
+
+create or replace function public.count_quiz_changes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_categories text[];
+begin
+  if tg_op = 'INSERT' then
+    -- A copied or restored quiz arrives with stale counters of its own
+    perform public.refresh_hierarchy_counters(p_quizzes => array(select "internalQuizKey"::text from new_rows));
+    return null;
+  elsif tg_op = 'DELETE' then
+    select array_agg(distinct "segmentCode"::text) into v_categories from old_rows;
+  else
+    select array_agg(distinct "segmentCode"::text) into v_categories from (
+      (select "internalQuizKey", "segmentCode" from old_rows except select "internalQuizKey", "segmentCode" from new_rows)
+      union all
+      (select "internalQuizKey", "segmentCode" from new_rows except select "internalQuizKey", "segmentCode" from old_rows)
+    ) moved;
+  end if;
+  if v_categories is not null then
+    perform public.refresh_hierarchy_counters(p_categories => v_categories);
+  end if;
+  return null;
+end;
+$$;
+
+create or replace function public.count_category_changes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sections text[];
+begin
+  if tg_op = 'INSERT' then
+    perform public.refresh_hierarchy_counters(p_categories => array(select "segmentCode"::text from new_rows));
+    return null;
+  elsif tg_op = 'DELETE' then
+    select array_agg(distinct "moduleCode"::text) into v_sections from old_rows;
+  else
+    -- The language decides which of the book's totals a category counts towards
+    select array_agg(distinct "moduleCode"::text) into v_sections from (
+      (select "segmentCode", "moduleCode", "languageCode" from old_rows
+        except select "segmentCode", "moduleCode", "languageCode" from new_rows)
+      union all
+      (select "segmentCode", "moduleCode", "languageCode" from new_rows
+        except select "segmentCode", "moduleCode", "languageCode" from old_rows)
+    ) moved;
+  end if;
+  if v_sections is not null then
+    perform public.refresh_hierarchy_counters(p_sections => v_sections);
+  end if;
+  return null;
+end;
+$$;
+
+create or replace function public.count_section_changes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_books text[];
+begin
+  if tg_op = 'INSERT' then
+    perform public.refresh_hierarchy_counters(p_sections => array(select "moduleCode"::text from new_rows));
+    return null;
+  elsif tg_op = 'DELETE' then
+    select array_agg(distinct "bookRef"::text) into v_books from old_rows;
+  else
+    select array_agg(distinct "bookRef"::text) into v_books from (
+      (select "moduleCode", "bookRef" from old_rows except select "moduleCode", "bookRef" from new_rows)
+      union all
+      (select "moduleCode", "bookRef" from new_rows except select "moduleCode", "bookRef" from old_rows)
+    ) moved;
+  end if;
+  if v_books is not null then
+    perform public.refresh_hierarchy_counters(p_books => v_books);
+  end if;
+  return null;
+end;
+$$;
+
+create or replace function public.count_new_books()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.refresh_hierarchy_counters(p_books => array(select book_id::text from new_rows));
+  return null;
+end;
+$$;
+
+-- Transition tables allow only one event per trigger
+drop trigger if exists count_questions_insert on public.questions;
+create trigger count_questions_insert
+  after insert on public.questions
+  referencing new table as new_rows
+  for each statement execute function public.count_question_changes();
+drop trigger if exists count_questions_update on public.questions;
+create trigger count_questions_update
+  after update on public.questions
+  referencing old table as old_rows new table as new_rows
+  for each statement execute function public.count_question_changes();
+drop trigger if exists count_questions_delete on public.questions;
+create trigger count_questions_delete
+  after delete on public.questions
+  referencing old table as old_rows
+  for each statement execute function public.count_question_changes();
+
+drop trigger if exists count_quizzes_insert on public.quizzes;
+create trigger count_quizzes_insert
+  after insert on public.quizzes
+  referencing new table as new_rows
+  for each statement execute function public.count_quiz_changes();
+drop trigger if exists count_quizzes_update on public.quizzes;
+create trigger count_quizzes_update
+  after update on public.quizzes
+  referencing old table as old_rows new table as new_rows
+  for each statement execute function public.count_quiz_changes();
+drop trigger if exists count_quizzes_delete on public.quizzes;
+create trigger count_quizzes_delete
+  after delete on public.quizzes
+  referencing old table as old_rows
+  for each statement execute function public.count_quiz_changes();
+
+drop trigger if exists count_categories_insert on public.quiz_categories;
+create trigger count_categories_insert
+  after insert on public.quiz_categories
+  referencing new table as new_rows
+  for each statement execute function public.count_category_changes();
+drop trigger if exists count_categories_update on public.quiz_categories;
+create trigger count_categories_update
+  after update on public.quiz_categories
+  referencing old table as old_rows new table as new_rows
+  for each statement execute function public.count_category_changes();
+drop trigger if exists count_categories_delete on public.quiz_categories;
+create trigger count_categories_delete
+  after delete on public.quiz_categories
+  referencing old table as old_rows
+  for each statement execute function public.count_category_changes();
+
+drop trigger if exists count_sections_insert on public.quiz_sections;
+create trigger count_sections_insert
+  after insert on public.quiz_sections
+  referencing new table as new_rows
+  for each statement execute function public.count_section_changes();
+drop trigger if exists count_sections_update on public.quiz_sections;
+create trigger count_sections_update
+  after update on public.quiz_sections
+  referencing old table as old_rows new table as new_rows
+  for each statement execute function public.count_section_changes();
+drop trigger if exists count_sections_delete on public.quiz_sections;
+create trigger count_sections_delete
+  after delete on public.quiz_sections
+  referencing old table as old_rows
+  for each statement execute function public.count_section_changes();
+
+drop trigger if exists count_books_insert on public.exam_book;
+create trigger count_books_insert
+  after insert on public.exam_book
+  referencing new table as new_rows
+  for each statement execute function public.count_new_books();
+
+-- The audit log records edits; a counter moving because a question was added is not one
+create or replace function public.audit_row_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  key_column text := tg_argv[0];
+  old_row jsonb;
+  new_row jsonb;
+  diff jsonb := '{}'::jsonb;
+  col text;
+begin
+  if tg_op <> 'INSERT' then
+    old_row := to_jsonb(old) - 'search_vector';
+  end if;
+  if tg_op <> 'DELETE' then
+    new_row := to_jsonb(new) - 'search_vector';
+  end if;
+
+  for col in select jsonb_object_keys(coalesce(new_row, old_row)) loop
+    if old_row -> col is distinct from new_row -> col then
+      diff := diff || jsonb_build_object(col, jsonb_build_object('old', old_row -> col, 'new', new_row -> col));
+    end if;
+  end loop;
+
+  if tg_op = 'UPDATE' then
+    diff := diff - array['questionVolume', 'setCount', 'total_category_hi', 'total_category_en'];
+  end if;
+
+  -- Saving a form without changing anything is not worth a log entry
+  if tg_op = 'UPDATE' and diff = '{}'::jsonb then
+    return null;
+  end if;
+
+  insert into public.audit_log (table_name, row_key, action, changes)
+  values (tg_table_name, coalesce(new_row, old_row) ->> key_column, lower(tg_op), diff);
+  return null;
+end;
+$$;
+
+-- Lists every counter that disagrees with the rows under it. With p_apply the same counters are
+-- rewritten in this call, and the returned rows are what was fixed.
+create or replace function public.recalculate_counters(p_apply boolean default false)
+returns table (
+  level text,
+  key text,
+  title text,
+  counter text,
+  stored integer,
+  actual integer
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_drift record;
+  v_quizzes text[] := '{}';
+  v_categories text[] := '{}';
+  v_sections text[] := '{}';
+  v_books text[] := '{}';
+begin
+  if not public.has_admin_role(case when p_apply then 'editor' else 'viewer' end) then
+    raise exception 'Not allowed';
+  end if;
+
+  for v_drift in
+    select h.* from hierarchy_counters h
+    where h.stored is distinct from h.actual
+    order by array_position(array['book', 'section', 'category', 'quiz'], h.level), h.title, h.counter
+  loop
+    level := v_drift.level;
+    key := v_drift.key;
+    title := v_drift.title;
+    counter := v_drift.counter;
+    stored := v_drift.stored;
+    actual := v_drift.actual;
+    return next;
+
+    case v_drift.level
+      when 'quiz' then v_quizzes := v_quizzes || v_drift.key;
+      when 'category' then v_categories := v_categories || v_drift.key;
+      when 'section' then v_sections := v_sections || v_drift.key;
+      else v_books := v_books || v_drift.key;
+    end case;
+  end loop;
+
+  if p_apply then
+    perform public.refresh_hierarchy_counters(v_quizzes, v_categories, v_sections, v_books);
+  end if;
+end;
+$$;
+
+revoke execute on function public.recalculate_counters(boolean) from public, anon;
+grant execute on function public.recalculate_counters(boolean) to authenticated;
+
+-- Bring every existing counter in line once
+select public.refresh_hierarchy_counters(
+  array(select "internalQuizKey"::text from public.quizzes),
+  array(select "segmentCode"::text from public.quiz_categories),
+  array(select "moduleCode"::text from public.quiz_sections),
+  array(select book_id::text from public.exam_book)
+);
@@ -0,0 +1,23 @@
+-- Public bucket for images used by the content: exam book icons, section icons, quiz covers and
+-- pictures inside questions. The dashboard compresses uploads to WebP before sending them; the
+-- other types are accepted for vector icons and animations, which do not survive conversion.
+-- Anyone can read the files (the player app loads them by URL); only editors can upload.
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'media',
+  'media',
+  true,
+  5242880,
+  array['image/webp', 'image/png', 'image/jpeg', 'image/gif', 'image/svg+xml']
+)
+on conflict (id) do update set
+  public = excluded.public,
+  file_size_limit = excluded.file_size_limit,
+  allowed_mime_types = excluded.allowed_mime_types;
+
+drop policy if exists "Editors can upload media" on storage.objects;
+create policy "Editors can upload media"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'media' and public.has_admin_role('editor'));
@@ -0,0 +1,116 @@
+-- Browsing the media bucket: every uploaded image with its size, dimensions and the content that
+-- uses it, so editors can reuse an icon instead of uploading it again and clean up the rest.
+-- Dimensions and the original file name are stored as object metadata by the uploader; files
+-- uploaded before that have none.
+
+drop policy if exists "Admins can list media" on storage.objects;
+create policy "Admins can list media"
+  on storage.objects for select
+  to authenticated
+  using (bucket_id = 'media' and public.has_admin_role('viewer'));
+
+drop policy if exists "Reviewers can delete media" on storage.objects;
+create policy "Reviewers can delete media"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'media' and public.has_admin_role('reviewer'));
+
+-- Object paths referenced by content. Icons and covers hold a public URL; questions can embed
+-- any number of them in their markdown.
+create or replace function public.media_references()
+returns table (path text, kind text, key text, title text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with bodies as (
+    select 'book' as kind, b.book_id::text as key, b.title::text as title, b.icon::text as body
+      from exam_book b
+    union all
+    select 'section', s."moduleCode", s."moduleTitle", s."iconLink"
+      from quiz_sections s
+    union all
+    select 'quiz', q."internalQuizKey", q."quizTitle", q."coverImageLink"
+      from quizzes q
+    union all
+    select 'question', x."questionId"::text, left(x."questionText", 80), concat_ws(' ', x."questionText", x."noteText")
+      from questions x
+  )
+  select distinct m[1], b.kind, b.key, b.title
+  from bodies b
+  cross join lateral regexp_matches(b.body, '/storage/v1/object/public/media/([^\s)"''<>?#]+)', 'g') m
+  where b.body like '%/object/public/media/%';
+$$;
+
+revoke execute on function public.media_references() from public, anon, authenticated;
+
+-- One page of assets, newest first. p_search matches the original file name, the path and the
+-- titles of the content using the asset. p_uploaded_before keeps images that were just uploaded
+-- into a form that has not been saved yet out of an unused-only listing.
+create or replace function public.list_media_assets(
+  p_search text default null,
+  p_unused_only boolean default false,
+  p_uploaded_before timestamptz default null,
+  p_limit integer default 50,
+  p_offset integer default 0
+)
+returns table (
+  path text,
+  size bigint,
+  mime_type text,
+  width integer,
+  height integer,
+  original_name text,
+  created_at timestamptz,
+  refs jsonb,
+  total bigint
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_admin_role('viewer') then
+    raise exception 'Not allowed';
+  end if;
+
+  return query
+    with grouped as (
+      select r.path as ref_path,
+        jsonb_agg(jsonb_build_object('kind', r.kind, 'key', r.key, 'title', r.title) order by r.kind, r.title) as items
+      from public.media_references() r
+      group by r.path
+    ),
+    assets as (
+      select o.name as asset_path,
+        (o.metadata ->> 'size')::bigint as asset_size,
+        o.metadata ->> 'mimetype' as asset_type,
+        (o.user_metadata ->> 'width')::integer as asset_width,
+        (o.user_metadata ->> 'height')::integer as asset_height,
+        o.user_metadata ->> 'originalName' as asset_name,
+        o.created_at as asset_created,
+        coalesce(g.items, '[]'::jsonb) as asset_refs
+      from storage.objects o
+      left join grouped g on g.ref_path = o.name
+      where o.bucket_id = 'media'
+        and (not p_unused_only or g.ref_path is null)
+        and (p_uploaded_before is null or o.created_at < p_uploaded_before)
+        and (
+          coalesce(p_search, '') = ''
+          or o.name ilike '%' || p_search || '%'
+          or o.user_metadata ->> 'originalName' ilike '%' || p_search || '%'
+          or g.items::text ilike '%' || p_search || '%'
+        )
+    )
+    select a.asset_path, a.asset_size, a.asset_type, a.asset_width, a.asset_height, a.asset_name,
+      a.asset_created, a.asset_refs, count(*) over ()
+    from assets a
+    order by a.asset_created desc, a.asset_path
+    limit p_limit offset p_offset;
+end;
+$$;
+
+revoke execute on function public.list_media_assets(text, boolean, timestamptz, integer, integer) from public, anon;
+grant execute on function public.list_media_assets(text, boolean, timestamptz, integer, integer) to authenticated;
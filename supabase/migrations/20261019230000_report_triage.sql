@@ -0,0 +1,153 @@
+-- Triage of player reports. Each report gets its own id and moves through
+--   open -> investigating -> fixed | invalid | duplicate
+-- with an assignee and internal notes the player never sees. The dashboard groups reports by
+-- question, so one fix can close every report about the same mistake.
+--
+-- The player app still inserts reports without a status (or with its old 'pending'), so anything
+-- outside the workflow is normalized to 'open' on insert instead of being rejected.
+
+alter table public.question_reports
+  add column if not exists id bigint generated by default as identity,
+  add column if not exists assignee_id uuid,
+  add column if not exists internal_notes text,
+  add column if not exists status_changed_at timestamptz,
+  add column if not exists status_changed_by uuid;
+
+create unique index if not exists question_reports_id_idx on public.question_reports (id);
+create index if not exists question_reports_question_idx on public.question_reports ("questionId");
+create index if not exists question_reports_status_idx on public.question_reports (status);
+
+update public.question_reports set status = case
+  when status = 'resolved' then 'fixed'
+  when status in ('open', 'investigating', 'fixed', 'invalid', 'duplicate') then status
+  else 'open'
+end;
+
+create or replace function public.stamp_question_report()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    if new.status is null or new.status not in ('open', 'investigating', 'fixed', 'invalid', 'duplicate') then
+      new.status := 'open';
+    end if;
+  elsif new.status is distinct from old.status then
+    new.status_changed_at := now();
+    new.status_changed_by := auth.uid();
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists stamp_question_report on public.question_reports;
+create trigger stamp_question_report
+  before insert or update on public.question_reports
+  for each row execute function public.stamp_question_report();
+
+alter table public.question_reports alter column status set default 'open';
+alter table public.question_reports drop constraint if exists question_reports_status_check;
+alter table public.question_reports add constraint question_reports_status_check
+  check (status in ('open', 'investigating', 'fixed', 'invalid', 'duplicate'));
+
+-- The audit trail identified reports by question; now that they have their own key, use it
+drop trigger if exists audit_question_reports on public.question_reports;
+create trigger audit_question_reports
+  after update or delete on public.question_reports
+  for each row execute function public.audit_row_change('id');
+
+-- Reports matching the filters, one row per question. A null filter matches everything.
+create or replace function public.question_report_groups(
+  p_statuses text[] default null,
+  p_reason text default null,
+  p_assignee uuid default null,
+  p_unassigned boolean default false,
+  p_from timestamptz default null,
+  p_to timestamptz default null,
+  p_sort text default 'latest',
+  p_limit integer default 20,
+  p_offset integer default 0
+)
+returns table (
+  "questionId" text,
+  question_text text,
+  quiz_id text,
+  language_code text,
+  report_count integer,
+  reason_counts jsonb,
+  status_counts jsonb,
+  report_ids bigint[],
+  latest_at timestamptz,
+  total bigint
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_admin_role('viewer') then
+    raise exception 'Not allowed';
+  end if;
+
+  return query
+    with matching as (
+      select r.* from question_reports r
+      where (p_statuses is null or r.status = any(p_statuses))
+        and (coalesce(p_reason, '') = '' or r.reason = p_reason)
+        and (p_assignee is null or r.assignee_id = p_assignee)
+        and (not p_unassigned or r.assignee_id is null)
+        and (p_from is null or r.created_at >= p_from)
+        and (p_to is null or r.created_at <= p_to)
+    ),
+    reasons as (
+      select m."questionId" as qid, jsonb_object_agg(m.reason, m.n) as counts
+      from (select mm."questionId", mm.reason, count(*) as n from matching mm group by 1, 2) m
+      group by m."questionId"
+    ),
+    statuses as (
+      select m."questionId" as qid, jsonb_object_agg(m.status, m.n) as counts
+      from (select mm."questionId", mm.status, count(*) as n from matching mm group by 1, 2) m
+      group by m."questionId"
+    ),
+    grouped as (
+      select m."questionId"::text as qid,
+        count(*)::integer as n,
+        array_agg(m.id order by m.created_at desc) as ids,
+        max(m.created_at) as latest
+      from matching m
+      group by m."questionId"
+    )
+    select g.qid, q."questionText", q."quizId"::text, q."languageCode"::text, g.n,
+      rs.counts, st.counts, g.ids, g.latest, count(*) over ()
+    from grouped g
+    left join reasons rs on rs.qid::text = g.qid
+    left join statuses st on st.qid::text = g.qid
+    left join questions q on q."questionId"::text = g.qid
+    order by
+      case when p_sort = 'count' then g.n end desc nulls last,
+      g.latest desc
+    limit p_limit offset p_offset;
+end;
+$$;
+
+revoke execute on function public.question_report_groups(text[], text, uuid, boolean, timestamptz, timestamptz, text, integer, integer) from public, anon;
+grant execute on function public.question_report_groups(text[], text, uuid, boolean, timestamptz, timestamptz, text, integer, integer) to authenticated;
+
+-- Reasons players have picked so far, for the filter
+create or replace function public.question_report_reasons()
+returns table (reason text, reports integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select r.reason, count(*)::integer
+  from question_reports r
+  where public.has_admin_role('viewer')
+  group by r.reason
+  order by count(*) desc;
+$$;
+
+revoke execute on function public.question_report_reasons() from public, anon;
+grant execute on function public.question_report_reasons() to authenticated;
@@ -0,0 +1,108 @@
+-- Tells players what happened to their question reports. Closing a report (fixed, invalid or
+-- duplicate) queues a row in player_notifications, rendered from notification_templates. The row
+-- doubles as the player's in-app inbox entry; scripts/deliver-notifications.mjs hands pending
+-- rows to a delivery adapter and records the outcome on the same row, so each report keeps a
+-- history of what was sent.
+
+create table if not exists public.notification_templates (
+  kind text primary key,
+  title text not null,
+  -- {{reason}} and {{question}} are replaced when a notification is queued
+  body text not null,
+  updated_at timestamptz not null default now()
+);
+
+insert into public.notification_templates (kind, title, body) values
+  ('report_fixed', 'Thanks, we fixed it',
+   'You reported "{{question}}" ({{reason}}). We have corrected the question. Thanks for helping us improve!'),
+  ('report_invalid', 'We checked your report',
+   'You reported "{{question}}" ({{reason}}). We reviewed it and the question is correct as it is.'),
+  ('report_duplicate', 'Already taken care of',
+   'You reported "{{question}}" ({{reason}}). Someone reported the same problem before you, and it is being handled there.')
+on conflict (kind) do nothing;
+
+alter table public.notification_templates enable row level security;
+
+drop policy if exists "Admins can read notification templates" on public.notification_templates;
+create policy "Admins can read notification templates"
+  on public.notification_templates for select
+  using (public.has_admin_role('viewer'));
+
+create table if not exists public.player_notifications (
+  id bigint generated always as identity primary key,
+  player_id text not null,
+  report_id bigint,
+  kind text not null,
+  title text not null,
+  body text not null,
+  status text not null default 'pending' check (status in ('pending', 'sent', 'failed')),
+  -- Adapter that delivered it, e.g. 'inbox' or 'webhook'
+  channel text,
+  attempts integer not null default 0,
+  last_error text,
+  created_at timestamptz not null default now(),
+  created_by uuid default auth.uid(),
+  sent_at timestamptz,
+  read_at timestamptz
+);
+
+create index if not exists player_notifications_player_idx on public.player_notifications (player_id, created_at desc);
+create index if not exists player_notifications_report_idx on public.player_notifications (report_id);
+create index if not exists player_notifications_pending_idx on public.player_notifications (created_at) where status = 'pending';
+
+alter table public.player_notifications enable row level security;
+
+-- Players see their own inbox and can mark entries read; admins see everything. Rows are only
+-- created by the trigger below and delivered with the service role key.
+drop policy if exists "Players can read their notifications" on public.player_notifications;
+create policy "Players can read their notifications"
+  on public.player_notifications for select
+  using (player_id = auth.uid()::text or public.has_admin_role('viewer'));
+
+drop policy if exists "Players can mark their notifications read" on public.player_notifications;
+create policy "Players can mark their notifications read"
+  on public.player_notifications for update
+  using (player_id = auth.uid()::text)
+  with check (player_id = auth.uid()::text);
+
+create or replace function public.queue_report_notification()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_template notification_templates;
+  v_question text;
+begin
+  if new.status is not distinct from old.status
+     or new.status not in ('fixed', 'invalid', 'duplicate')
+     or old.status not in ('open', 'investigating')
+     or new."playerId" is null then
+    return new;
+  end if;
+
+  select * into v_template from notification_templates where kind = 'report_' || new.status;
+  if not found then
+    return new;
+  end if;
+
+  select left(regexp_replace(q."questionText", '\s+', ' ', 'g'), 80) into v_question
+  from questions q where q."questionId"::text = new."questionId"::text;
+
+  insert into player_notifications (player_id, report_id, kind, title, body)
+  values (
+    new."playerId"::text,
+    new.id,
+    v_template.kind,
+    v_template.title,
+    replace(replace(v_template.body, '{{reason}}', coalesce(new.reason, '')), '{{question}}', coalesce(v_question, 'a question'))
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists queue_report_notification on public.question_reports;
+create trigger queue_report_notification
+  after update of status on public.question_reports
+  for each row execute function public.queue_report_notification();
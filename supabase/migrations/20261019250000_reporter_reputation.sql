@@ -0,0 +1,193 @@
+-- Reporter reputation. Every player's report history gives a score (how often their closed
+-- reports turned out valid) and spam signals. Admins can mute a reporter: reports they file
+-- afterwards stay in the table but are left out of the triage queue unless asked for.
+
+create table if not exists public.muted_reporters (
+  player_id text primary key,
+  reason text,
+  muted_at timestamptz not null default now(),
+  muted_by uuid default auth.uid(),
+  muted_email text default (auth.jwt() ->> 'email')
+);
+
+alter table public.muted_reporters enable row level security;
+
+drop policy if exists "Admins can read muted reporters" on public.muted_reporters;
+create policy "Admins can read muted reporters"
+  on public.muted_reporters for select
+  using (public.has_admin_role('viewer'));
+
+drop policy if exists "Editors can mute reporters" on public.muted_reporters;
+create policy "Editors can mute reporters"
+  on public.muted_reporters for insert
+  with check (public.has_admin_role('editor'));
+
+drop policy if exists "Editors can unmute reporters" on public.muted_reporters;
+create policy "Editors can unmute reporters"
+  on public.muted_reporters for delete
+  using (public.has_admin_role('editor'));
+
+create index if not exists question_reports_player_idx on public.question_reports ("playerId", created_at);
+
+-- Report history per player. Fixed and duplicate reports count as valid, invalid ones as
+-- rejected; reputation is the valid share of closed reports (0-100), smoothed so a single
+-- verdict does not decide it. Spam signals:
+--   burst           10 or more reports within 10 minutes
+--   repeated        the same reason and message on 5 or more different questions
+--   often_rejected  3 or more rejected reports and over twice as many rejected as valid
+create or replace function public.reporter_stats(p_player_ids text[])
+returns table (
+  player_id text,
+  total integer,
+  valid integer,
+  rejected integer,
+  reputation integer,
+  max_burst integer,
+  max_repeats integer,
+  spam_signals text[],
+  muted boolean
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with reports as (
+    select r."playerId"::text as pid, r.*
+    from question_reports r
+    where r."playerId"::text = any(p_player_ids)
+      and public.has_admin_role('viewer')
+  ),
+  bursts as (
+    select b.pid, max(b.n)::integer as max_burst
+    from (
+      select rr.pid, count(*) over (
+        partition by rr.pid order by rr.created_at
+        range between interval '10 minutes' preceding and current row
+      ) as n
+      from reports rr
+    ) b
+    group by b.pid
+  ),
+  repeats as (
+    select x.pid, max(x.n)::integer as max_repeats
+    from (
+      select rr.pid, count(distinct rr."questionId") as n
+      from reports rr
+      group by rr.pid, rr.reason, lower(trim(coalesce(rr.additional_message, '')))
+    ) x
+    group by x.pid
+  ),
+  totals as (
+    select rr.pid,
+      count(*)::integer as total,
+      (count(*) filter (where rr.status in ('fixed', 'duplicate')))::integer as valid,
+      (count(*) filter (where rr.status = 'invalid'))::integer as rejected
+    from reports rr
+    group by rr.pid
+  )
+  select t.pid, t.total, t.valid, t.rejected,
+    round(100.0 * (t.valid + 1) / (t.valid + t.rejected + 2))::integer,
+    b.max_burst,
+    rp.max_repeats,
+    array_remove(array[
+      case when b.max_burst >= 10 then 'burst' end,
+      case when rp.max_repeats >= 5 then 'repeated' end,
+      case when t.rejected >= 3 and t.rejected > 2 * t.valid then 'often_rejected' end
+    ], null),
+    exists (select 1 from muted_reporters m where m.player_id = t.pid)
+  from totals t
+  join bursts b on b.pid = t.pid
+  join repeats rp on rp.pid = t.pid;
+$$;
+
+revoke execute on function public.reporter_stats(text[]) from public, anon;
+grant execute on function public.reporter_stats(text[]) to authenticated;
+
+-- Same as before, plus p_include_muted (reports filed after their reporter was muted are left
+-- out unless it is set) and the reporters of each group, so the queue can flag likely spam
+drop function if exists public.question_report_groups(text[], text, uuid, boolean, timestamptz, timestamptz, text, integer, integer);
+
+create or replace function public.question_report_groups(
+  p_statuses text[] default null,
+  p_reason text default null,
+  p_assignee uuid default null,
+  p_unassigned boolean default false,
+  p_from timestamptz default null,
+  p_to timestamptz default null,
+  p_sort text default 'latest',
+  p_limit integer default 20,
+  p_offset integer default 0,
+  p_include_muted boolean default false
+)
+returns table (
+  "questionId" text,
+  question_text text,
+  quiz_id text,
+  language_code text,
+  report_count integer,
+  reason_counts jsonb,
+  status_counts jsonb,
+  report_ids bigint[],
+  player_ids text[],
+  latest_at timestamptz,
+  total bigint
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_admin_role('viewer') then
+    raise exception 'Not allowed';
+  end if;
+
+  return query
+    with matching as (
+      select r.* from question_reports r
+      where (p_statuses is null or r.status = any(p_statuses))
+        and (coalesce(p_reason, '') = '' or r.reason = p_reason)
+        and (p_assignee is null or r.assignee_id = p_assignee)
+        and (not p_unassigned or r.assignee_id is null)
+        and (p_from is null or r.created_at >= p_from)
+        and (p_to is null or r.created_at <= p_to)
+        and (p_include_muted or not exists (
+          select 1 from muted_reporters mr
+          where mr.player_id = r."playerId"::text and r.created_at >= mr.muted_at
+        ))
+    ),
+    reasons as (
+      select m."questionId" as qid, jsonb_object_agg(m.reason, m.n) as counts
+      from (select mm."questionId", mm.reason, count(*) as n from matching mm group by 1, 2) m
+      group by m."questionId"
+    ),
+    statuses as (
+      select m."questionId" as qid, jsonb_object_agg(m.status, m.n) as counts
+      from (select mm."questionId", mm.status, count(*) as n from matching mm group by 1, 2) m
+      group by m."questionId"
+    ),
+    grouped as (
+      select m."questionId"::text as qid,
+        count(*)::integer as n,
+        array_agg(m.id order by m.created_at desc) as ids,
+        array_agg(distinct m."playerId"::text) as players,
+        max(m.created_at) as latest
+      from matching m
+      group by m."questionId"
+    )
+    select g.qid, q."questionText", q."quizId"::text, q."languageCode"::text, g.n,
+      rs.counts, st.counts, g.ids, g.players, g.latest, count(*) over ()
+    from grouped g
+    left join reasons rs on rs.qid::text = g.qid
+    left join statuses st on st.qid::text = g.qid
+    left join questions q on q."questionId"::text = g.qid
+    order by
+      case when p_sort = 'count' then g.n end desc nulls last,
+      g.latest desc
+    limit p_limit offset p_offset;
+end;
+$$;
+
+revoke execute on function public.question_report_groups(text[], text, uuid, boolean, timestamptz, timestamptz, text, integer, integer, boolean) from public, anon;
+grant execute on function public.question_report_groups(text[], text, uuid, boolean, timestamptz, timestamptz, text, integer, integer, boolean) to authenticated;
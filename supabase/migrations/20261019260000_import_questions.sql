@@ -0,0 +1,43 @@
+-- Bulk import in a single transaction: either every row of the file is inserted or none is, so
+-- a failure halfway through never leaves a half-imported quiz behind.
+
+create or replace function public.import_questions(p_rows jsonb)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  if not public.has_admin_role('editor') then
+    raise exception 'Not allowed';
+  end if;
+  if jsonb_typeof(p_rows) <> 'array' then
+    raise exception 'Expected an array of questions';
+  end if;
+  if exists (
+    select 1 from jsonb_array_elements(p_rows) r
+    where coalesce(r ->> 'questionId', '') = '' or coalesce(r ->> 'quizId', '') = ''
+      or coalesce(r ->> 'questionText', '') = ''
+      or coalesce(r ->> 'correctAnswer', '') not in ('a', 'b', 'c', 'd')
+  ) then
+    raise exception 'Every question needs an id, a quiz, question text and a correct answer of a, b, c or d';
+  end if;
+
+  insert into questions (
+    "questionId", "quizId", "bookRef", "segmentCode", "languageCode", "questionType", "questionText",
+    "correctAnswer", "optionA", "optionB", "optionC", "optionD", "noteText", "previouslyAskedIn", created_at
+  )
+  select q."questionId", q."quizId", q."bookRef", q."segmentCode", q."languageCode", q."questionType", q."questionText",
+    q."correctAnswer", q."optionA", q."optionB", q."optionC", q."optionD", q."noteText", q."previouslyAskedIn",
+    coalesce(q.created_at, now())
+  from jsonb_populate_recordset(null::questions, p_rows) q;
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+revoke execute on function public.import_questions(jsonb) from public, anon;
+grant execute on function public.import_questions(jsonb) to authenticated;
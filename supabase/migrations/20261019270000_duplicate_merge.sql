@@ -0,0 +1,107 @@
+-- Duplicate detection fixes.
+--
+-- Merging used to move the player reports and then soft-delete the duplicates in two requests,
+-- so a failed delete (e.g. by an editor, since soft_delete needs reviewer) left the reports
+-- moved anyway. merge_duplicate_questions() does both in one transaction.
+--
+-- Candidates were searched with spelling-folded words (see normalizeQuestionText in
+-- src/lib/questionSimilarity.ts) against the unfolded search_vector, so a word written with a
+-- nukta or chandrabindu never matched its variant. search_vector_folded applies the same folding.
+
+-- Mirrors normalizeQuestionText: nukta dropped (precomposed letters are decomposed first),
+-- chandrabindu read as anusvara, Devanagari digits as ASCII
+create or replace function public.fold_search_text(p_text text)
+returns text
+language sql
+immutable
+parallel safe
+as $$
+  select translate(normalize(lower(coalesce(p_text, '')), NFKC), 'ँ०१२३४५६७८९़', 'ं0123456789');
+$$;
+
+alter table public.questions
+  add column if not exists search_vector_folded tsvector
+  generated always as (
+    to_tsvector(
+      'simple',
+      public.fold_search_text(
+        coalesce("questionText", '') || ' ' ||
+        coalesce("optionA", '') || ' ' ||
+        coalesce("optionB", '') || ' ' ||
+        coalesce("optionC", '') || ' ' ||
+        coalesce("optionD", '') || ' ' ||
+        coalesce("noteText", '')
+      )
+    )
+  ) stored;
+
+create index if not exists questions_search_vector_folded_idx
+  on public.questions using gin (search_vector_folded);
+
+-- Like search_vector, the folded vector follows the text and is not an edit of its own
+create or replace function public.audit_row_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  key_column text := tg_argv[0];
+  old_row jsonb;
+  new_row jsonb;
+  diff jsonb := '{}'::jsonb;
+  col text;
+begin
+  if tg_op <> 'INSERT' then
+    old_row := to_jsonb(old) - array['search_vector', 'search_vector_folded'];
+  end if;
+  if tg_op <> 'DELETE' then
+    new_row := to_jsonb(new) - array['search_vector', 'search_vector_folded'];
+  end if;
+
+  for col in select jsonb_object_keys(coalesce(new_row, old_row)) loop
+    if old_row -> col is distinct from new_row -> col then
+      diff := diff || jsonb_build_object(col, jsonb_build_object('old', old_row -> col, 'new', new_row -> col));
+    end if;
+  end loop;
+
+  if tg_op = 'UPDATE' then
+    diff := diff - array['questionVolume', 'setCount', 'total_category_hi', 'total_category_en'];
+  end if;
+
+  -- Saving a form without changing anything is not worth a log entry
+  if tg_op = 'UPDATE' and diff = '{}'::jsonb then
+    return null;
+  end if;
+
+  insert into public.audit_log (table_name, row_key, action, changes)
+  values (tg_table_name, coalesce(new_row, old_row) ->> key_column, lower(tg_op), diff);
+  return null;
+end;
+$$;
+
+-- Keeps p_keep, moves the reports of p_remove to it and sends p_remove to the recycle bin
+create or replace function public.merge_duplicate_questions(p_keep text, p_remove text[])
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_admin_role('reviewer') then
+    raise exception 'Only reviewers can merge duplicates';
+  end if;
+  if p_keep = any(p_remove) then
+    raise exception 'The kept question cannot also be removed';
+  end if;
+  if not exists (select 1 from questions where "questionId"::text = p_keep) then
+    raise exception 'Question % does not exist', p_keep;
+  end if;
+
+  update question_reports set "questionId" = p_keep where "questionId"::text = any(p_remove);
+  return public.soft_delete('questions', p_remove);
+end;
+$$;
+
+revoke execute on function public.merge_duplicate_questions(text, text[]) from public, anon;
+grant execute on function public.merge_duplicate_questions(text, text[]) to authenticated;
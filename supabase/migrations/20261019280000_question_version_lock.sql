@@ -0,0 +1,37 @@
+-- Two saves of the same question at once could both compute max(version) + 1 and the second
+-- would abort on unique ("questionId", version). The trigger now locks the question row first.
+
+create or replace function public.record_question_version()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' and (
+    old."questionType", old."questionText", old."correctAnswer", old."optionA", old."optionB",
+    old."optionC", old."optionD", old."noteText", old."previouslyAskedIn", old."languageCode"
+  ) is not distinct from (
+    new."questionType", new."questionText", new."correctAnswer", new."optionA", new."optionB",
+    new."optionC", new."optionD", new."noteText", new."previouslyAskedIn", new."languageCode"
+  ) then
+    return null;
+  end if;
+
+  -- Concurrent saves of the same question take turns here, so each sees the other's version
+  -- number instead of both picking max + 1 and failing on the unique constraint
+  perform 1 from public.questions where "questionId" = new."questionId" for update;
+
+  insert into public.question_versions (
+    "questionId", version, "questionType", "questionText", "correctAnswer", "optionA", "optionB",
+    "optionC", "optionD", "noteText", "previouslyAskedIn", "languageCode"
+  )
+  values (
+    new."questionId",
+    coalesce((select max(version) from public.question_versions where "questionId" = new."questionId"), 0) + 1,
+    new."questionType", new."questionText", new."correctAnswer", new."optionA", new."optionB",
+    new."optionC", new."optionD", new."noteText", new."previouslyAskedIn", new."languageCode"
+  );
+  return null;
+end;
+$$;
@@ -0,0 +1,100 @@
+-- Workflow moves used to be a client-side update of "workflowState" followed by a separate
+-- comment insert, so any editor could PATCH a quiz straight to live and a failed comment left
+-- a move without its history. transition_quiz() checks the move and the caller's role and
+-- records the comment in the same transaction; direct client changes to the state are refused.
+
+create or replace function public.transition_quiz(
+  p_quiz_id text,
+  p_from text,
+  p_to text,
+  p_comment text default '',
+  p_publish_at timestamptz default null,
+  p_expire_at timestamptz default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_role text;
+begin
+  -- Mirrors WORKFLOW_TRANSITIONS in src/lib/quizWorkflow.ts
+  v_role := case (p_from, p_to)
+    when ('draft', 'in_review') then 'editor'
+    when ('changes_requested', 'in_review') then 'editor'
+    when ('in_review', 'changes_requested') then 'reviewer'
+    when ('in_review', 'approved') then 'reviewer'
+    when ('approved', 'live') then 'reviewer'
+    when ('approved', 'scheduled') then 'reviewer'
+    when ('approved', 'draft') then 'editor'
+    when ('scheduled', 'live') then 'reviewer'
+    when ('scheduled', 'approved') then 'reviewer'
+    when ('live', 'archived') then 'reviewer'
+    when ('archived', 'draft') then 'editor'
+  end;
+  if v_role is null then
+    raise exception 'A quiz cannot move from % to %', p_from, p_to;
+  end if;
+  if not public.has_admin_role(v_role) then
+    raise exception 'Not allowed';
+  end if;
+  if p_to = 'changes_requested' and coalesce(trim(p_comment), '') = '' then
+    raise exception 'Say what needs changing';
+  end if;
+  if p_to = 'scheduled' and p_publish_at is null then
+    raise exception 'Pick a go-live time to schedule the quiz';
+  end if;
+
+  -- Only matches while the quiz is still in p_from, so two people acting on it cannot both succeed.
+  -- The expiry is saved with the move; leaving the scheduled state always drops the go-live time.
+  update quizzes
+    set "workflowState" = p_to,
+        "publishAt" = case when p_to = 'scheduled' then p_publish_at end,
+        "expireAt" = p_expire_at
+    where "internalQuizKey" = p_quiz_id and "workflowState" = p_from;
+  if not found then
+    raise exception 'The quiz was changed by someone else. Reload and try again.';
+  end if;
+
+  insert into quiz_review_comments ("quizId", body, from_state, to_state)
+  values (p_quiz_id, trim(coalesce(p_comment, '')), p_from, p_to);
+end;
+$$;
+
+revoke execute on function public.transition_quiz(text, text, text, text, timestamptz, timestamptz) from public, anon;
+grant execute on function public.transition_quiz(text, text, text, text, timestamptz, timestamptz) to authenticated;
+
+-- Requests made straight from the client run as authenticated/anon; transition_quiz() and the
+-- other security definer functions run as their owner and the scheduler as service_role.
+-- Named to run before sync_quiz_status, which would otherwise turn a quizStatus flip into a move.
+create or replace function public.guard_quiz_workflow()
+returns trigger
+language plpgsql
+as $$
+begin
+  if current_user not in ('authenticated', 'anon') then
+    return new;
+  end if;
+  if tg_op = 'INSERT' then
+    if new."workflowState" <> 'draft' or coalesce(new."quizStatus", 0) <> 0 then
+      raise exception 'New quizzes start as drafts';
+    end if;
+  elsif new."workflowState" is distinct from old."workflowState"
+     or new."quizStatus" is distinct from old."quizStatus" then
+    raise exception 'Use the review workflow to change the state of a quiz';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_quiz_workflow on public.quizzes;
+create trigger guard_quiz_workflow
+  before insert or update on public.quizzes
+  for each row execute function public.guard_quiz_workflow();
+
+-- Transition comments are written by transition_quiz() only; plain comments stay open to editors
+drop policy if exists "Editors can add review comments" on public.quiz_review_comments;
+create policy "Editors can add review comments"
+  on public.quiz_review_comments for insert
+  with check (public.has_admin_role('editor') and from_state is null and to_state is null);
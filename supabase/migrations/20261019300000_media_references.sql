@@ -0,0 +1,44 @@
+-- Images are also kept alive by content that is not live: a deleted item can be restored from
+-- the recycle bin, a pending translation draft can be approved and an old question version can
+-- be restored. Deleting an asset that only those still use would leave them with a broken image,
+-- so media_references() reports them too. One entry per item, however many versions use it.
+create or replace function public.media_references()
+returns table (path text, kind text, key text, title text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with bodies as (
+    select 'book' as kind, b.book_id::text as key, b.title::text as title, b.icon::text as body
+      from exam_book b
+    union all
+    select 'section', s."moduleCode", s."moduleTitle", s."iconLink"
+      from quiz_sections s
+    union all
+    select 'quiz', q."internalQuizKey", q."quizTitle", q."coverImageLink"
+      from quizzes q
+    union all
+    select 'question', x."questionId"::text, left(x."questionText", 80), concat_ws(' ', x."questionText", x."noteText")
+      from questions x
+    union all
+    -- Named after what was deleted, even when the image is in one of its children
+    select 'recycle_bin', r.batch_id::text, root.title, r.row_data::text
+      from recycle_bin r
+      left join recycle_bin root on root.batch_id = r.batch_id and root.is_root
+    union all
+    select 'translation_draft', d.id::text, left(d."questionText", 80), concat_ws(' ', d."questionText", d."noteText")
+      from translation_drafts d
+      where d.status = 'pending'
+    union all
+    select 'question_version', v."questionId", left(v."questionText", 80), concat_ws(' ', v."questionText", v."noteText")
+      from question_versions v
+  )
+  select distinct on (m[1], b.kind, b.key) m[1], b.kind, b.key, b.title
+  from bodies b
+  cross join lateral regexp_matches(b.body, '/storage/v1/object/public/media/([^\s)"''<>?#]+)', 'g') m
+  where b.body like '%/object/public/media/%'
+  order by m[1], b.kind, b.key;
+$$;
+
+revoke execute on function public.media_references() from public, anon, authenticated;
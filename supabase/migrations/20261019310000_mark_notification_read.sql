@@ -0,0 +1,20 @@
+-- The update policy on player_notifications let players rewrite any column of their own rows,
+-- e.g. the body or the delivery status. Marking an entry read is the only change they need, so
+-- it goes through mark_notification_read() and players get no update access to the table.
+
+drop policy if exists "Players can mark their notifications read" on public.player_notifications;
+
+-- Keeps the first read time when an entry is opened again
+create or replace function public.mark_notification_read(p_id bigint)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update player_notifications
+    set read_at = coalesce(read_at, now())
+    where id = p_id and player_id = auth.uid()::text;
+$$;
+
+revoke execute on function public.mark_notification_read(bigint) from public, anon;
+grant execute on function public.mark_notification_read(bigint) to authenticated;
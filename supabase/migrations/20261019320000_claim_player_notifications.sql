@@ -0,0 +1,36 @@
+-- Two delivery workers (or an overlapping pass) could both load the same pending rows and send
+-- each notification twice. claim_player_notifications() moves a batch to 'sending' and returns
+-- it in one statement, skipping rows another worker holds. A claim left behind by a worker that
+-- died is picked up again once it is older than p_stale_after.
+
+alter table public.player_notifications
+  drop constraint if exists player_notifications_status_check;
+alter table public.player_notifications
+  add constraint player_notifications_status_check check (status in ('pending', 'sending', 'sent', 'failed'));
+
+alter table public.player_notifications
+  add column if not exists claimed_at timestamptz;
+
+create or replace function public.claim_player_notifications(
+  p_limit integer default 100,
+  p_stale_after interval default interval '10 minutes'
+)
+returns setof public.player_notifications
+language sql
+security definer
+set search_path = public
+as $$
+  update player_notifications n
+    set status = 'sending', claimed_at = now()
+    where n.id in (
+      select c.id from player_notifications c
+      where c.status = 'pending' or (c.status = 'sending' and c.claimed_at < now() - p_stale_after)
+      order by c.created_at
+      limit p_limit
+      for update skip locked
+    )
+    returning n.*;
+$$;
+
+revoke execute on function public.claim_player_notifications(integer, interval) from public, anon, authenticated;
+grant execute on function public.claim_player_notifications(integer, interval) to service_role;
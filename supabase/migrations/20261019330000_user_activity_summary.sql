@@ -0,0 +1,39 @@
+-- Totals for the user detail page. The page used to load a player's last 2000 attempts and add
+-- them up in the browser, so the numbers of very active players silently left out their oldest
+-- attempts. Everything is now summed here; the page only loads the attempts and reports it shows.
+-- p_time_zone is the admin's, so play days (and with them the streaks) follow their calendar.
+create or replace function public.user_activity_summary(p_user_id text, p_time_zone text default 'UTC')
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_admin_role('editor') then
+    raise exception 'Not allowed';
+  end if;
+
+  return jsonb_build_object(
+    'quizzes', coalesce((
+      select jsonb_agg(jsonb_build_object('quizId', s."quizId", 'attempts', s.attempts, 'correct', s.correct, 'total', s.total))
+      from (
+        select p."quizId", count(*) as attempts, coalesce(sum(p.score), 0) as correct, coalesce(sum(p."totalQuestions"), 0) as total
+        from user_progress p
+        where p."userId"::text = p_user_id
+        group by p."quizId"
+      ) s
+    ), '[]'::jsonb),
+    'days', coalesce((
+      select jsonb_agg(distinct (p.created_at at time zone p_time_zone)::date)
+      from user_progress p
+      where p."userId"::text = p_user_id
+    ), '[]'::jsonb),
+    'lastPlayed', (select max(p.created_at) from user_progress p where p."userId"::text = p_user_id),
+    'lastReported', (select max(r.created_at) from question_reports r where r."playerId"::text = p_user_id)
+  );
+end;
+$$;
+
+revoke execute on function public.user_activity_summary(text, text) from public, anon;
+grant execute on function public.user_activity_summary(text, text) to authenticated;
@@ -0,0 +1,24 @@
+-- guard_quiz_workflow() also refused client inserts with a non-zero "quizStatus", which broke
+-- cloning a live quiz (the copy kept the source's quizStatus) and depends on the column default
+-- for the quiz form, which does not send it. On insert sync_quiz_status derives quizStatus from
+-- "workflowState" anyway, so only the workflow state has to be checked. The client inserts are
+-- the quiz form (QuizzesPage) and cloning (lib/cloneTree); both start quizzes as drafts.
+create or replace function public.guard_quiz_workflow()
+returns trigger
+language plpgsql
+as $$
+begin
+  if current_user not in ('authenticated', 'anon') then
+    return new;
+  end if;
+  if tg_op = 'INSERT' then
+    if new."workflowState" <> 'draft' then
+      raise exception 'New quizzes start as drafts';
+    end if;
+  elsif new."workflowState" is distinct from old."workflowState"
+     or new."quizStatus" is distinct from old."quizStatus" then
+    raise exception 'Use the review workflow to change the state of a quiz';
+  end if;
+  return new;
+end;
+$$;
@@ -0,0 +1,38 @@
+-- Replaces the row lock from 20261019280000_question_version_lock.sql, which did nothing: the
+-- trigger runs after the UPDATE, which already holds that row lock. Numbering is now guarded by
+-- a transaction-level advisory lock per question, which also covers versions recorded without
+-- an UPDATE of the row (the INSERT of a new or restored question). The lock is held until
+-- commit, so the next writer's max(version) sees the version inserted here.
+
+create or replace function public.record_question_version()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' and (
+    old."questionType", old."questionText", old."correctAnswer", old."optionA", old."optionB",
+    old."optionC", old."optionD", old."noteText", old."previouslyAskedIn", old."languageCode"
+  ) is not distinct from (
+    new."questionType", new."questionText", new."correctAnswer", new."optionA", new."optionB",
+    new."optionC", new."optionD", new."noteText", new."previouslyAskedIn", new."languageCode"
+  ) then
+    return null;
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('question_versions'), hashtext(new."questionId"::text));
+
+  insert into public.question_versions (
+    "questionId", version, "questionType", "questionText", "correctAnswer", "optionA", "optionB",
+    "optionC", "optionD", "noteText", "previouslyAskedIn", "languageCode"
+  )
+  values (
+    new."questionId",
+    coalesce((select max(version) from public.question_versions where "questionId" = new."questionId"), 0) + 1,
+    new."questionType", new."questionText", new."correctAnswer", new."optionA", new."optionB",
+    new."optionC", new."optionD", new."noteText", new."previouslyAskedIn", new."languageCode"
+  );
+  return null;
+end;
+$$;